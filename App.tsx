@@ -1,8 +1,16 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { StorageService } from './services/storageService';
 import * as API from './services/apiService';
-import { calculateTankVolume } from './utils/calculationUtils';
-import { Tank, Reading, SystemType, ChemicalSupply, CWSParameterRecord, BWSParameterRecord, ImportantNote, CalculationMethod, ShapeType, HeadType, FluctuationAlert } from './types';
+import {
+    calculateTankVolume, calculateRecentAvgDailyUsageLiters, DEFAULT_USAGE_CALC_WEEKS, calculateTankForecast, calculateActualUsage, LIKELY_REFILL_RISE_DAYS,
+    COOLING_TOWER_SAMPLE_POINTS, getCoolingTowerArea, findWaterQualityCycleRatios, resolveConcentrationCycles,
+    calculateCoolingTowerBalance, calculateHoldupPpmIncrease, calculateCoolingChemicalDemandKg,
+    getBoilerChemicalType, calculateBoilerChemicalDemandKg,
+    getDenoxReagentType, calculateDenoxReagentDemandKg, calculateWastewaterDemandKg, convertInputToLevelCm, convertLevelCmToInput,
+    buildUsageProfile, scoreReadingAnomaly
+} from './utils/calculationUtils';
+import type { UsageMetric, UsageProfile } from './utils/calculationUtils';
+import { Tank, Reading, SystemType, ChemicalSupply, CWSParameterRecord, BWSParameterRecord, DenoxParameterRecord, WastewaterParameterRecord, ImportantNote, CalculationMethod, ShapeType, HeadType, FluctuationAlert, AnomalyClassification, StrappingPoint, UserRole, BoilerChemicalType, ChemicalMaster, ChemicalSafetyWarning } from './types';
 import { Icons } from './components/Icons';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { ImportAnomalyModal, ImportAnomaly } from './components/ImportAnomalyModal';
@@ -15,8 +23,27 @@ import AnnualDataView from './views/AnnualDataView';
 import { ExcelImportView } from './views/ExcelImportView';
 import { WaterQualityTrendsView } from './views/WaterQualityTrendsView';
 import InstrumentManagementView from './views/InstrumentManagementView';
+import { DeliveryOrdersView } from './views/DeliveryOrdersView';
+import { AuditLogView } from './views/AuditLogView';
+import { CostDashboardView } from './views/CostDashboardView';
+import { ContractAnalysisView } from './views/ContractAnalysisView';
+import { DeclarationReportView } from './views/DeclarationReportView';
+import { FieldRoundView } from './views/FieldRoundView';
 import { FluctuationAlertsView } from './components/FluctuationAlertsView';
+import { OfflineSyncBanner } from './components/OfflineSyncBanner';
 import { formatAnomalyMessage } from './utils/textUtils';
+import { hasRole } from './utils/permissionUtils';
+import { UserRolesPanel } from './components/UserRolesPanel';
+import { NotificationRulesPanel } from './components/NotificationRulesPanel';
+import { RecycleBinPanel } from './components/RecycleBinPanel';
+import { PiImportRunsPanel } from './components/PiImportRunsPanel';
+import { PiTagMappingPanel } from './components/PiTagMappingPanel';
+import { CoolingTowerBalancePanel } from './components/CoolingTowerBalancePanel';
+import { BudgetSettingsPanel } from './components/BudgetSettingsPanel';
+import { ChemicalMasterPanel } from './components/ChemicalMasterPanel';
+import { TankQrLabelsModal } from './components/TankQrLabelsModal';
+import { DenoxParamsPanel } from './components/DenoxParamsPanel';
+import { WastewaterParamsPanel } from './components/WastewaterParamsPanel';
 
 // --- Helper Components ---
 
@@ -70,6 +97,20 @@ const CWS_TAGS_CONFIG: any = {
     }
 };
 
+// 鍋爐藥劑類別與理論用量計算基準
+const BOILER_CHEMICAL_TYPE_LABELS: Record<BoilerChemicalType, string> = {
+    OXYGEN_SCAVENGER: '除氧劑 (給水量 × (殘留濃度 + 溶氧 × 化學計量))',
+    PHOSPHATE: '磷酸鹽 (排放量 × 濃度)',
+    AMINE: '胺類 (補給水量 × 濃度)',
+    STEAM: '一般 (蒸汽量 × 濃度)'
+};
+const BOILER_BASIS_LABELS: Record<BoilerChemicalType, string> = {
+    OXYGEN_SCAVENGER: '給水量',
+    PHOSPHATE: '排放量',
+    AMINE: '補給水量',
+    STEAM: '蒸汽量'
+};
+
 // --- Utility Functions ---
 
 // 跨環境相容的 UUID 生成函數 (因為 crypto.randomUUID 只能在 HTTPS 環境使用)
@@ -190,8 +231,6 @@ const normalizeTimestampToLocalDayStart = (timestamp?: number): number => {
     return d.getTime();
 };
 
-type UsageMetric = 'KG' | 'L' | '$';
-
 type LevelRiseWarning = {
     kind: 'SUSPICIOUS_RISE' | 'MULTIPLE_REFILL_RISE';
     dateStr: string;
@@ -202,7 +241,6 @@ type LevelRiseWarning = {
 };
 
 const SUSPICIOUS_RISE_DAYS = 5;
-const LIKELY_REFILL_RISE_DAYS = 5;
 
 const getLocalDateKey = (timestamp: number): string => {
     const d = new Date(timestamp);
@@ -212,12 +250,6 @@ const getLocalDateKey = (timestamp: number): string => {
     return `${Y}-${M}-${D}`;
 };
 
-const getActiveSupplyAt = (timestamp: number, suppliesHistory: ChemicalSupply[]): ChemicalSupply | undefined => {
-    return suppliesHistory
-        .filter(s => s.startDate <= timestamp)
-        .sort((a, b) => b.startDate - a.startDate)[0];
-};
-
 const getReadingsForUsagePeriod = (
     readings: Reading[],
     tankId: string,
@@ -250,74 +282,7 @@ const calculateActualUsageFromLevel = (
     periodReadings: Reading[],
     metric: UsageMetric,
     suppliesHistory: ChemicalSupply[]
-): number => {
-    const orderedReadings = [...periodReadings].sort((a, b) => a.timestamp - b.timestamp);
-    if (orderedReadings.length < 2) return 0;
-
-    const getVolume = (reading: Reading): number => {
-        const volume = calculateTankVolume(tank, reading.levelCm);
-        if (Number.isFinite(volume) && volume >= 0) return volume;
-        return reading.calculatedVolume || 0;
-    };
-
-    const toMetric = (liters: number, readingForContract: Reading): number => {
-        if (liters <= 0) return 0;
-        if (metric === 'L') return liters;
-
-        const activeSupply = getActiveSupplyAt(readingForContract.timestamp, suppliesHistory);
-        const sg = activeSupply?.specificGravity || readingForContract.appliedSpecificGravity || 1;
-        const kg = liters * sg;
-
-        if (metric === '$') {
-            return kg * (activeSupply?.price || 0);
-        }
-
-        return kg;
-    };
-
-    const intervals = orderedReadings.slice(1).map((curr, index) => {
-        const prev = orderedReadings[index];
-        const prevVolume = getVolume(prev);
-        const currVolume = getVolume(curr);
-
-        return {
-            curr,
-            prevVolume,
-            currVolume,
-            addedLiters: curr.addedAmountLiters || 0,
-            decreaseLiters: Math.max(0, prevVolume - currVolume),
-            riseLiters: Math.max(0, currVolume - prevVolume)
-        };
-    });
-
-    const firstReading = orderedReadings[0];
-    const lastReading = orderedReadings[orderedReadings.length - 1];
-    const elapsedDays = Math.max(1, (lastReading.timestamp - firstReading.timestamp) / (1000 * 60 * 60 * 24));
-    const estimatedDailyUsageLiters = intervals.reduce((sum, interval) => sum + interval.decreaseLiters, 0) / elapsedDays;
-    const refillRiseThresholdLiters = estimatedDailyUsageLiters * SUSPICIOUS_RISE_DAYS;
-    const likelyRefillRiseThresholdLiters = estimatedDailyUsageLiters * LIKELY_REFILL_RISE_DAYS;
-
-    const hasRefill = intervals.some(interval => {
-        if (interval.addedLiters > 0) return true;
-        if (estimatedDailyUsageLiters <= 0) return false;
-        return interval.riseLiters >= likelyRefillRiseThresholdLiters;
-    });
-
-    if (!hasRefill) {
-        return toMetric(getVolume(firstReading) - getVolume(lastReading), lastReading);
-    }
-
-    return intervals.reduce((sum, interval) => {
-        const isImplicitRefill = estimatedDailyUsageLiters > 0 && interval.riseLiters >= likelyRefillRiseThresholdLiters;
-        const intervalUsageLiters = interval.addedLiters > 0
-            ? Math.max(0, (interval.prevVolume + interval.addedLiters) - interval.currVolume)
-            : isImplicitRefill
-                ? 0
-                : interval.decreaseLiters;
-
-        return sum + toMetric(intervalUsageLiters, interval.curr);
-    }, 0);
-};
+): number => calculateActualUsage(tank, periodReadings, suppliesHistory, metric).value;
 
 const getSuspiciousLevelRiseWarnings = (
     tank: Tank,
@@ -546,6 +511,26 @@ const TankStatusCard: React.FC<{
                     </div>
                 </div>
 
+                {/* Forecast: safe min / empty / order-by dates */}
+                {tank.forecast && tank.forecast.orderByDate !== null && (
+                    <div className="text-[11px] space-y-0.5">
+                        <div className="flex justify-between">
+                            <span className="text-slate-400">達安全液位</span>
+                            <span className="text-slate-600">{new Date(tank.forecast.safeMinDate).toLocaleDateString()}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-slate-400">預估見底</span>
+                            <span className="text-slate-600">{new Date(tank.forecast.emptyDate).toLocaleDateString()}</span>
+                        </div>
+                        <div className="flex justify-between" title={`交貨前置 ${tank.forecast.leadTimeDays} 天`}>
+                            <span className="text-slate-400">叫藥期限</span>
+                            <span className={`font-bold ${tank.forecast.orderByDate <= Date.now() ? 'text-red-600' : tank.forecast.orderByDate <= Date.now() + 7 * 24 * 60 * 60 * 1000 ? 'text-amber-600' : 'text-slate-700'}`}>
+                                {new Date(tank.forecast.orderByDate).toLocaleDateString()}
+                            </span>
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex items-center justify-between mt-1">
                     <div className="text-[10px] text-slate-400 flex items-center">
                         <Icons.ClipboardPen className="w-3 h-3 mr-1 opacity-50" />
@@ -571,13 +556,37 @@ const TankStatusCard: React.FC<{
 const DeliveryEstimationModal: React.FC<{
     tank: any;
     onClose: () => void;
-}> = ({ tank, onClose }) => {
+    canCreateOrder?: boolean;
+}> = ({ tank, onClose, canCreateOrder = false }) => {
     const [deliveryDate, setDeliveryDate] = useState<string>(() => {
         const d = new Date();
         d.setDate(d.getDate() + 7); // Default 7 days ahead
         return d.toISOString().split('T')[0];
     });
     const [deliveryKg, setDeliveryKg] = useState<number>(0);
+    const [isCreatingOrder, setIsCreatingOrder] = useState(false);
+
+    const handleCreateOrder = async () => {
+        if (!(deliveryKg > 0)) {
+            alert('請輸入交貨量');
+            return;
+        }
+        setIsCreatingOrder(true);
+        try {
+            await StorageService.saveDeliveryOrder({
+                tankId: tank.id,
+                orderedKg: deliveryKg,
+                requestedAt: Date.now(),
+                expectedAt: new Date(deliveryDate).getTime()
+            });
+            alert('已建立叫藥單');
+            onClose();
+        } catch (e: any) {
+            alert(e.message || '建立叫藥單失敗');
+        } finally {
+            setIsCreatingOrder(false);
+        }
+    };
 
     // Calculate projections
     const daysUntilDelivery = useMemo(() => {
@@ -705,7 +714,16 @@ const DeliveryEstimationModal: React.FC<{
                     </div>
                 </div>
 
-                <div className="bg-slate-50 px-6 py-4 border-t border-slate-200 flex justify-end">
+                <div className="bg-slate-50 px-6 py-4 border-t border-slate-200 flex justify-end gap-2">
+                    {canCreateOrder && (
+                        <button
+                            onClick={handleCreateOrder}
+                            disabled={isCreatingOrder || !(deliveryKg > 0)}
+                            className="bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                        >
+                            建立叫藥單
+                        </button>
+                    )}
                     <button
                         onClick={onClose}
                         className="bg-slate-200 hover:bg-slate-300 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
@@ -1013,14 +1031,24 @@ const DailyUsageTrendModal: React.FC<{
     );
 };
 
-const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: () => void, onNavigate?: (tankId: string, month: number, year: number) => void, onLoading?: (loading: boolean) => void, usageCalcWeeks?: number, lowLevelWarningText?: string }> = ({ tanks, readings, onRefresh, onNavigate, onLoading, usageCalcWeeks = 8, lowLevelWarningText = '存量偏低，請叫藥' }) => {
+const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: () => void, onNavigate?: (tankId: string, month: number, year: number) => void, onLoading?: (loading: boolean) => void, usageCalcWeeks?: number, lowLevelWarningText?: string, defaultLeadTimeDays?: number, userRole?: UserRole | null }> = ({ tanks, readings, onRefresh, onNavigate, onLoading, usageCalcWeeks = DEFAULT_USAGE_CALC_WEEKS, lowLevelWarningText = '存量偏低，請叫藥', defaultLeadTimeDays = 7, userRole }) => {
     const [deliveryModalTank, setDeliveryModalTank] = useState<any>(null);
     const [trendModalTank, setTrendModalTank] = useState<any>(null);
     const [dailyUsageModalTank, setDailyUsageModalTank] = useState<any>(null);
+    const [safetyWarnings, setSafetyWarnings] = useState<ChemicalSafetyWarning[]>([]);
 
-    const tanksWithStatus = useMemo(() => {
-        const weeksAgo = Date.now() - usageCalcWeeks * 7 * 24 * 60 * 60 * 1000;
+    // 化學品安全警示 (SDS 逾期 / 未上傳、同一防溢堤區存放不相容藥品)
+    useEffect(() => {
+        StorageService.getChemicalSafetyWarnings().then(setSafetyWarnings);
+    }, [tanks]);
 
+    // 其他操作員輸入液位或修改儲槽 / 合約時即時更新看板
+    useEffect(() => API.subscribeLiveEvents(['reading', 'tank', 'supply'], () => onRefresh()), [onRefresh]);
+    useEffect(() => API.subscribeLiveEvents(['chemical'], () => {
+        StorageService.getChemicalSafetyWarnings().then(setSafetyWarnings);
+    }), []);
+
+    const tanksWithStatus = useMemo(() => {
         return tanks.map(tank => {
             const tankReadings = readings.filter(r => r.tankId === tank.id).sort((a, b) => b.timestamp - a.timestamp);
             const lastReading = tankReadings[0];
@@ -1031,38 +1059,21 @@ const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: (
             const safeMinLevelCm = tank.inputUnit === 'PERCENT' ? tank.safeMinLevel * 100 : tank.safeMinLevel;
             const isLow = lastReading ? (lastReading.levelCm < safeMinLevelCm) : false;
 
-            // Calculate average daily usage from past N weeks (configurable)
-            const recentReadings = tankReadings.filter(r => r.timestamp >= weeksAgo).sort((a, b) => a.timestamp - b.timestamp);
-            let avgDailyUsageLiters = 0;
-            let avgDailyUsageKg = 0;
-
-            if (recentReadings.length >= 2) {
-                // Sum up usage between consecutive readings
-                let totalUsageLiters = 0;
-                for (let i = 1; i < recentReadings.length; i++) {
-                    const prev = recentReadings[i - 1];
-                    const curr = recentReadings[i];
-                    // Usage = previous volume - current volume + any added amount
-                    const usage = prev.calculatedVolume - curr.calculatedVolume + (curr.addedAmountLiters || 0);
-                    if (usage > 0) totalUsageLiters += usage;
-                }
-
-                // Days covered
-                const firstTs = recentReadings[0].timestamp;
-                const lastTs = recentReadings[recentReadings.length - 1].timestamp;
-                const daysCovered = Math.max(1, (lastTs - firstTs) / (24 * 60 * 60 * 1000));
-
-                avgDailyUsageLiters = totalUsageLiters / daysCovered;
-                // Approximate kg using last reading's SG
-                const sg = lastReading?.appliedSpecificGravity || 1;
-                avgDailyUsageKg = avgDailyUsageLiters * sg;
-            }
+            // Calculate average daily usage from past N weeks (configurable, same window as /api/tanks/:id/forecast)
+            const avgDailyUsageLiters = calculateRecentAvgDailyUsageLiters(tankReadings, usageCalcWeeks);
+            // Approximate kg using last reading's SG
+            const avgDailyUsageKg = avgDailyUsageLiters * (lastReading?.appliedSpecificGravity || 1);
 
             // Remaining days
             const remainingDays = avgDailyUsageLiters > 0
                 ? Math.floor(currentVolume / avgDailyUsageLiters)
                 : null;
 
+            // Forecast: safe min / empty dates and order-by date (lead time per tank, else global default)
+            const forecast = lastReading
+                ? calculateTankForecast(tank, currentVolume, lastReading.timestamp, avgDailyUsageLiters, tank.leadTimeDays ?? defaultLeadTimeDays)
+                : null;
+
             return {
                 ...tank,
                 currentLevel,
@@ -1072,10 +1083,11 @@ const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: (
                 isLow,
                 avgDailyUsageLiters,
                 avgDailyUsageKg,
-                remainingDays
+                remainingDays,
+                forecast
             };
         });
-    }, [tanks, readings, usageCalcWeeks]);
+    }, [tanks, readings, usageCalcWeeks, defaultLeadTimeDays]);
 
     const groups = useMemo(() => {
         const cooling = tanksWithStatus.filter(t => t.system === SystemType.COOLING);
@@ -1198,6 +1210,20 @@ const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: (
                 </div>
             )}
 
+            {safetyWarnings.length > 0 && (
+                <div className="bg-amber-50 border-l-4 border-amber-500 p-4 rounded-r shadow-sm">
+                    <div className="flex items-center text-amber-800 mb-2">
+                        <Icons.Alert className="w-5 h-5 mr-2" />
+                        <span className="font-bold">化學品安全警示 ({safetyWarnings.length})</span>
+                    </div>
+                    <ul className="space-y-1 text-sm text-amber-800 list-disc list-inside">
+                        {safetyWarnings.map((w, idx) => (
+                            <li key={idx} className={w.type === 'INCOMPATIBLE_STORAGE' ? 'font-semibold text-red-700' : ''}>{w.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="bg-sky-50 px-6 py-4 border-b border-sky-100 flex items-center gap-3">
                     <div className="p-2 bg-sky-200 rounded-lg text-sky-700">
@@ -1317,6 +1343,7 @@ const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: (
                 <DeliveryEstimationModal
                     tank={deliveryModalTank}
                     onClose={() => setDeliveryModalTank(null)}
+                    canCreateOrder={hasRole(userRole, 'engineer')}
                 />
             )}
 
@@ -1342,17 +1369,20 @@ const DashboardView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: (
 const DataEntryView: React.FC<{
     tanks: Tank[],
     readings: Reading[],
-    onSave: (r: Reading) => void,
-    onBatchSave: (rs: Reading[]) => void,
+    onSave: (r: Reading) => Promise<{ queued: boolean }>,
+    onBatchSave: (rs: Reading[]) => Promise<{ queued: boolean }>,
     onUpdateTank: (tank?: Tank) => void;
     onLoading: (loading: boolean) => void;
     appSettings: any;
-}> = ({ tanks, readings, onSave, onBatchSave, onUpdateTank, onLoading, appSettings }) => {
-    const [selectedTankId, setSelectedTankId] = useState<string>('');
-    const [date, setDate] = useState<string>(getTaipeiDateString(undefined, -1));
+    focusTankId?: string | null;
+    onClearFocus?: () => void;
+}> = ({ tanks, readings, onSave, onBatchSave, onUpdateTank, onLoading, appSettings, focusTankId, onClearFocus }) => {
+    const [selectedTankId, setSelectedTankId] = useState<string>(focusTankId || '');
+    // 由 QR 標籤進入時為現場抄表，預設今日；一般進入預設昨日
+    const [date, setDate] = useState<string>(getTaipeiDateString(undefined, focusTankId ? 0 : -1));
     // Batch Levels for Type A
     const [batchLevels, setBatchLevels] = useState<{ [key: string]: string }>({});
-    const [activeType, setActiveType] = useState<'A' | 'B' | 'C' | 'D'>('A');
+    const [activeType, setActiveType] = useState<'A' | 'B' | 'C' | 'D' | 'E' | 'F'>('A');
 
     // State for editing history items
     // Allow editingItem to be Reading | ChemicalSupply | CWSParameterRecord | BWSParameterRecord
@@ -1368,26 +1398,10 @@ const DataEntryView: React.FC<{
     const [convertedCountInfo, setConvertedCountInfo] = useState<number>(0);
 
     const getRecentDailyUsageKg = (tankId: string) => {
-        const usageCalcWeeks = appSettings?.usageCalcWeeks || 4;
-        const now = Date.now();
-        const weeksAgo = now - (usageCalcWeeks * 7 * 24 * 60 * 60 * 1000);
-        const tankReadings = readings.filter(r => r.tankId === tankId && r.timestamp >= weeksAgo).sort((a, b) => a.timestamp - b.timestamp);
-        
-        if (tankReadings.length >= 2) {
-            let totalUsageLiters = 0;
-            for (let i = 1; i < tankReadings.length; i++) {
-                const prev = tankReadings[i - 1];
-                const curr = tankReadings[i];
-                const usage = prev.calculatedVolume - curr.calculatedVolume + (curr.addedAmountLiters || 0);
-                if (usage > 0) totalUsageLiters += usage;
-            }
-            const firstTs = tankReadings[0].timestamp;
-            const lastTs = tankReadings[tankReadings.length - 1].timestamp;
-            const daysCovered = Math.max(1, (lastTs - firstTs) / (24 * 60 * 60 * 1000));
-            const sg = tankReadings[tankReadings.length - 1]?.appliedSpecificGravity || 1;
-            return ((totalUsageLiters / daysCovered) * sg).toFixed(1);
-        }
-        return '0.0';
+        const tankReadings = readings.filter(r => r.tankId === tankId).sort((a, b) => a.timestamp - b.timestamp);
+        const avgDailyUsageLiters = calculateRecentAvgDailyUsageLiters(tankReadings, appSettings?.usageCalcWeeks ?? DEFAULT_USAGE_CALC_WEEKS);
+        const sg = tankReadings[tankReadings.length - 1]?.appliedSpecificGravity || 1;
+        return (avgDailyUsageLiters * sg).toFixed(1);
     };
 
     const checkAnomalies = (newReadings: Reading[]): ImportAnomaly[] => {
@@ -1419,94 +1433,12 @@ const DataEntryView: React.FC<{
             const allReadings = Array.from(consolidatedMap.values())
                 .sort((a, b) => a.timestamp - b.timestamp);
 
-            // Calculate tank capacity for threshold (use volume if available)
-            // Priority: 1. Defined Capacity -> 2. Calculated from Height -> 3. Default
-            let tankCapacity = tank.capacityLiters > 0 ? tank.capacityLiters : 0;
-            if (tankCapacity === 0 && tank.dimensions?.height) {
-                tankCapacity = calculateTankVolume(tank, tank.dimensions.height);
-            }
-            if (tankCapacity === 0) tankCapacity = 10000; // Default 10000L if unknown
-            const thresholdPercent = tank.validationThreshold ?? 30; // Use tank setting or default 30%
-            const dailyThreshold = tankCapacity * (thresholdPercent / 100);
-
-            // Check each new reading against its predecessor/successor
+            // 分佈只由既有讀數 (未被本次覆寫者) 學習一次，避免匯入批次影響自己的基準，再逐筆評分
+            const baselineReadings = existingTankReadings.filter(r => consolidatedMap.get(r.timestamp) === r);
+            const usageProfile = buildUsageProfile(tank, baselineReadings);
             for (const newReading of tankNewReadings) {
-                const idx = allReadings.findIndex(r => r.id === newReading.id);
-                if (idx === -1) continue;
-
-                let anomalyReason = null;
-                const prev = idx > 0 ? allReadings[idx - 1] : null;
-                const next = idx < allReadings.length - 1 ? allReadings[idx + 1] : null;
-
-                // 1. Check vs Prev
-                if (prev) {
-                    const d1 = new Date(newReading.timestamp);
-                    d1.setHours(0, 0, 0, 0);
-                    const d2 = new Date(prev.timestamp);
-                    d2.setHours(0, 0, 0, 0);
-                    const calendarDays = (d1.getTime() - d2.getTime()) / (1000 * 60 * 60 * 24);
-                    // Use actual time difference if greater than 1, otherwise use at least 1, but if it's multiple calendar days, use calendar days
-                    const daysDiff = Math.max(1, calendarDays);
-
-                    if (daysDiff >= 1) { // Will always be true now
-                        const addedAmount = newReading.addedAmountLiters || 0;
-                        const levelChange = (prev.calculatedVolume + addedAmount) - newReading.calculatedVolume;
-                        const dailyChange = Math.abs(levelChange) / daysDiff;
-
-                        if (dailyChange > dailyThreshold) {
-                            // 判斷是否為「可能補藥」：液位上升（levelChange < 0）且超過閾值12倍以上
-                            const isPossibleRefill = levelChange < 0 && dailyChange > dailyThreshold * 12;
-                            // Use SG from the reading to display Kg
-                            const sg = newReading.appliedSpecificGravity || 1.0;
-                            const dailyChangeKg = dailyChange * sg;
-                            const dailyThresholdKg = dailyThreshold * sg;
-
-                            console.log('[AnomalyCheck]', {
-                                tank: tank.name,
-                                isPossibleRefill,
-                                settings: appSettings,
-                                refillText: appSettings?.possibleRefillText,
-                                warnText: appSettings?.thresholdWarningText
-                            });
-
-                            const recentDailyUsageKg = getRecentDailyUsageKg(tank.id);
-
-                            if (isPossibleRefill) {
-                                const warnText = appSettings?.possibleRefillText || '可能為補藥紀錄({diff} kg)，超過閥值{limit} {unit}，近期日用量為{recentUsage} kg請確認';
-                                anomalyReason = formatAnomalyMessage(warnText, {
-                                    text: '可能為補藥紀錄',
-                                    diff: dailyChangeKg.toFixed(0),
-                                    limit: dailyThresholdKg.toFixed(0),
-                                    unit: 'kg',
-                                    recentUsage: recentDailyUsageKg
-                                });
-                            } else {
-                                const warnText = appSettings?.thresholdWarningText || '液位變化異常({diff} kg)，超過閥值{limit} {unit}，近期日用量為{recentUsage} kg請確認';
-                                anomalyReason = formatAnomalyMessage(warnText, {
-                                    text: '液位變化異常，請確認',
-                                    diff: dailyChangeKg.toFixed(0),
-                                    limit: dailyThresholdKg.toFixed(0),
-                                    unit: 'kg',
-                                    recentUsage: recentDailyUsageKg
-                                });
-                            }
-
-                            anomalies.push({
-                                id: newReading.id,
-                                tankId: tank.id,
-                                date: new Date(newReading.timestamp).toLocaleDateString(),
-                                tankName: tank.name,
-                                reason: anomalyReason,
-                                currentValue: newReading.calculatedVolume,
-                                prevDate: prev ? new Date(prev.timestamp).toLocaleDateString() : undefined,
-                                prevValue: prev ? prev.calculatedVolume : undefined,
-                                nextDate: next ? new Date(next.timestamp).toLocaleDateString() : undefined,
-                                nextValue: next ? next.calculatedVolume : undefined,
-                                isPossibleRefill
-                            });
-                        }
-                    }
-                }
+                const anomaly = detectReadingAnomaly(tank, newReading, allReadings, usageProfile);
+                if (anomaly) anomalies.push(anomaly);
             }
         });
 
@@ -1551,6 +1483,8 @@ const DataEntryView: React.FC<{
                         nextValue: anomaly.nextValue,
                         isPossibleRefill: anomaly.isPossibleRefill,
                         source: anomalySource,
+                        anomalyScore: anomaly.score ?? null,
+                        anomalyClass: anomaly.classification ?? null,
                         note: '' // Initial note is empty
                     };
                 });
@@ -1559,9 +1493,9 @@ const DataEntryView: React.FC<{
 
             if (anomalySource === 'MANUAL') {
                 // Manual Entry Saving
-                await onBatchSave(pendingReadings);
+                const { queued } = await onBatchSave(pendingReadings);
                 setBatchLevels({}); // Clear manual inputs
-                alert(`已成功儲存 ${pendingReadings.length} 筆液位紀錄`);
+                alert(queued ? `網路中斷，${pendingReadings.length} 筆液位紀錄已暫存於本機，連線恢復後自動同步` : `已成功儲存 ${pendingReadings.length} 筆液位紀錄`);
             } else {
                 // Import Saving
                 await onBatchSave(pendingReadings);
@@ -1752,6 +1686,7 @@ const DataEntryView: React.FC<{
     const [importWeeks, setImportWeeks] = useState(1);
     const [importing, setImporting] = useState(false);
     const [importLogs, setImportLogs] = useState<string[]>([]);
+    const [piRunsRefreshKey, setPiRunsRefreshKey] = useState(0);
 
     useEffect(() => {
         localStorage.setItem('piWebApiUrl', piBaseUrl);
@@ -1807,7 +1742,7 @@ const DataEntryView: React.FC<{
             // 呼叫後端 API，由伺服器使用 Windows 服務帳號（UseDefaultCredentials）存取 PI Web API
             const res = await fetch(`${import.meta.env.BASE_URL}api/pi-import`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', ...API.getUnifiedUserHeaders() },
                 body: JSON.stringify({ weeks: importWeeks })
             });
             const data = await res.json();
@@ -1827,6 +1762,7 @@ const DataEntryView: React.FC<{
             addLog(`錯誤: ${e.message}`);
         } finally {
             setImporting(false);
+            setPiRunsRefreshKey(prev => prev + 1);
         }
     };
 
@@ -1837,6 +1773,16 @@ const DataEntryView: React.FC<{
         }
     }, [tanks]);
 
+    // QR 標籤深層連結：預選儲槽並切換至今日液位輸入
+    useEffect(() => {
+        if (!focusTankId) return;
+        setSelectedTankId(focusTankId);
+        setDate(getTaipeiDateString());
+        setActiveType('A');
+    }, [focusTankId]);
+
+    const focusTank = focusTankId ? tanks.find(t => t.id === focusTankId) : undefined;
+
     // Fetch History Effect
     const loadHistory = useCallback(async () => {
         try {
@@ -1918,15 +1864,58 @@ const DataEntryView: React.FC<{
     }, [activeType, selectedTankId, date, historyCWS]);
 
     // Anomaly Detection Helper
-    const detectReadingAnomaly = (tank: Tank, newReading: Reading, existingReadings: Reading[]): ImportAnomaly | null => {
-        // Merge and sort
-        const allReadings = [...existingReadings, newReading].sort((a, b) => a.timestamp - b.timestamp);
-        const idx = allReadings.findIndex(r => r.id === newReading.id);
-        if (idx === -1) return null;
+    // 歷史樣本足夠時依儲槽日用量分佈 (中位數 / MAD，分星期) 評分分類；新儲槽等樣本不足時退回 validationThreshold 固定閾值
+    const detectReadingAnomaly = (tank: Tank, newReading: Reading, existingReadings: Reading[], usageProfile?: UsageProfile): ImportAnomaly | null => {
+        const assessment = scoreReadingAnomaly(tank, newReading, existingReadings, usageProfile);
+        const { prev, next } = assessment;
+
+        const buildAnomaly = (reason: string, classification: AnomalyClassification, score: number | null): ImportAnomaly => ({
+            id: newReading.id,
+            tankId: tank.id,
+            date: new Date(newReading.timestamp).toLocaleDateString(),
+            tankName: tank.name,
+            reason,
+            currentValue: newReading.calculatedVolume,
+            prevDate: prev ? new Date(prev.timestamp).toLocaleDateString() : undefined,
+            prevValue: prev ? prev.calculatedVolume : undefined,
+            nextDate: next ? new Date(next.timestamp).toLocaleDateString() : undefined,
+            nextValue: next ? next.calculatedVolume : undefined,
+            isPossibleRefill: classification === 'LIKELY_REFILL',
+            score,
+            classification
+        });
+
+        if (assessment.classification !== 'INSUFFICIENT_DATA') {
+            if (assessment.classification === 'NORMAL') return null;
+
+            const sg = newReading.appliedSpecificGravity || 1.0;
+            const recentDailyUsageKg = getRecentDailyUsageKg(tank.id);
+            const diffKg = (Math.abs(assessment.dailyUsageLiters ?? 0) * sg).toFixed(0);
+            const limitKg = assessment.upperLimitLiters !== null ? (assessment.upperLimitLiters * sg).toFixed(0) : '-';
+            const scoreText = assessment.score !== null ? `，異常分數 ${Math.abs(assessment.score).toFixed(1)}` : '';
 
-        const prev = idx > 0 ? allReadings[idx - 1] : null;
-        const next = idx < allReadings.length - 1 ? allReadings[idx + 1] : null;
+            if (assessment.classification === 'LIKELY_REFILL') {
+                const warnText = appSettings?.possibleRefillText || '可能為補藥紀錄({diff} kg)，超過閥值{limit} {unit}，近期日用量為{recentUsage} kg請確認';
+                return buildAnomaly(formatAnomalyMessage(warnText, {
+                    text: '可能為補藥紀錄', diff: diffKg, limit: limitKg, unit: 'kg', recentUsage: recentDailyUsageKg
+                }), 'LIKELY_REFILL', assessment.score);
+            }
+            if (assessment.classification === 'SENSOR_FAULT') {
+                return buildAnomaly(
+                    assessment.score === null
+                        ? `液位讀數 ${newReading.levelCm.toFixed(1)} cm 超出儲槽範圍，疑似液位計異常，請確認`
+                        : `疑似液位計異常(日變化 ${diffKg} kg${scoreText})，近期日用量為${recentDailyUsageKg} kg，請確認儀表或讀數`,
+                    'SENSOR_FAULT',
+                    assessment.score
+                );
+            }
+            const warnText = appSettings?.thresholdWarningText || '液位變化異常({diff} kg)，超過閥值{limit} {unit}，近期日用量為{recentUsage} kg請確認';
+            return buildAnomaly(formatAnomalyMessage(warnText, {
+                text: '液位變化異常，請確認', diff: diffKg, limit: limitKg, unit: 'kg', recentUsage: recentDailyUsageKg
+            }) + scoreText, 'SUSPICIOUS', assessment.score);
+        }
 
+        // 固定閾值：儲槽容量 × validationThreshold% / 日
         // Calculate Capacity
         let tankCapacity = tank.capacityLiters > 0 ? tank.capacityLiters : 0;
         if (tankCapacity === 0 && tank.dimensions?.height) {
@@ -1982,19 +1971,7 @@ const DataEntryView: React.FC<{
                         });
                     }
 
-                    return {
-                        id: newReading.id,
-                        tankId: tank.id,
-                        date: new Date(newReading.timestamp).toLocaleDateString(),
-                        tankName: tank.name,
-                        reason: anomalyReason,
-                        currentValue: newReading.calculatedVolume,
-                        prevDate: prev ? new Date(prev.timestamp).toLocaleDateString() : undefined,
-                        prevValue: prev ? prev.calculatedVolume : undefined,
-                        nextDate: next ? new Date(next.timestamp).toLocaleDateString() : undefined,
-                        nextValue: next ? next.calculatedVolume : undefined,
-                        isPossibleRefill
-                    };
+                    return buildAnomaly(anomalyReason, isPossibleRefill ? 'LIKELY_REFILL' : 'SUSPICIOUS', null);
                 }
             }
         }
@@ -2054,18 +2031,8 @@ const DataEntryView: React.FC<{
                 // Prioritize active supply SG, else 1.0. (Ignoring last reading SG to keep batch logic simple/consistent)
                 const finalSG = activeSup?.specificGravity || 1.0;
 
-                let finalLevelCm = parseFloat(valStr as string);
-
-                // Unit Conversion
-                if (tank.inputUnit === 'PERCENT') {
-                    // 公尺 → 公分（CT-1 舊模式，維持不動）
-                    finalLevelCm = finalLevelCm * 100;
-                } else if (tank.inputUnit === 'LIQUID_PERCENT') {
-                    // 百分比（0-100%）→ 公分，使用可設定的換算係數
-                    // 係數預設 = 桶槽高度 / 100（線性估算）
-                    const factor = tank.piPercentFactor ?? ((tank.dimensions?.height ?? 100) / 100);
-                    finalLevelCm = finalLevelCm * factor;
-                }
+                // Unit Conversion (公尺 / 百分比 → 公分)
+                const finalLevelCm = convertInputToLevelCm(tank, parseFloat(valStr as string));
 
                 const vol = calculateTankVolume(tank, finalLevelCm);
                 const weight = vol * finalSG;
@@ -2099,9 +2066,9 @@ const DataEntryView: React.FC<{
                     return; // Wait for user confirmation
                 }
 
-                await onBatchSave(newReadings);
+                const { queued } = await onBatchSave(newReadings);
                 setBatchLevels({}); // Clear inputs
-                alert(`已成功儲存 ${newReadings.length} 筆液位紀錄`);
+                alert(queued ? `網路中斷，${newReadings.length} 筆液位紀錄已暫存於本機，連線恢復後自動同步` : `已成功儲存 ${newReadings.length} 筆液位紀錄`);
             }
         } catch (e) {
             console.error(e);
@@ -2170,7 +2137,8 @@ const DataEntryView: React.FC<{
                     specificGravity: Number(newSupply.specificGravity),
                     price: newSupply.price ? Number(newSupply.price) : undefined,
                     notes: newSupply.notes,
-                    targetPpm: finalTargetPpm
+                    targetPpm: finalTargetPpm,
+                    activeConcentration: newSupply.activeConcentration ? Number(newSupply.activeConcentration) : undefined
                 };
                 await StorageService.updateSupply(savedSupply);
                 alert(`已更新現有的合約紀錄`);
@@ -2184,7 +2152,8 @@ const DataEntryView: React.FC<{
                     price: newSupply.price ? Number(newSupply.price) : undefined,
                     startDate: new Date(newSupply.startDate as any).getTime(),
                     notes: newSupply.notes,
-                    targetPpm: finalTargetPpm
+                    targetPpm: finalTargetPpm,
+                    activeConcentration: newSupply.activeConcentration ? Number(newSupply.activeConcentration) : undefined
                 };
                 await StorageService.saveSupply(savedSupply);
                 alert(`已新增合約紀錄`);
@@ -2311,11 +2280,14 @@ const DataEntryView: React.FC<{
                 // Let's assume we just don't send it or send undefined.
                 // For safety, checks if the backend needs it.
                 // Assuming backend update isn't needed immediately if we just stop sending it or send 0.
+                blowdownPercent: bwsInput.blowdownPercent,
+                condensateReturnPercent: bwsInput.condensateReturnPercent,
+                feedwaterDo: bwsInput.feedwaterDo,
                 date: getNormalizedTimestamp(bwsInput.dateStr) || Date.now()
             });
             onUpdateTank();
             await loadHistory();
-            setBwsInput({ ...bwsInput, steamProduction: undefined }); // partial reset
+            setBwsInput({ ...bwsInput, steamProduction: undefined }); // partial reset, 水質參數通常沿用
             alert('已更新 BWS 參數');
         } catch (error) {
             console.error(error);
@@ -2987,7 +2959,7 @@ const DataEntryView: React.FC<{
 
     return (
         <div className="max-w-[1600px] mx-auto space-y-6">
-            <div className="bg-white p-2 rounded-xl shadow-sm border border-slate-200 grid grid-cols-4 gap-2">
+            <div className="bg-white p-2 rounded-xl shadow-sm border border-slate-200 grid grid-cols-3 lg:grid-cols-6 gap-2">
                 <button
                     onClick={() => setActiveType('A')}
                     className={`flex items-center justify-center py-3 rounded-lg text-sm font-bold transition-all
@@ -3020,9 +2992,28 @@ const DataEntryView: React.FC<{
                     <Icons.Boiler className="w-4 h-4 mr-2" />
                     D. 鍋爐水生產數據
                 </button>
+                <button
+                    onClick={() => setActiveType('E')}
+                    className={`flex items-center justify-center py-3 rounded-lg text-sm font-bold transition-all
+              ${activeType === 'E' ? 'bg-emerald-500 text-white shadow-md' : 'text-slate-600 hover:bg-slate-100'}`}
+                >
+                    <Icons.DeNOx className="w-4 h-4 mr-2" />
+                    E. 脫硝操作數據
+                </button>
+                <button
+                    onClick={() => setActiveType('F')}
+                    className={`flex items-center justify-center py-3 rounded-lg text-sm font-bold transition-all
+              ${activeType === 'F' ? 'bg-teal-500 text-white shadow-md' : 'text-slate-600 hover:bg-slate-100'}`}
+                >
+                    <Icons.Droplet className="w-4 h-4 mr-2" />
+                    F. 廢水處理數據
+                </button>
             </div>
 
-            <div className={activeType === 'A'
+            {activeType === 'E' && <DenoxParamsPanel tanks={tanks} />}
+            {activeType === 'F' && <WastewaterParamsPanel tanks={tanks} />}
+
+            <div className={activeType === 'E' || activeType === 'F' ? 'hidden' : activeType === 'A'
                 ? 'flex flex-col gap-6'
                 : `grid grid-cols-1 gap-8 ${activeType === 'B' ? 'lg:grid-cols-2' : 'lg:grid-cols-3'}`
             }>
@@ -3073,8 +3064,81 @@ const DataEntryView: React.FC<{
                                 </div>
                             </div>
 
+                            {/* QR 標籤進入：僅顯示該槽輸入與最近五筆讀數 */}
+                            {focusTankId && (() => {
+                                if (!focusTank) {
+                                    return tanks.length > 0 && (
+                                        <div className="flex items-center justify-between bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 text-sm">
+                                            找不到 QR 標籤對應的儲槽，可能已被刪除
+                                            <button type="button" onClick={onClearFocus} className="text-blue-600 hover:text-blue-800">顯示全部儲槽</button>
+                                        </div>
+                                    );
+                                }
+                                const isMeters = focusTank.inputUnit === 'PERCENT';
+                                const isPercent = focusTank.inputUnit === 'LIQUID_PERCENT';
+                                const unitLabel = isMeters ? '公尺' : isPercent ? '%' : '公分';
+                                const recentReadings = readings
+                                    .filter(r => r.tankId === focusTank.id)
+                                    .sort((a, b) => b.timestamp - a.timestamp)
+                                    .slice(0, 5);
+
+                                return (
+                                    <div className="border-2 border-blue-300 rounded-lg overflow-hidden">
+                                        <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border-b border-blue-200">
+                                            <div>
+                                                <span className="font-bold text-blue-900">{focusTank.name}</span>
+                                                <span className="text-xs text-slate-500 ml-2">{focusTank.system}</span>
+                                            </div>
+                                            <button type="button" onClick={onClearFocus} className="text-sm text-blue-600 hover:text-blue-800">顯示全部儲槽</button>
+                                        </div>
+                                        <div className="p-4 space-y-4">
+                                            <div className="relative">
+                                                <input
+                                                    type="number"
+                                                    inputMode="decimal"
+                                                    step={isMeters ? '0.01' : '0.1'}
+                                                    placeholder={isMeters ? 'M' : isPercent ? '0-100' : 'cm'}
+                                                    value={batchLevels[focusTank.id] || ''}
+                                                    onChange={(e) => setBatchLevels(prev => ({ ...prev, [focusTank.id]: e.target.value }))}
+                                                    className={`${inputClassName} pr-16 text-2xl py-4`}
+                                                    autoFocus
+                                                />
+                                                <div className="absolute right-4 top-5 text-sm text-slate-400 font-bold pointer-events-none">{unitLabel}</div>
+                                            </div>
+                                            <div>
+                                                <div className="text-sm font-medium text-slate-600 mb-2">最近五筆讀數</div>
+                                                {recentReadings.length === 0 ? (
+                                                    <div className="text-sm text-slate-400">尚無讀數</div>
+                                                ) : (
+                                                    <table className="min-w-full text-sm">
+                                                        <thead className="text-slate-500 text-xs">
+                                                            <tr>
+                                                                <th className="py-1 text-left">日期</th>
+                                                                <th className="py-1 text-right">液位 ({unitLabel})</th>
+                                                                <th className="py-1 text-right">重量 (kg)</th>
+                                                                <th className="py-1 text-right">抄表人</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody className="divide-y divide-slate-100">
+                                                            {recentReadings.map(r => (
+                                                                <tr key={r.id}>
+                                                                    <td className="py-1">{new Date(r.timestamp).toLocaleDateString()}</td>
+                                                                    <td className="py-1 text-right font-mono">{convertLevelCmToInput(focusTank, r.levelCm).toFixed(isMeters ? 2 : 1)}</td>
+                                                                    <td className="py-1 text-right font-mono">{Math.round(r.calculatedWeightKg).toLocaleString()}</td>
+                                                                    <td className="py-1 text-right text-slate-500">{r.operatorName || '-'}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+                                );
+                            })()}
+
                             {/* Grouped Tank Inputs */}
-                            {(() => {
+                            {!focusTank && (() => {
                                 const isCT1 = (t: Tank) => t.system === SystemType.COOLING && (t.name.toUpperCase().includes('CT-1') || t.description?.includes('一階'));
                                 const isCT2 = (t: Tank) => t.system === SystemType.COOLING && (t.name.toUpperCase().includes('CT-2') || t.description?.includes('二階'));
                                 const isCoolOther = (t: Tank) => t.system === SystemType.COOLING && !isCT1(t) && !isCT2(t);
@@ -3470,7 +3534,8 @@ const DataEntryView: React.FC<{
                                         ...editForm,
                                         startDate: new Date(editForm.dateStr).getTime(),
                                         specificGravity: Number(editForm.specificGravity),
-                                        price: editForm.price ? Number(editForm.price) : undefined
+                                        price: editForm.price ? Number(editForm.price) : undefined,
+                                        activeConcentration: editForm.activeConcentration ? Number(editForm.activeConcentration) : undefined
                                     });
                                     // Refresh logic handled by parent or effect?
                                     // Hack: Force effect to reload by touching activeType or similar?
@@ -3494,7 +3559,10 @@ const DataEntryView: React.FC<{
                                         ...editingItem,
                                         ...editForm,
                                         date: new Date(editForm.dateStr).getTime(),
-                                        steamProduction: Number(editForm.steamProduction)
+                                        steamProduction: Number(editForm.steamProduction),
+                                        blowdownPercent: editForm.blowdownPercent === '' || editForm.blowdownPercent == null ? undefined : Number(editForm.blowdownPercent),
+                                        condensateReturnPercent: editForm.condensateReturnPercent === '' || editForm.condensateReturnPercent == null ? undefined : Number(editForm.condensateReturnPercent),
+                                        feedwaterDo: editForm.feedwaterDo === '' || editForm.feedwaterDo == null ? undefined : Number(editForm.feedwaterDo)
                                     });
                                 }
 
@@ -3598,6 +3666,15 @@ const DataEntryView: React.FC<{
                                         onChange={e => setEditForm({ ...editForm, price: e.target.value })}
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">有效成分濃度 (% w/v)</label>
+                                    <input
+                                        type="number" step="0.1"
+                                        className={inputClassName}
+                                        value={editForm.activeConcentration || ''}
+                                        onChange={e => setEditForm({ ...editForm, activeConcentration: e.target.value })}
+                                    />
+                                </div>
                                 <div>
                                     <label className="block text-sm font-medium text-slate-700">備註</label>
                                     <input
@@ -3682,6 +3759,36 @@ const DataEntryView: React.FC<{
                                         onChange={e => setEditForm({ ...editForm, steamProduction: e.target.value })}
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">排放率 (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.1"
+                                        className={inputClassName}
+                                        value={editForm.blowdownPercent ?? ''}
+                                        onChange={e => setEditForm({ ...editForm, blowdownPercent: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">冷凝水回收率 (%)</label>
+                                    <input
+                                        type="number"
+                                        step="0.1"
+                                        className={inputClassName}
+                                        value={editForm.condensateReturnPercent ?? ''}
+                                        onChange={e => setEditForm({ ...editForm, condensateReturnPercent: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700">給水溶氧 (ppb)</label>
+                                    <input
+                                        type="number"
+                                        step="0.1"
+                                        className={inputClassName}
+                                        value={editForm.feedwaterDo ?? ''}
+                                        onChange={e => setEditForm({ ...editForm, feedwaterDo: e.target.value })}
+                                    />
+                                </div>
                             </>
                         )}
 
@@ -3728,7 +3835,11 @@ const DataEntryView: React.FC<{
                                     <input type="number" step="0.1" value={newSupply.targetPpm || ''} onChange={e => setNewSupply({ ...newSupply, targetPpm: parseFloat(e.target.value) })} className={inputClassName} placeholder="選填" />
                                 </div>
                             </div>
-                            <div className="grid grid-cols-1 gap-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">有效成分濃度 (% w/v)</label>
+                                    <input type="number" step="0.1" value={newSupply.activeConcentration || ''} onChange={e => setNewSupply({ ...newSupply, activeConcentration: parseFloat(e.target.value) })} className={inputClassName} placeholder="選填" />
+                                </div>
                                 <div>
                                     <label className="block text-sm font-medium text-slate-700 mb-1">生效日期</label>
                                     <input type="date" value={newSupply.startDate as any || ''} onClick={(e) => e.currentTarget.showPicker()} onChange={e => setNewSupply({ ...newSupply, startDate: e.target.value as any })} className={inputClassName} required />
@@ -4031,6 +4142,21 @@ const DataEntryView: React.FC<{
                                 <label className="block text-sm font-medium text-slate-700 mb-1">週蒸汽總產量 (Ton/Week)</label>
                                 <input type="number" value={bwsInput.steamProduction || ''} onChange={e => setBwsInput({ ...bwsInput, steamProduction: parseFloat(e.target.value) })} className={inputClassName} placeholder="Steam" />
                             </div>
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">排放率 (%)</label>
+                                    <input type="number" step="0.1" value={bwsInput.blowdownPercent ?? ''} onChange={e => setBwsInput({ ...bwsInput, blowdownPercent: e.target.value === '' ? undefined : parseFloat(e.target.value) })} className={inputClassName} placeholder="Blowdown" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">冷凝水回收率 (%)</label>
+                                    <input type="number" step="0.1" value={bwsInput.condensateReturnPercent ?? ''} onChange={e => setBwsInput({ ...bwsInput, condensateReturnPercent: e.target.value === '' ? undefined : parseFloat(e.target.value) })} className={inputClassName} placeholder="Condensate" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">給水溶氧 (ppb)</label>
+                                    <input type="number" step="0.1" value={bwsInput.feedwaterDo ?? ''} onChange={e => setBwsInput({ ...bwsInput, feedwaterDo: e.target.value === '' ? undefined : parseFloat(e.target.value) })} className={inputClassName} placeholder="DO" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-slate-400">未填時：排放率 0%、冷凝水回收率 0%、溶氧 0 ppb；除氧劑依給水量、磷酸鹽依排放量、胺類依補給水量計算</p>
                             <div className="pt-2">
                                 <Button type="submit" className="w-full justify-center bg-orange-600 hover:bg-orange-700">更新 BWS 參數</Button>
                             </div>
@@ -4087,6 +4213,9 @@ const DataEntryView: React.FC<{
                                             <tr>
                                                 <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50">週起始日</th>
                                                 <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50">蒸汽總產量 (ton)</th>
+                                                <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50">排放率 (%)</th>
+                                                <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50">冷凝水回收率 (%)</th>
+                                                <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50">給水溶氧 (ppb)</th>
                                                 <th className="px-3 py-2 text-right text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50">操作</th>
                                             </tr>
                                         </thead>
@@ -4099,6 +4228,9 @@ const DataEntryView: React.FC<{
                                                     <td className="px-3 py-2 whitespace-nowrap text-sm text-slate-900">
                                                         {item.steamProduction || '-'}
                                                     </td>
+                                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-slate-900">{item.blowdownPercent ?? '-'}</td>
+                                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-slate-900">{item.condensateReturnPercent ?? '-'}</td>
+                                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-slate-900">{item.feedwaterDo ?? '-'}</td>
                                                     <td className="px-3 py-2 whitespace-nowrap text-right text-sm">
                                                         <button
                                                             onClick={() => handleHistoryEdit(item)}
@@ -4375,6 +4507,11 @@ const DataEntryView: React.FC<{
                                     {importLogs.map((log, i) => <div key={i}>{log}</div>)}
                                 </div>
                             )}
+
+                            <div>
+                                <label className="block text-slate-500 text-sm mb-1">匯入紀錄</label>
+                                <PiImportRunsPanel refreshKey={piRunsRefreshKey} />
+                            </div>
                         </div>
                     </Card>
                 )}
@@ -4430,8 +4567,11 @@ const AnalysisView: React.FC<{
     tanks: Tank[],
     readings: Reading[],
     initialState?: { tankId: string, monthStr: string } | null,
-    onStateConsumed?: () => void
-}> = ({ tanks, readings, initialState, onStateConsumed }) => {
+    onStateConsumed?: () => void,
+    coolingDriftPercent?: number,
+    coolingHoldupVolumes?: Record<string, number>,
+    piAreaTanks?: Record<string, string[]>
+}> = ({ tanks, readings, initialState, onStateConsumed, coolingDriftPercent, coolingHoldupVolumes, piAreaTanks }) => {
     const [selectedTankId, setSelectedTankId] = useState<string>(tanks[0]?.id || '');
 
     const getLastMonthRange = () => {
@@ -4519,9 +4659,39 @@ const AnalysisView: React.FC<{
     const [metric, setMetric] = useState<'KG' | 'L' | '$'>('KG');
     const [bwsParamsHistory, setBwsParamsHistory] = useState<BWSParameterRecord[]>([]);
     const [cwsParamsHistory, setCwsParamsHistory] = useState<CWSParameterRecord[]>([]);
+    const [denoxParamsHistory, setDenoxParamsHistory] = useState<DenoxParameterRecord[]>([]);
+    const [wastewaterParamsHistory, setWastewaterParamsHistory] = useState<WastewaterParameterRecord[]>([]);
     const [suppliesHistory, setSuppliesHistory] = useState<ChemicalSupply[]>([]);
+    const [waterQualityReadings, setWaterQualityReadings] = useState<any[]>([]);
 
     const selectedTank = tanks.find(t => t.id === selectedTankId);
+    const coolingArea = selectedTank ? getCoolingTowerArea(selectedTank, piAreaTanks) : 'CT-2';
+    const boilerChemicalType = selectedTank ? getBoilerChemicalType(selectedTank) : 'STEAM';
+    const denoxReagentType = selectedTank ? getDenoxReagentType(selectedTank) : 'AMMONIA';
+
+    // 脫硝還原劑：去除 NOx 量 × NH3/NOx 莫耳比 → 氨水 / 尿素成品 kg (計算式見 usageEngine)
+    const calcDenoxDemand = (params: DenoxParameterRecord, hours: number) =>
+        calculateDenoxReagentDemandKg({ ...params, hours, reagentType: denoxReagentType });
+
+    // 人工水質 (冷卻水 / 補水) 用於以氯離子、導電度比值推算濃縮倍數
+    useEffect(() => {
+        API.fetchManualWaterQualityReadings('CW').then(setWaterQualityReadings);
+    }, []);
+
+    // 冷卻水質量平衡：濃縮倍數 → 蒸發、飛濺、排放、補水 (計算式見 usageEngine)
+    const calcCoolingBalance = (params: Partial<CWSParameterRecord>, timestamp: number, hours: number) => {
+        const ratios = findWaterQualityCycleRatios(waterQualityReadings, COOLING_TOWER_SAMPLE_POINTS[coolingArea], timestamp);
+        const cyclesInfo = resolveConcentrationCycles(params, ratios);
+        const balance = calculateCoolingTowerBalance({
+            circulationRate: params.circulationRate || 0,
+            tempDiff: params.tempDiff || 0,
+            cycles: cyclesInfo.cycles,
+            hours,
+            driftPercent: coolingDriftPercent,
+            holdupVolume: coolingHoldupVolumes?.[coolingArea]
+        });
+        return { cyclesInfo, balance };
+    };
 
     // 載入該儲槽的參數歷史記錄和藥劑合約歷史
     useEffect(() => {
@@ -4530,10 +4700,14 @@ const AnalysisView: React.FC<{
             try {
                 const bwsHistory = await StorageService.getBWSParamsHistory(selectedTankId);
                 const cwsHistory = await StorageService.getCWSParamsHistory(selectedTankId);
+                const denoxHistory = await StorageService.getDenoxParamsHistory(selectedTankId);
+                const wastewaterHistory = await StorageService.getWastewaterParamsHistory(selectedTankId);
                 const supplies = await StorageService.getSupplies();
                 const tankSupplies = supplies.filter(s => s.tankId === selectedTankId);
                 setBwsParamsHistory(bwsHistory);
                 setCwsParamsHistory(cwsHistory);
+                setDenoxParamsHistory(denoxHistory);
+                setWastewaterParamsHistory(wastewaterHistory);
                 setSuppliesHistory(tankSupplies.sort((a, b) => b.startDate - a.startDate));
             } catch (error) {
                 console.error('載入參數歷史記錄失敗:', error);
@@ -4780,12 +4954,29 @@ const AnalysisView: React.FC<{
                 const targetPpm = activeSupply?.targetPpm || 0;
                 const price = activeSupply?.price || 0;
 
-                if (!targetPpm) continue;
+                const calcMethod = selectedTank.calculationMethod || 'NONE';
+                if (!targetPpm && calcMethod !== 'DENOX_NOX_REDUCTION' && calcMethod !== 'WASTEWATER_DOSE') continue;
 
                 let dailyTheoretical = 0;
-                const calcMethod = selectedTank.calculationMethod || 'NONE';
 
-                if (calcMethod === 'CWS_BLOWDOWN') {
+                if (calcMethod === 'WASTEWATER_DOSE') {
+                    const wastewaterParam = wastewaterParamsHistory.find(p => {
+                        const pDate = normalizeTimestampToLocalDayStart(p.date);
+                        return dayTime >= pDate && dayTime < pDate + (7 * 24 * 60 * 60 * 1000);
+                    });
+                    if (wastewaterParam) {
+                        // 週處理水量平均分攤至每日
+                        dailyTheoretical = calculateWastewaterDemandKg({ ...wastewaterParam, treatedFlow: wastewaterParam.treatedFlow / 7 });
+                    }
+                } else if (calcMethod === 'DENOX_NOX_REDUCTION') {
+                    const denoxParam = denoxParamsHistory.find(p => {
+                        const pDate = normalizeTimestampToLocalDayStart(p.date);
+                        return dayTime >= pDate && dayTime < pDate + (7 * 24 * 60 * 60 * 1000);
+                    });
+                    if (denoxParam && denoxParam.flueGasFlow) {
+                        dailyTheoretical = calcDenoxDemand(denoxParam, 24).kg;
+                    }
+                } else if (calcMethod === 'CWS_BLOWDOWN') {
                     // Find parameters that COVER this day
                     const cwsParam = cwsParamsHistory.find(p => {
                         const pDate = p.date || 0;
@@ -4814,18 +5005,9 @@ const AnalysisView: React.FC<{
                     });
 
                     if (strictCwsParam) {
-                        const { circulationRate, tempDiff, cwsHardness, makeupHardness, concentrationCycles } = strictCwsParam;
-                        const R = circulationRate || 0;
-                        const dT = tempDiff || 0;
-                        let C = 8;
-                        if (cwsHardness && makeupHardness && makeupHardness > 0) {
-                            C = cwsHardness / makeupHardness;
-                        } else if (concentrationCycles && concentrationCycles > 1) {
-                            C = concentrationCycles;
-                        }
-                        const E = (R * dT * 1.8 * 24) / 1000;
-                        const B = C > 1 ? E / (C - 1) : 0;
-                        dailyTheoretical = (B * targetPpm) / 1000;
+                        const { balance } = calcCoolingBalance(strictCwsParam, dayTime, 24);
+                        const holdupPpmIncrease = calculateHoldupPpmIncrease(suppliesHistory, dayTime, dayTime + 24 * 60 * 60 * 1000 - 1);
+                        dailyTheoretical = calculateCoolingChemicalDemandKg(balance, targetPpm, holdupPpmIncrease).totalKg;
                     }
 
                 } else if (calcMethod === 'BWS_STEAM') {
@@ -4843,9 +5025,8 @@ const AnalysisView: React.FC<{
                     });
 
                     if (strictBwsParam && strictBwsParam.steamProduction) {
-                        const weeklySteam = strictBwsParam.steamProduction;
-                        const dailySteam = weeklySteam / 7;
-                        dailyTheoretical = (dailySteam * targetPpm) / 1000;
+                        const dailyParam = { ...strictBwsParam, steamProduction: strictBwsParam.steamProduction / 7 };
+                        dailyTheoretical = calculateBoilerChemicalDemandKg(boilerChemicalType, dailyParam, targetPpm).kg;
                     }
                 }
 
@@ -4885,7 +5066,7 @@ const AnalysisView: React.FC<{
             };
         }).sort((a, b) => a.date.getTime() - b.date.getTime());
 
-    }, [dailyData, selectedTank, metric, suppliesHistory, cwsParamsHistory, bwsParamsHistory, appliedDateRange, readings]);
+    }, [dailyData, selectedTank, metric, suppliesHistory, cwsParamsHistory, bwsParamsHistory, denoxParamsHistory, wastewaterParamsHistory, appliedDateRange, readings, waterQualityReadings, coolingDriftPercent, coolingHoldupVolumes, coolingArea, boilerChemicalType, denoxReagentType]);
 
     // 4. Weekly Comparison Data (Actual vs Theoretical)
     const weeklyComparisonData = useMemo(() => {
@@ -4928,14 +5109,39 @@ const AnalysisView: React.FC<{
 
                 // Only calculate if we have steamProduction for this week
                 if (weekData && weekData.steamProduction) {
-                    const steamProduction = weekData.steamProduction;
-                    theoreticalTotal = (steamProduction * targetPpm) / 1000;
+                    theoreticalTotal = calculateBoilerChemicalDemandKg(boilerChemicalType, weekData, targetPpm).kg;
 
                     if (metric === '$' && calcPrice) {
                         theoreticalTotal = theoreticalTotal * calcPrice;
                     }
                 }
                 // If no weekData with steamProduction, theoreticalTotal stays 0
+            } else if (selectedTank.calculationMethod === 'WASTEWATER_DOSE') {
+                const weekData = wastewaterParamsHistory.find(p => {
+                    const pDate = p.date || 0;
+                    return pDate >= weekStartTime && pDate < weekEndTime;
+                });
+
+                if (weekData) {
+                    theoreticalTotal = calculateWastewaterDemandKg(weekData);
+
+                    if (metric === '$' && calcPrice) {
+                        theoreticalTotal = theoreticalTotal * calcPrice;
+                    }
+                }
+            } else if (selectedTank.calculationMethod === 'DENOX_NOX_REDUCTION') {
+                const weekData = denoxParamsHistory.find(p => {
+                    const pDate = p.date || 0;
+                    return pDate >= weekStartTime && pDate < weekEndTime;
+                });
+
+                if (weekData && weekData.flueGasFlow) {
+                    theoreticalTotal = calcDenoxDemand(weekData, 24 * 7).kg;
+
+                    if (metric === '$' && calcPrice) {
+                        theoreticalTotal = theoreticalTotal * calcPrice;
+                    }
+                }
             } else if (selectedTank.calculationMethod === 'CWS_BLOWDOWN') {
                 // Find CWS data for this exact week (must have production data for that week)
                 const weekData = cwsParamsHistory.find(p => {
@@ -4948,20 +5154,9 @@ const AnalysisView: React.FC<{
 
                 // Only calculate if we have effective parameters
                 if (params && params.circulationRate && params.tempDiff) {
-                    const { circulationRate, tempDiff, cwsHardness, makeupHardness, concentrationCycles } = params;
-
-                    const days = 7;
-                    const E = (circulationRate * tempDiff * 1.8 * 24 * days) / 1000;
-
-                    let C = 8;
-                    if (cwsHardness && makeupHardness && makeupHardness > 0) {
-                        C = cwsHardness / makeupHardness;
-                    } else if (concentrationCycles && concentrationCycles > 1) {
-                        C = concentrationCycles;
-                    }
-
-                    const BW = C > 1 ? E / (C - 1) : 0;
-                    theoreticalTotal = (BW * targetPpm) / 1000;
+                    const { balance } = calcCoolingBalance(params, weekStartTime, 24 * 7);
+                    const holdupPpmIncrease = calculateHoldupPpmIncrease(suppliesHistory, weekStartTime, weekEndTime - 1);
+                    theoreticalTotal = calculateCoolingChemicalDemandKg(balance, targetPpm, holdupPpmIncrease).totalKg;
 
                     if (metric === '$' && calcPrice) {
                         theoreticalTotal = theoreticalTotal * calcPrice;
@@ -4986,7 +5181,7 @@ const AnalysisView: React.FC<{
                 priceMultiple: priceArray.length > 1 ? priceArray : undefined
             };
         }).sort((a, b) => a.date.getTime() - b.date.getTime());
-    }, [weeklyData, selectedTank, bwsParamsHistory, cwsParamsHistory, suppliesHistory, metric]);
+    }, [weeklyData, selectedTank, bwsParamsHistory, cwsParamsHistory, denoxParamsHistory, wastewaterParamsHistory, suppliesHistory, metric, waterQualityReadings, coolingDriftPercent, coolingHoldupVolumes, coolingArea, boilerChemicalType, denoxReagentType]);
 
     const hasCalculation = selectedTank && selectedTank.calculationMethod && selectedTank.calculationMethod !== 'NONE';
 
@@ -5045,7 +5240,7 @@ const AnalysisView: React.FC<{
             weekStr: string;
             params: any;
 
-            calc: { E: number, C: number, BW: number, theoryUsage: number, cFormula: string };
+            calc: { E: number, C: number, BW: number, theoryUsage: number, cFormula: string, D: number, M: number, holdupKg: number, holdupPpmIncrease: number, holdupVolume: number };
             targetPpm: number;
             price: number;
         } | null>(null);
@@ -5078,34 +5273,26 @@ const AnalysisView: React.FC<{
 
                                     const circulationRate = p.circulationRate || 0;
                                     const tempDiff = p.tempDiff || 0;
-                                    const cwsHardness = p.cwsHardness || 0;
-                                    const makeupHardness = p.makeupHardness || 0;
 
                                     // 從藥劑合約取得 targetPpm
                                     const activeSupply = getActiveSupplyForDate(week.date);
                                     const targetPpm = activeSupply?.targetPpm || 0;
 
-                                    const days = 7;
-                                    const E = (circulationRate * tempDiff * 1.8 * 24 * days) / 1000;
-
-                                    let C = 8;
-                                    let cFormula = `預設 8`;
-                                    // Same priority as chart logic
-                                    if (cwsHardness && makeupHardness && makeupHardness > 0) {
-                                        C = cwsHardness / makeupHardness;
-                                        cFormula = `${cwsHardness} (冷卻水) / ${makeupHardness} (補水) = ${C.toFixed(1)}`;
-                                    } else if (p.concentrationCycles && p.concentrationCycles > 1) {
-                                        C = p.concentrationCycles;
-                                        cFormula = `手動設定: ${C}`;
-                                    }
-
-                                    const BW = C > 1 ? E / (C - 1) : 0;
+                                    // Same mass balance as chart logic
+                                    const weekTime = week.date.getTime();
+                                    const { cyclesInfo, balance } = calcCoolingBalance(p, weekTime, 24 * 7);
+                                    const holdupPpmIncrease = calculateHoldupPpmIncrease(suppliesHistory, weekTime, weekTime + 7 * 24 * 60 * 60 * 1000 - 1);
+                                    const demand = calculateCoolingChemicalDemandKg(balance, targetPpm, holdupPpmIncrease);
+                                    const E = balance.evaporationM3;
+                                    const C = cyclesInfo.cycles;
+                                    const cFormula = cyclesInfo.formula;
+                                    const BW = balance.blowdownM3;
 
                                     // Calculate Theoretical Usage
                                     // If metric is '$', convert to Cost
                                     // activeSupply already found above (Need to ensure price is available)
                                     const price = activeSupply?.price || 0;
-                                    let theoryUsage = (BW * targetPpm) / 1000;
+                                    let theoryUsage = demand.totalKg;
                                     if (metric === '$') {
                                         theoryUsage = theoryUsage * price;
                                     }
@@ -5124,7 +5311,7 @@ const AnalysisView: React.FC<{
                                             onClick={() => setSelectedWeek({
                                                 weekStr: week.dateStr,
                                                 params: p,
-                                                calc: { E, C, BW, theoryUsage, cFormula },
+                                                calc: { E, C, BW, theoryUsage, cFormula, D: balance.driftM3, M: balance.makeupM3, holdupKg: demand.holdupKg, holdupPpmIncrease, holdupVolume: balance.holdupVolumeM3 },
                                                 targetPpm: targetPpm,
                                                 price: price
                                             })}
@@ -5132,7 +5319,7 @@ const AnalysisView: React.FC<{
                                             <td className="p-2 font-medium text-slate-700">{week.dateStr}</td>
                                             <td className="p-2 text-right font-mono text-slate-600">{circulationRate}</td>
                                             <td className="p-2 text-right font-mono text-slate-600">{tempDiff}</td>
-                                            <td className="p-2 text-right font-mono text-slate-600">{C.toFixed(1)}</td>
+                                            <td className="p-2 text-right font-mono text-slate-600" title={cFormula}>{C.toFixed(1)}</td>
                                             <td className="p-2 text-right font-mono text-slate-600">{targetPpm}</td>
                                             <td className="p-2 text-right font-bold text-red-600">{theoryUsage.toFixed(1)}</td>
                                             <td className="p-2 text-right font-bold text-blue-600">{actualUsage.toFixed(1)}</td>
@@ -5215,6 +5402,9 @@ const AnalysisView: React.FC<{
                                                     = {selectedWeek.calc.E.toFixed(1)} / ({selectedWeek.calc.C.toFixed(2)} - 1)<br />
                                                     = <span className="text-sky-600 font-bold">{selectedWeek.calc.BW.toFixed(1)} m³</span>
                                                 </div>
+                                                <p className="text-xs text-slate-500 mt-2">
+                                                    含飛濺 D = {selectedWeek.calc.D.toFixed(1)} m³；補水量 M = E + B.W = {selectedWeek.calc.M.toFixed(1)} m³
+                                                </p>
                                             </div>
 
                                             <div className="bg-yellow-50 p-4 rounded border border-yellow-200">
@@ -5228,8 +5418,9 @@ const AnalysisView: React.FC<{
                                                         </>
                                                     ) : (
                                                         <>
-                                                            = B.W x 目標濃度 ({selectedWeek.targetPpm} ppm) / 1000<br />
-                                                            = {selectedWeek.calc.BW.toFixed(1)} x {selectedWeek.targetPpm} / 1000<br />
+                                                            = B.W x 目標濃度 ({selectedWeek.targetPpm} ppm) / 1000{selectedWeek.calc.holdupKg > 0 && ' + 滯留水量 x 濃度增量 / 1000'}<br />
+                                                            = {selectedWeek.calc.BW.toFixed(1)} x {selectedWeek.targetPpm} / 1000
+                                                            {selectedWeek.calc.holdupKg > 0 && ` + ${selectedWeek.calc.holdupVolume} x ${selectedWeek.calc.holdupPpmIncrease} / 1000`}<br />
                                                             = <span className="text-red-600 font-bold text-xl">{selectedWeek.calc.theoryUsage.toFixed(1)} {metric}</span>
                                                         </>
                                                     )}
@@ -5256,13 +5447,15 @@ const AnalysisView: React.FC<{
             if (weeklyData.length === 0) return null;
 
             return (
-                <Card title="理論用量計算展示 (每週基礎)" className="mt-6 border-l-4 border-l-orange-500">
+                <Card title={`理論用量計算展示 (每週基礎)｜${BOILER_CHEMICAL_TYPE_LABELS[boilerChemicalType]}`} className="mt-6 border-l-4 border-l-orange-500">
                     <div className="overflow-x-auto">
                         <table className="min-w-full text-sm text-left border-collapse">
                             <thead>
                                 <tr className="bg-slate-200">
                                     <th className="p-2 font-semibold text-slate-800">週次</th>
                                     <th className="p-2 font-semibold text-slate-800 text-right">蒸汽總產量 (ton)</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">排放 / 回收 / 溶氧</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">{BOILER_BASIS_LABELS[boilerChemicalType]} (ton)</th>
                                     <th className="p-2 font-semibold text-slate-800 text-right">目標濃度 (ppm)</th>
                                     <th className="p-2 font-semibold text-slate-800 text-right">理論用量 ({metric})</th>
                                     <th className="p-2 font-semibold text-slate-800 text-right">實際用量 ({metric})</th>
@@ -5273,14 +5466,16 @@ const AnalysisView: React.FC<{
                             <tbody>
                                 {weeklyData.map((week, idx) => {
                                     const params = getParamsForWeek(week.date) as BWSParameterRecord | undefined;
-                                    const steamProduction = params?.steamProduction || tank.bwsParams?.steamProduction || 0;
+                                    const p = params || tank.bwsParams;
+                                    const steamProduction = p?.steamProduction || 0;
 
                                     // Get Target PPM from Contract
                                     const activeSupply = getActiveSupplyForDate(week.date);
                                     const targetPpm = activeSupply?.targetPpm || 0;
                                     const price = activeSupply?.price || 0;
 
-                                    let theoryUsage = (steamProduction * targetPpm) / 1000;
+                                    const demand = calculateBoilerChemicalDemandKg(boilerChemicalType, { ...p, steamProduction }, targetPpm);
+                                    let theoryUsage = demand.kg;
                                     if (metric === '$') {
                                         theoryUsage = theoryUsage * price;
                                     }
@@ -5298,7 +5493,13 @@ const AnalysisView: React.FC<{
                                         <tr key={idx} className={idx % 2 === 0 ? 'bg-slate-50' : 'bg-white'}>
                                             <td className="p-2 font-medium text-slate-700">{week.dateStr}</td>
                                             <td className="p-2 text-right font-mono text-orange-700">{steamProduction.toFixed(1)}</td>
-                                            <td className="p-2 text-right font-mono">{targetPpm.toFixed(1)}</td>
+                                            <td className="p-2 text-right font-mono text-slate-500">
+                                                {p?.blowdownPercent ?? '-'}% / {p?.condensateReturnPercent ?? '-'}% / {p?.feedwaterDo ?? '-'} ppb
+                                            </td>
+                                            <td className="p-2 text-right font-mono" title={`給水 ${demand.feedwaterTons.toFixed(1)}｜排放 ${demand.blowdownTons.toFixed(1)}｜補給水 ${demand.makeupTons.toFixed(1)} ton`}>
+                                                {demand.basisTons.toFixed(1)}
+                                            </td>
+                                            <td className="p-2 text-right font-mono" title={demand.effectivePpm !== targetPpm ? `含除氧需求 ${demand.effectivePpm.toFixed(2)} ppm` : undefined}>{targetPpm.toFixed(1)}</td>
                                             <td className="p-2 text-right font-bold text-red-600">{theoryUsage.toFixed(1)}</td>
                                             <td className="p-2 text-right font-bold text-blue-600">{actualUsage.toFixed(1)}</td>
                                             <td className={`p-2 text-right font-bold ${diffColor}`}>
@@ -5321,6 +5522,144 @@ const AnalysisView: React.FC<{
                     </div>
                 </Card>
             );
+        } else if (tank.calculationMethod === 'WASTEWATER_DOSE') {
+            if (weeklyData.length === 0) return null;
+
+            return (
+                <Card title="理論用量計算展示 (每週基礎)｜處理水量 × 杯瓶試驗加藥比" className="mt-6 border-l-4 border-l-teal-500">
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm text-left border-collapse">
+                            <thead>
+                                <tr className="bg-slate-200">
+                                    <th className="p-2 font-semibold text-slate-800">週次</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">處理水量 (m³)</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">加藥比 (mg/L)</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">理論用量 ({metric})</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">實際用量 ({metric})</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">差異 %</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-center">水量來源</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {weeklyData.map((week, idx) => {
+                                    const weekStartTime = week.date.getTime();
+                                    const weekEndTime = weekStartTime + (7 * 24 * 60 * 60 * 1000);
+                                    const params = wastewaterParamsHistory.find(p => (p.date || 0) >= weekStartTime && (p.date || 0) < weekEndTime);
+                                    const price = getActiveSupplyForDate(week.date)?.price || 0;
+
+                                    if (!params) {
+                                        return (
+                                            <tr key={idx} className={idx % 2 === 0 ? 'bg-slate-50' : 'bg-white'}>
+                                                <td className="p-2 font-medium text-slate-700">{week.dateStr}</td>
+                                                <td colSpan={6} className="p-2 text-center text-slate-400">無該週處理水量 / 加藥比資料</td>
+                                            </tr>
+                                        );
+                                    }
+
+                                    let theoryUsage = calculateWastewaterDemandKg(params);
+                                    if (metric === '$') {
+                                        theoryUsage = theoryUsage * price;
+                                    }
+
+                                    const actualUsage = week.usage;
+                                    const diffPercent = theoryUsage > 0 ? ((actualUsage - theoryUsage) / theoryUsage * 100) : 0;
+                                    const diffColor = Math.abs(diffPercent) > 20 ? 'text-red-600' :
+                                        Math.abs(diffPercent) > 10 ? 'text-yellow-600' : 'text-green-600';
+
+                                    return (
+                                        <tr key={idx} className={idx % 2 === 0 ? 'bg-slate-50' : 'bg-white'}>
+                                            <td className="p-2 font-medium text-slate-700">{week.dateStr}</td>
+                                            <td className="p-2 text-right font-mono">{params.treatedFlow.toLocaleString()}</td>
+                                            <td className="p-2 text-right font-mono">{params.doseRatio}</td>
+                                            <td className="p-2 text-right font-bold text-red-600">{theoryUsage.toFixed(1)}</td>
+                                            <td className="p-2 text-right font-bold text-blue-600">{actualUsage.toFixed(1)}</td>
+                                            <td className={`p-2 text-right font-bold ${diffColor}`}>
+                                                {diffPercent > 0 ? '+' : ''}{diffPercent.toFixed(1)}%
+                                            </td>
+                                            <td className="p-2 text-center">
+                                                <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">{params.flowSource === 'PI' ? 'PI' : '手動'}</span>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            );
+        } else if (tank.calculationMethod === 'DENOX_NOX_REDUCTION') {
+            if (weeklyData.length === 0) return null;
+
+            return (
+                <Card title={`理論用量計算展示 (每週基礎)｜${denoxReagentType === 'UREA' ? '尿素' : '氨水'}`} className="mt-6 border-l-4 border-l-emerald-500">
+                    <p className="text-xs text-slate-500 mb-3">
+                        去除 NOx (kmol) = 煙氣量 × (入口 − 出口 NOx) × 10⁻⁶ × 168 h / 22.414；NH3 = 去除 NOx × 莫耳比{denoxReagentType === 'UREA' ? '；尿素 = NH3 / 2' : ''}；成品 = 純品 / 濃度
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm text-left border-collapse">
+                            <thead>
+                                <tr className="bg-slate-200">
+                                    <th className="p-2 font-semibold text-slate-800">週次</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">煙氣量 (Nm³/h)</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">入口 / 出口 NOx (ppm)</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">脫硝效率</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">NH3/NOx</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">NH3 需求 (kg)</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">理論用量 ({metric})</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">實際用量 ({metric})</th>
+                                    <th className="p-2 font-semibold text-slate-800 text-right">差異 %</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {weeklyData.map((week, idx) => {
+                                    const weekStartTime = week.date.getTime();
+                                    const weekEndTime = weekStartTime + (7 * 24 * 60 * 60 * 1000);
+                                    const params = denoxParamsHistory.find(p => (p.date || 0) >= weekStartTime && (p.date || 0) < weekEndTime);
+                                    const price = getActiveSupplyForDate(week.date)?.price || 0;
+
+                                    if (!params) {
+                                        return (
+                                            <tr key={idx} className={idx % 2 === 0 ? 'bg-slate-50' : 'bg-white'}>
+                                                <td className="p-2 font-medium text-slate-700">{week.dateStr}</td>
+                                                <td colSpan={8} className="p-2 text-center text-slate-400">無該週脫硝操作數據</td>
+                                            </tr>
+                                        );
+                                    }
+
+                                    const demand = calcDenoxDemand(params, 24 * 7);
+                                    let theoryUsage = demand.kg;
+                                    if (metric === '$') {
+                                        theoryUsage = theoryUsage * price;
+                                    }
+
+                                    const actualUsage = week.usage;
+                                    const diffPercent = theoryUsage > 0 ? ((actualUsage - theoryUsage) / theoryUsage * 100) : 0;
+                                    const diffColor = Math.abs(diffPercent) > 20 ? 'text-red-600' :
+                                        Math.abs(diffPercent) > 10 ? 'text-yellow-600' : 'text-green-600';
+
+                                    return (
+                                        <tr key={idx} className={idx % 2 === 0 ? 'bg-slate-50' : 'bg-white'}>
+                                            <td className="p-2 font-medium text-slate-700">{week.dateStr}</td>
+                                            <td className="p-2 text-right font-mono">{params.flueGasFlow.toLocaleString()}</td>
+                                            <td className="p-2 text-right font-mono">{params.inletNox} / {params.outletNox}</td>
+                                            <td className="p-2 text-right font-mono">{demand.removalEfficiency.toFixed(1)}%</td>
+                                            <td className="p-2 text-right font-mono">{params.molarRatio}</td>
+                                            <td className="p-2 text-right font-mono" title={`去除 NOx (以 NO2 計) ${demand.noxRemovedKg.toFixed(1)} kg｜成品濃度 ${demand.reagentConcentration}%`}>
+                                                {demand.nh3Kg.toFixed(1)}
+                                            </td>
+                                            <td className="p-2 text-right font-bold text-red-600">{theoryUsage.toFixed(1)}</td>
+                                            <td className="p-2 text-right font-bold text-blue-600">{actualUsage.toFixed(1)}</td>
+                                            <td className={`p-2 text-right font-bold ${diffColor}`}>
+                                                {diffPercent > 0 ? '+' : ''}{diffPercent.toFixed(1)}%
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            );
         }
         return null;
     };
@@ -5657,6 +5996,19 @@ const AnalysisView: React.FC<{
 
             <TheoreticalUsageCard tank={selectedTank} weeklyData={weeklyData} />
 
+            {selectedTank?.system === SystemType.COOLING && (
+                <CoolingTowerBalancePanel
+                    tanks={tanks}
+                    startDate={appliedDateRange.start}
+                    endDate={appliedDateRange.end}
+                    waterQualityReadings={waterQualityReadings}
+                    driftPercent={coolingDriftPercent}
+                    holdupVolumes={coolingHoldupVolumes}
+                    areaTanks={piAreaTanks}
+                    highlightArea={coolingArea}
+                />
+            )}
+
             {/* Help Modal */}
             {
                 helpTopic && (
@@ -5744,7 +6096,8 @@ const AnalysisView: React.FC<{
     );
 };
 
-const ImportantNotesView: React.FC<{ thresholdWarningText?: string }> = ({ thresholdWarningText }) => {
+const ImportantNotesView: React.FC<{ thresholdWarningText?: string, userRole?: UserRole | null }> = ({ thresholdWarningText, userRole }) => {
+    const canEdit = hasRole(userRole, 'operator');
     const [notes, setNotes] = useState<ImportantNote[]>([]);
     const [loading, setLoading] = useState(false);
     const [isEditOpen, setIsEditOpen] = useState(false);
@@ -5892,6 +6245,15 @@ const ImportantNotesView: React.FC<{ thresholdWarningText?: string }> = ({ thres
         }
     }, [activeTab]);
 
+    // 其他使用者新增紀事或警報時即時更新目前分頁
+    useEffect(() => API.subscribeLiveEvents(activeTab === 'alerts' ? ['alert'] : ['note'], () => {
+        if (activeTab === 'alerts') {
+            loadAlerts();
+        } else {
+            loadNotes();
+        }
+    }), [activeTab]);
+
     const handleAddNoteFromAlert = async (alertItem: FluctuationAlert, noteContent: string) => {
         try {
             await StorageService.updateAlertNote(alertItem.id, noteContent);
@@ -5961,9 +6323,11 @@ const ImportantNotesView: React.FC<{ thresholdWarningText?: string }> = ({ thres
                                     <Icons.Download className="w-4 h-4" /> 匯出 Excel
                                 </Button>
                             </div>
-                            <Button onClick={() => { setEditingNote(null); setFormData({ dateStr: formatDateForInput(new Date()), area: '', chemicalName: '', note: '' }); setIsEditOpen(true); }} className="flex items-center gap-2">
-                                <Icons.Plus className="w-4 h-4" /> 新增紀事
-                            </Button>
+                            {canEdit && (
+                                <Button onClick={() => { setEditingNote(null); setFormData({ dateStr: formatDateForInput(new Date()), area: '', chemicalName: '', note: '' }); setIsEditOpen(true); }} className="flex items-center gap-2">
+                                    <Icons.Plus className="w-4 h-4" /> 新增紀事
+                                </Button>
+                            )}
                         </div>
 
                         <div className="-mx-6 overflow-x-auto">
@@ -6022,8 +6386,12 @@ const ImportantNotesView: React.FC<{ thresholdWarningText?: string }> = ({ thres
                                                              <option value="CW">標記冷卻水</option>
                                                              <option value="BW">標記鍋爐水</option>
                                                         </select>
-                                                        <button onClick={() => handleEdit(note)} className="text-brand-600 hover:text-brand-900 mr-3">編輯</button>
-                                                        <button onClick={() => handleDelete(note.id)} className="text-red-600 hover:text-red-900">刪除</button>
+                                                        {canEdit && (
+                                                            <>
+                                                                <button onClick={() => handleEdit(note)} className="text-brand-600 hover:text-brand-900 mr-3">編輯</button>
+                                                                <button onClick={() => handleDelete(note.id)} className="text-red-600 hover:text-red-900">刪除</button>
+                                                            </>
+                                                        )}
                                                     </td>
                                                 </tr>
                                             ))
@@ -6133,9 +6501,17 @@ const ImportantNotesView: React.FC<{ thresholdWarningText?: string }> = ({ thres
     );
 };
 
-const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: () => void, onLoading: (loading: boolean) => void }> = ({ tanks, readings, onRefresh, onLoading }) => {
+const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: () => void, onLoading: (loading: boolean) => void, userRole?: UserRole | null }> = ({ tanks, readings, onRefresh, onLoading, userRole }) => {
     const [editingTank, setEditingTank] = useState<Tank | null>(null);
     const [currentSG, setCurrentSG] = useState<{ sg: number; chemicalName: string } | null>(null);
+    const [chemicals, setChemicals] = useState<ChemicalMaster[]>([]);
+    const [showQrLabels, setShowQrLabels] = useState(false);
+
+    const loadChemicals = () => StorageService.getChemicals().then(setChemicals);
+
+    useEffect(() => {
+        loadChemicals();
+    }, []);
 
     // 當編輯儲槽變更時，載入該儲槽的當前藥劑比重
     useEffect(() => {
@@ -6281,7 +6657,7 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
     };
 
     const handleDelete = async (id: string) => {
-        if (confirm('確定要刪除此儲槽及其所有相關設定嗎? (液位紀錄將保留)')) {
+        if (confirm('確定要刪除此儲槽嗎? (將移至資源回收筒，管理者可還原)')) {
             onLoading(true);
             try {
                 await StorageService.deleteTank(id);
@@ -6373,6 +6749,49 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
         });
     };
 
+    const updateStrappingPoint = (index: number, field: keyof StrappingPoint, value: number) => {
+        const table = [...(editingTank?.dimensions?.strappingTable || [])];
+        table[index] = { ...table[index], [field]: value };
+        updateDimensions('strappingTable', table);
+    };
+
+    const addStrappingPoint = () => {
+        const table = editingTank?.dimensions?.strappingTable || [];
+        const last = table[table.length - 1];
+        updateDimensions('strappingTable', [...table, { levelCm: last ? last.levelCm + 10 : 0, liters: last ? last.liters : 0 }]);
+    };
+
+    const removeStrappingPoint = (index: number) => {
+        const table = editingTank?.dimensions?.strappingTable || [];
+        updateDimensions('strappingTable', table.filter((_, i) => i !== index));
+    };
+
+    // 匯入廠商液位-容積對照表：第一列為標題，取每列前兩個數值欄位 (液位 cm, 容積 L)
+    const handleStrappingImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!e.target.files || e.target.files.length === 0) return;
+        const file = e.target.files[0];
+        try {
+            const rows = await readExcelFile(file);
+            const table: StrappingPoint[] = rows
+                .map((row: any) => Object.values(row).map(v => Number(v)).filter(v => Number.isFinite(v)))
+                .filter((values: number[]) => values.length >= 2)
+                .map((values: number[]) => ({ levelCm: values[0], liters: values[1] }))
+                .sort((a, b) => a.levelCm - b.levelCm);
+
+            if (table.length < 2) {
+                alert('匯入失敗：至少需要兩列數值 (液位 cm, 容積 L)');
+                return;
+            }
+            updateDimensions('strappingTable', table);
+            alert(`已匯入 ${table.length} 筆對照資料，請記得儲存`);
+        } catch (err) {
+            console.error(err);
+            alert('匯入失敗，請確認檔案格式');
+        } finally {
+            e.target.value = '';
+        }
+    };
+
     const updateCWSParam = (field: keyof CWSParameterRecord, value: any) => {
         if (!editingTank) return;
         const currentParams = editingTank.cwsParams || {
@@ -6434,6 +6853,7 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                                     <option value="VERTICAL_CYLINDER">垂直圓柱 (Vertical Cylinder)</option>
                                     <option value="HORIZONTAL_CYLINDER">臥式圓柱 (Horizontal Cylinder)</option>
                                     <option value="RECTANGULAR">方形/矩形 (Rectangular)</option>
+                                    <option value="STRAPPING_TABLE">液位-容積對照表 (Strapping Table)</option>
                                 </select>
                             </div>
 
@@ -6536,6 +6956,59 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                                 </>
                             )}
 
+                            {editingTank.shapeType === 'STRAPPING_TABLE' && (
+                                <div className="md:col-span-2">
+                                    <div className="flex items-center justify-between mb-2">
+                                        <label className="block text-sm font-medium text-slate-700">
+                                            液位-容積對照表
+                                            <span className="text-xs text-slate-400 ml-1">(依廠商校正表線性內插)</span>
+                                        </label>
+                                        <div className="flex gap-2">
+                                            <label className="text-xs bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-2 py-1 rounded cursor-pointer flex items-center gap-1">
+                                                <Icons.Import className="w-3 h-3" /> 匯入 Excel
+                                                <input type="file" accept=".xlsx,.xls,.csv" onChange={handleStrappingImport} className="hidden" />
+                                            </label>
+                                            <button type="button" onClick={addStrappingPoint} className="text-xs bg-brand-600 hover:bg-brand-700 text-white px-2 py-1 rounded flex items-center gap-1">
+                                                <Icons.Plus className="w-3 h-3" /> 新增列
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <div className="max-h-64 overflow-y-auto border border-slate-200 rounded">
+                                        <table className="w-full text-sm">
+                                            <thead className="bg-slate-100 sticky top-0">
+                                                <tr>
+                                                    <th className="px-2 py-1 text-left">液位 (cm)</th>
+                                                    <th className="px-2 py-1 text-left">容積 (L)</th>
+                                                    <th className="px-2 py-1 w-10"></th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {(editingTank.dimensions?.strappingTable || []).map((point, idx) => (
+                                                    <tr key={idx} className="border-t border-slate-100">
+                                                        <td className="px-2 py-1">
+                                                            <input type="number" step="0.1" value={point.levelCm} onChange={e => updateStrappingPoint(idx, 'levelCm', Number(e.target.value))} className={inputClassName} />
+                                                        </td>
+                                                        <td className="px-2 py-1">
+                                                            <input type="number" step="0.1" value={point.liters} onChange={e => updateStrappingPoint(idx, 'liters', Number(e.target.value))} className={inputClassName} />
+                                                        </td>
+                                                        <td className="px-2 py-1 text-center">
+                                                            <button type="button" onClick={() => removeStrappingPoint(idx)} className="text-red-500 hover:text-red-700">
+                                                                <Icons.Delete className="w-4 h-4" />
+                                                            </button>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                                {(editingTank.dimensions?.strappingTable || []).length === 0 && (
+                                                    <tr>
+                                                        <td colSpan={3} className="px-2 py-4 text-center text-slate-400">尚無資料，請新增或由 Excel 匯入 (第一列為標題：液位cm、容積L)</td>
+                                                    </tr>
+                                                )}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Legacy Factor Override */}
                             <div className="md:col-span-2 border-t border-slate-200 pt-4 mt-2">
                                 <label className="block text-sm font-medium text-slate-500 mb-1">
@@ -6625,6 +7098,66 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                                     placeholder="例如: 1.88"
                                 />
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                    交貨前置天數
+                                    <span className="text-xs text-slate-400 ml-1">(空白則使用參數設定預設值)</span>
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={editingTank.leadTimeDays ?? ''}
+                                    onChange={e => updateTankField('leadTimeDays', e.target.value ? Number(e.target.value) : undefined)}
+                                    className={inputClassName}
+                                    placeholder="例如: 7"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                    藥品主檔
+                                    <span className="text-xs text-slate-400 ml-1">(SDS / GHS 危害資料)</span>
+                                </label>
+                                <select
+                                    value={editingTank.chemicalId || ''}
+                                    onChange={e => updateTankField('chemicalId', e.target.value || undefined)}
+                                    className={inputClassName}
+                                >
+                                    <option value="">-- 未連結 --</option>
+                                    {chemicals.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                    防溢堤區
+                                    <span className="text-xs text-slate-400 ml-1">(同區不相容藥品將警示)</span>
+                                </label>
+                                <input
+                                    type="text"
+                                    value={editingTank.containmentArea ?? ''}
+                                    onChange={e => updateTankField('containmentArea', e.target.value || undefined)}
+                                    className={inputClassName}
+                                    placeholder="例如: 加藥間 A 區"
+                                />
+                            </div>
+                            {editingTank.calculationMethod === 'BWS_STEAM' && (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        鍋爐藥劑類別
+                                        <span className="text-xs text-slate-400 ml-1">(決定理論用量計算基準)</span>
+                                    </label>
+                                    <select
+                                        value={editingTank.bwsChemicalType || ''}
+                                        onChange={e => updateTankField('bwsChemicalType', (e.target.value || undefined) as BoilerChemicalType | undefined)}
+                                        className={inputClassName}
+                                    >
+                                        <option value="">依名稱自動判斷 ({BOILER_BASIS_LABELS[getBoilerChemicalType({ ...editingTank, bwsChemicalType: undefined })]})</option>
+                                        {(Object.keys(BOILER_CHEMICAL_TYPE_LABELS) as BoilerChemicalType[]).map(type => (
+                                            <option key={type} value={type}>{BOILER_CHEMICAL_TYPE_LABELS[type]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
                             <div className="md:col-span-2">
                                 <label className="block text-sm font-medium text-slate-700 mb-1">描述</label>
                                 <input type="text" value={editingTank.description || ''} onChange={e => updateTankField('description', e.target.value)} className={inputClassName} />
@@ -6718,6 +7251,8 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                             <option value="NONE">不計算 (僅追蹤實際用量)</option>
                             <option value="CWS_BLOWDOWN">冷卻水 (基於排放量與濃縮倍數)</option>
                             <option value="BWS_STEAM">鍋爐水 (基於蒸汽產量)</option>
+                            <option value="DENOX_NOX_REDUCTION">脫硝還原劑 (基於 NOx 去除量)</option>
+                            <option value="WASTEWATER_DOSE">廢水處理 (基於處理水量與杯瓶試驗加藥比)</option>
                         </select>
                     </div>
 
@@ -6773,9 +7308,11 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                 <Button variant="secondary" onClick={() => setEditingTank(tank)} className="flex-1 py-1.5 px-2 text-xs justify-center">
                     <Icons.Settings className="w-3.5 h-3.5 mr-1.5" /> 編輯
                 </Button>
-                <Button variant="danger" onClick={() => handleDelete(tank.id)} className="flex-none py-1.5 px-3 text-xs">
-                    <Icons.Delete className="w-3.5 h-3.5" />
-                </Button>
+                {hasRole(userRole, 'admin') && (
+                    <Button variant="danger" onClick={() => handleDelete(tank.id)} className="flex-none py-1.5 px-3 text-xs">
+                        <Icons.Delete className="w-3.5 h-3.5" />
+                    </Button>
+                )}
             </div>
         </div>
     );
@@ -6799,9 +7336,14 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                     <Button variant="secondary" onClick={handleExport} className="flex items-center gap-2">
                         <Icons.Download className="w-4 h-4" /> 匯出 Excel
                     </Button>
+                    <Button variant="secondary" onClick={() => setShowQrLabels(true)} disabled={tanks.length === 0} className="flex items-center gap-2">
+                        <Icons.QrCode className="w-4 h-4" /> QR 標籤
+                    </Button>
                 </div>
             </div>
 
+            {showQrLabels && <TankQrLabelsModal tanks={tanks} onClose={() => setShowQrLabels(false)} />}
+
             {/* Cooling Water Section */}
             <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="bg-sky-50 px-6 py-4 border-b border-sky-100 flex items-center gap-3">
@@ -6914,6 +7456,12 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
                     </div>
                 </section>
             )}
+
+            <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden p-6">
+                <ChemicalMasterPanel tanks={tanks} onChange={() => { loadChemicals(); onRefresh(); }} />
+            </section>
+
+            {hasRole(userRole, 'admin') && <RecycleBinPanel tanks={tanks} onRestored={onRefresh} />}
         </div>
     )
 }
@@ -6922,12 +7470,20 @@ const SettingsView: React.FC<{ tanks: Tank[], readings: Reading[], onRefresh: ()
 const ParamsSettingsView: React.FC<{
     appSettings: {
         usageCalcWeeks: number;
+        defaultLeadTimeDays: number;
+        recycleBinRetentionDays: number;
         lowLevelWarningText: string;
         thresholdWarningText: string;
         possibleRefillText: string;
+        coolingDriftPercent: number;
+        coolingHoldupVolumes: Record<string, number>;
+        piWebApiUrl?: string;
+        piAreaTanks?: Record<string, string[]>;
     };
     setAppSettings: React.Dispatch<React.SetStateAction<any>>;
-}> = ({ appSettings, setAppSettings }) => {
+    tanks: Tank[];
+    userRole?: UserRole | null;
+}> = ({ appSettings, setAppSettings, tanks, userRole }) => {
     const [localSettings, setLocalSettings] = useState(appSettings);
     const [saved, setSaved] = useState(false);
 
@@ -6978,6 +7534,90 @@ const ParamsSettingsView: React.FC<{
                         <p className="text-xs text-slate-400 mt-1">用於計算每個儲槽的平均日用量（建議 4-12 週）</p>
                     </div>
 
+                    {/* 預設交貨前置天數 */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            預設交貨前置天數（叫藥期限）
+                        </label>
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="number"
+                                min="0"
+                                max="90"
+                                value={localSettings.defaultLeadTimeDays}
+                                onChange={e => setLocalSettings(prev => ({ ...prev, defaultLeadTimeDays: Math.max(0, Math.min(90, Number(e.target.value))) }))}
+                                className={`${inputClassName} w-32`}
+                            />
+                            <span className="text-slate-500">天</span>
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">叫藥期限 = 預估達安全液位日期 - 交貨天數（儲槽設定可個別覆寫）</p>
+                    </div>
+
+                    {/* 資源回收筒保留天數 */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            資源回收筒保留天數
+                        </label>
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="number"
+                                min="0"
+                                max="365"
+                                value={localSettings.recycleBinRetentionDays}
+                                onChange={e => setLocalSettings(prev => ({ ...prev, recycleBinRetentionDays: Math.max(0, Math.min(365, Number(e.target.value))) }))}
+                                className={`${inputClassName} w-32`}
+                            />
+                            <span className="text-slate-500">天</span>
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">刪除的儲槽、液位紀錄、合約與紀事超過此天數後，管理者才可永久刪除</p>
+                    </div>
+
+                    <hr className="border-slate-200" />
+
+                    {/* 冷卻水質量平衡 */}
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+                            <Icons.Calculator className="w-5 h-5 text-brand-600" />
+                            冷卻水質量平衡
+                        </h3>
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-sm text-slate-600 mb-1">飛濺損失率</label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="1"
+                                        step="0.005"
+                                        value={localSettings.coolingDriftPercent}
+                                        onChange={e => setLocalSettings(prev => ({ ...prev, coolingDriftPercent: Math.max(0, Math.min(1, Number(e.target.value))) }))}
+                                        className={`${inputClassName} w-32`}
+                                    />
+                                    <span className="text-slate-500">% 循環水量</span>
+                                </div>
+                            </div>
+                            {['CT-1', 'CT-2'].map(area => (
+                                <div key={area}>
+                                    <label className="block text-sm text-slate-600 mb-1">{area} 系統滯留水量</label>
+                                    <div className="flex items-center gap-3">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={localSettings.coolingHoldupVolumes?.[area] ?? 0}
+                                            onChange={e => setLocalSettings(prev => ({
+                                                ...prev,
+                                                coolingHoldupVolumes: { ...prev.coolingHoldupVolumes, [area]: Math.max(0, Number(e.target.value)) }
+                                            }))}
+                                            className={`${inputClassName} w-32`}
+                                        />
+                                        <span className="text-slate-500">m³</span>
+                                    </div>
+                                </div>
+                            ))}
+                            <p className="text-xs text-slate-400">理論加藥量 = 排放量 × 目標濃度 + 滯留水量 × 合約目標濃度增加量（滯留水量為 0 時不計）</p>
+                        </div>
+                    </div>
+
                     <hr className="border-slate-200" />
 
                     <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -7045,23 +7685,74 @@ const ParamsSettingsView: React.FC<{
                     </div>
                 </div>
             </Card>
+
+            <Card className="mt-6">
+                <div className="p-6">
+                    <BudgetSettingsPanel tanks={tanks} />
+                </div>
+            </Card>
+
+            <Card className="mt-6">
+                <div className="p-6">
+                    <PiTagMappingPanel
+                        tanks={tanks}
+                        piWebApiUrl={appSettings.piWebApiUrl}
+                        piAreaTanks={appSettings.piAreaTanks}
+                        onSettingsChange={patch => setAppSettings((prev: any) => ({ ...prev, ...patch }))}
+                    />
+                </div>
+            </Card>
+
+            {hasRole(userRole, 'admin') && (
+                <Card className="mt-6">
+                    <div className="p-6">
+                        <UserRolesPanel />
+                    </div>
+                </Card>
+            )}
+
+            {hasRole(userRole, 'admin') && (
+                <Card className="mt-6">
+                    <div className="p-6">
+                        <NotificationRulesPanel tanks={tanks} />
+                    </div>
+                </Card>
+            )}
         </div>
     );
 };
 
-type ViewType = 'dashboard' | 'entry' | 'analysis' | 'settings' | 'notes' | 'annual' | 'pi-test' | 'import' | 'params' | 'water-trends' | 'instrument-management';
+type ViewType = 'dashboard' | 'entry' | 'round' | 'analysis' | 'settings' | 'notes' | 'annual' | 'pi-test' | 'import' | 'params' | 'water-trends' | 'instrument-management' | 'deliveries' | 'cost' | 'contracts' | 'declaration' | 'audit';
 
-const validViews: ViewType[] = ['dashboard', 'entry', 'analysis', 'settings', 'notes', 'annual', 'pi-test', 'import', 'params', 'water-trends', 'instrument-management'];
+const validViews: ViewType[] = ['dashboard', 'entry', 'round', 'analysis', 'settings', 'notes', 'annual', 'pi-test', 'import', 'params', 'water-trends', 'instrument-management', 'deliveries', 'cost', 'contracts', 'declaration', 'audit'];
+
+// 解析 URL hash：#<view> 或儲槽 QR 標籤的 #entry?tank=<id>
+const parseLocationHash = (): { view: ViewType | null; tankId: string | null } => {
+    const [view, query = ''] = window.location.hash.slice(1).split('?');
+    return {
+        view: validViews.includes(view as ViewType) ? view as ViewType : null,
+        tankId: new URLSearchParams(query).get('tank')
+    };
+};
+
+// 需要特定角色才能進入的頁面 (與後端 requireRole 一致)，其餘頁面皆可瀏覽
+const VIEW_REQUIRED_ROLES: Partial<Record<ViewType, UserRole>> = {
+    entry: 'operator',
+    round: 'operator',
+    import: 'engineer',
+    settings: 'engineer',
+    params: 'engineer',
+    'pi-test': 'engineer',
+    audit: 'engineer'
+};
 
 const App: React.FC = () => {
     const [currentView, setCurrentView] = useState<ViewType>(() => {
         // 從 URL hash 讀取初始頁面
-        const hash = window.location.hash.slice(1);
-        if (hash && validViews.includes(hash as ViewType)) {
-            return hash as ViewType;
-        }
-        return 'dashboard';
+        return parseLocationHash().view || 'dashboard';
     });
+    // 由儲槽 QR 標籤開啟時預選的儲槽
+    const [entryTankId, setEntryTankId] = useState<string | null>(() => parseLocationHash().tankId);
     const [tanks, setTanks] = useState<Tank[]>([]);
     const [readings, setReadings] = useState<Reading[]>([]);
 
@@ -7073,13 +7764,20 @@ const App: React.FC = () => {
 
     // Persist UserName
     const [userName, setUserName] = useState(() => localStorage.getItem('appUserName') || 'OP');
+    const [userRole, setUserRole] = useState<UserRole | null>(null);
 
     // App Settings
     const [appSettings, setAppSettings] = useState({
-        usageCalcWeeks: 8,
+        usageCalcWeeks: DEFAULT_USAGE_CALC_WEEKS,
+        defaultLeadTimeDays: 7,
+        recycleBinRetentionDays: 30,
         lowLevelWarningText: '存量偏低，請叫藥',
         thresholdWarningText: '液位變化異常，請確認',
-        possibleRefillText: '可能為補藥紀錄'
+        possibleRefillText: '可能為補藥紀錄',
+        coolingDriftPercent: 0.02,
+        coolingHoldupVolumes: { 'CT-1': 0, 'CT-2': 0 } as Record<string, number>,
+        piWebApiUrl: undefined as string | undefined,
+        piAreaTanks: undefined as Record<string, string[]> | undefined
     });
 
     // Load appSettings from API on startup
@@ -7095,6 +7793,7 @@ const App: React.FC = () => {
             }
         };
         loadSettings();
+        return API.subscribeLiveEvents(['settings'], loadSettings);
     }, []);
 
     // 導航函數 - 更新頁面並推入瀏覽器歷史
@@ -7115,13 +7814,10 @@ const App: React.FC = () => {
             if (event.state && event.state.view) {
                 setCurrentView(event.state.view as ViewType);
             } else {
-                // 從 hash 讀取
-                const hash = window.location.hash.slice(1);
-                if (hash && validViews.includes(hash as ViewType)) {
-                    setCurrentView(hash as ViewType);
-                } else {
-                    setCurrentView('dashboard');
-                }
+                // 從 hash 讀取 (含頁面已開啟時再掃描 QR 標籤)
+                const { view, tankId } = parseLocationHash();
+                setCurrentView(view || 'dashboard');
+                if (tankId) setEntryTankId(tankId);
             }
         };
 
@@ -7132,24 +7828,29 @@ const App: React.FC = () => {
         return () => window.removeEventListener('popstate', handlePopState);
     }, []); // 只在掛載時執行一次
 
-    // Auto-detect user from server
+    // Auto-detect user (and role) from server; re-resolve the role whenever the identity changes
     useEffect(() => {
         const fetchUser = async () => {
             try {
-                const res = await fetch('./api/whoami');
-                if (res.ok) {
-                    const data = await res.json();
-                    if (data.username) {
-                        setUserName(data.username);
-                        localStorage.setItem('appUserName', data.username);
-                    }
+                const data = await API.fetchWhoAmI();
+                if (data.username && data.username !== userName) {
+                    setUserName(data.username);
+                    localStorage.setItem('appUserName', data.username);
                 }
+                setUserRole(data.role || null);
+                if (data.role) localStorage.setItem('appUserRole', data.role);
+                else localStorage.removeItem('appUserRole');
             } catch (e) {
                 console.warn('Failed to auto-detect user:', e);
+                // 離線開啟時沿用上次取得的角色，讓現場仍可進入液位輸入 / 巡檢；同步時後端仍會檢查權限
+                if (StorageService.isNetworkError(e)) {
+                    const cachedRole = localStorage.getItem('appUserRole');
+                    if (cachedRole === 'operator' || cachedRole === 'engineer' || cachedRole === 'admin') setUserRole(cachedRole);
+                }
             }
         };
         fetchUser();
-    }, []);
+    }, [userName]);
 
     // 監聽統一組件的身份變更事件
     useEffect(() => {
@@ -7188,7 +7889,7 @@ const App: React.FC = () => {
         navigateTo('analysis');
     };
 
-    const refreshData = async () => {
+    const refreshData = useCallback(async () => {
         try {
             const [tanksData, readingsData] = await Promise.all([
                 StorageService.getTanks(),
@@ -7199,55 +7900,80 @@ const App: React.FC = () => {
         } catch (error) {
             console.error('載入資料失敗:', error);
         }
-    };
+    }, []);
 
     useEffect(() => {
         refreshData();
     }, []);
 
     const handleSaveReading = async (reading: Reading) => {
-        await StorageService.saveReading(reading);
+        const result = await StorageService.saveReading(reading);
         await refreshData();
+        return result;
     };
 
     const handleBatchSaveReadings = async (newReadings: Reading[]) => {
-        await StorageService.saveReadingsBatch(newReadings);
+        const result = await StorageService.saveReadingsBatch(newReadings);
         await refreshData();
+        return result;
     }
 
     const renderContent = () => {
+        const requiredRole = VIEW_REQUIRED_ROLES[currentView];
+        if (requiredRole && !hasRole(userRole, requiredRole)) {
+            return (
+                <Card title="權限不足">
+                    <p className="text-slate-500">此頁面需要較高的角色權限，請聯絡管理者。</p>
+                </Card>
+            );
+        }
+
         switch (currentView) {
-            case 'dashboard': return <DashboardView tanks={tanks} readings={readings} onRefresh={refreshData} onNavigate={handleNavigateToAnalysis} onLoading={setIsLoading} usageCalcWeeks={appSettings.usageCalcWeeks} lowLevelWarningText={appSettings.lowLevelWarningText} />;
-            case 'entry': return <DataEntryView tanks={tanks} readings={readings} onSave={handleSaveReading} onBatchSave={handleBatchSaveReadings} onUpdateTank={() => refreshData()} onLoading={setIsLoading} appSettings={appSettings} />;
+            case 'dashboard': return <DashboardView tanks={tanks} readings={readings} onRefresh={refreshData} onNavigate={handleNavigateToAnalysis} onLoading={setIsLoading} usageCalcWeeks={appSettings.usageCalcWeeks} lowLevelWarningText={appSettings.lowLevelWarningText} defaultLeadTimeDays={appSettings.defaultLeadTimeDays} userRole={userRole} />;
+            case 'entry': return <DataEntryView tanks={tanks} readings={readings} onSave={handleSaveReading} onBatchSave={handleBatchSaveReadings} onUpdateTank={() => refreshData()} onLoading={setIsLoading} appSettings={appSettings} focusTankId={entryTankId} onClearFocus={() => setEntryTankId(null)} />;
+            case 'round': return <FieldRoundView tanks={tanks} readings={readings} operatorName={userName} usageCalcWeeks={appSettings.usageCalcWeeks} onComplete={refreshData} />;
             case 'analysis': return (
                 <AnalysisView
                     tanks={tanks}
                     readings={readings}
                     initialState={analysisInitialState}
                     onStateConsumed={() => setAnalysisInitialState(null)}
+                    coolingDriftPercent={appSettings.coolingDriftPercent}
+                    coolingHoldupVolumes={appSettings.coolingHoldupVolumes}
+                    piAreaTanks={appSettings.piAreaTanks}
                 />
             );
-            case 'settings': return <SettingsView tanks={tanks} readings={readings} onRefresh={refreshData} onLoading={setIsLoading} />;
-            case 'notes': return <ImportantNotesView thresholdWarningText={appSettings.thresholdWarningText} />;
-            case 'annual': return <AnnualDataView tanks={tanks} readings={readings} onNavigate={handleNavigateToAnalysis} />;
+            case 'settings': return <SettingsView tanks={tanks} readings={readings} onRefresh={refreshData} onLoading={setIsLoading} userRole={userRole} />;
+            case 'notes': return <ImportantNotesView thresholdWarningText={appSettings.thresholdWarningText} userRole={userRole} />;
+            case 'annual': return <AnnualDataView tanks={tanks} readings={readings} onNavigate={handleNavigateToAnalysis} coolingHoldupVolumes={appSettings.coolingHoldupVolumes} piAreaTanks={appSettings.piAreaTanks} />;
             case 'water-trends': return <WaterQualityTrendsView />;
-            case 'instrument-management': return <InstrumentManagementView />;
+            case 'instrument-management': return <InstrumentManagementView userRole={userRole} />;
+            case 'deliveries': return <DeliveryOrdersView tanks={tanks} userRole={userRole} />;
+            case 'cost': return <CostDashboardView tanks={tanks} readings={readings} />;
+            case 'contracts': return <ContractAnalysisView tanks={tanks} readings={readings} coolingDriftPercent={appSettings.coolingDriftPercent} />;
+            case 'declaration': return <DeclarationReportView tanks={tanks} readings={readings} />;
+            case 'audit': return <AuditLogView tanks={tanks} userRole={userRole} />;
             case 'import': return <ExcelImportView tanks={tanks} onComplete={refreshData} onLoading={setIsLoading} />;
-            case 'params': return <ParamsSettingsView appSettings={appSettings} setAppSettings={setAppSettings} />;
-            default: return <DashboardView tanks={tanks} readings={readings} onRefresh={refreshData} usageCalcWeeks={appSettings.usageCalcWeeks} lowLevelWarningText={appSettings.lowLevelWarningText} />;
+            case 'params': return <ParamsSettingsView appSettings={appSettings} setAppSettings={setAppSettings} tanks={tanks} userRole={userRole} />;
+            default: return <DashboardView tanks={tanks} readings={readings} onRefresh={refreshData} usageCalcWeeks={appSettings.usageCalcWeeks} lowLevelWarningText={appSettings.lowLevelWarningText} defaultLeadTimeDays={appSettings.defaultLeadTimeDays} userRole={userRole} />;
         }
     };
 
-    const NavItem = ({ view, icon: Icon, label }: { view: ViewType, icon: React.ElementType, label: string }) => (
-        <button
-            onClick={() => navigateTo(view)}
-            className={`w-full flex items-center px-4 py-2.5 text-base font-medium transition-colors
-          ${currentView === view ? 'bg-brand-50 text-brand-700 border-r-4 border-brand-500' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
-        >
-            <Icon className={`w-6 h-6 mr-4 ${currentView === view ? 'text-brand-500' : 'text-slate-400'}`} />
-            {label}
-        </button>
-    );
+    const NavItem = ({ view, icon: Icon, label }: { view: ViewType, icon: React.ElementType, label: string }) => {
+        const requiredRole = VIEW_REQUIRED_ROLES[view];
+        if (requiredRole && !hasRole(userRole, requiredRole)) return null;
+
+        return (
+            <button
+                onClick={() => navigateTo(view)}
+                className={`w-full flex items-center px-4 py-2.5 text-base font-medium transition-colors
+              ${currentView === view ? 'bg-brand-50 text-brand-700 border-r-4 border-brand-500' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+            >
+                <Icon className={`w-6 h-6 mr-4 ${currentView === view ? 'text-brand-500' : 'text-slate-400'}`} />
+                {label}
+            </button>
+        );
+    };
 
     return (
         <div className="flex h-screen bg-slate-50 overflow-hidden relative">
@@ -7265,11 +7991,17 @@ const App: React.FC = () => {
                     <NavItem view="annual" icon={Icons.Calendar} label="年度數據" />
                     <NavItem view="water-trends" icon={Icons.Droplet} label="水質趨勢" />
                     <NavItem view="instrument-management" icon={Icons.Instrument} label="儀器管理" />
+                    <NavItem view="deliveries" icon={Icons.Delivery} label="叫藥單" />
+                    <NavItem view="cost" icon={Icons.Cost} label="成本預算" />
+                    <NavItem view="contracts" icon={Icons.Calculator} label="合約分析" />
+                    <NavItem view="declaration" icon={Icons.FileText} label="毒化物申報" />
                     <NavItem view="notes" icon={Icons.Notes} label="重要紀事" />
                     <NavItem view="entry" icon={Icons.Entry} label="數據輸入" />
+                    <NavItem view="round" icon={Icons.ClipboardPen} label="現場巡檢" />
                     <NavItem view="import" icon={Icons.FileText} label="辨識匯入" />
                     <NavItem view="settings" icon={Icons.Cylinder} label="儲槽設定" />
                     <NavItem view="params" icon={Icons.Settings} label="參數設定" />
+                    <NavItem view="audit" icon={Icons.History} label="異動紀錄" />
                 </nav>
 
                 {/* User Info & Date at Bottom */}
@@ -7281,6 +8013,7 @@ const App: React.FC = () => {
 
             {/* Main Content */}
             <main className="flex-1 flex flex-col min-w-0 overflow-hidden">
+                <OfflineSyncBanner tanks={tanks} onSynced={refreshData} />
                 <div className="flex-1 overflow-auto p-8">
                     {renderContent()}
                 </div>
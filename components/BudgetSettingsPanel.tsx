@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { Tank, SystemType, ChemicalBudget, BudgetScope } from '../types';
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+    TANK: '儲槽',
+    CHEMICAL: '藥品',
+    SYSTEM: '系統'
+};
+
+const inputClassName = "border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+type BudgetForm = { id?: string; scope: BudgetScope; scopeKey: string; amount: string; note: string };
+
+const emptyForm = (scope: BudgetScope = 'SYSTEM'): BudgetForm => ({ scope, scopeKey: '', amount: '', note: '' });
+
+interface BudgetSettingsPanelProps {
+    tanks: Tank[];
+}
+
+// 年度藥劑預算：可依儲槽、藥品或系統設定，成本儀表板依此比對實際支出與預估超支
+export const BudgetSettingsPanel: React.FC<BudgetSettingsPanelProps> = ({ tanks }) => {
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [budgets, setBudgets] = useState<ChemicalBudget[]>([]);
+    const [chemicalNames, setChemicalNames] = useState<string[]>([]);
+    const [form, setForm] = useState<BudgetForm>(emptyForm);
+    const [saving, setSaving] = useState(false);
+
+    const loadBudgets = async () => {
+        setBudgets(await StorageService.getBudgets(year));
+    };
+
+    useEffect(() => {
+        loadBudgets();
+        setForm(prev => emptyForm(prev.scope));
+    }, [year]);
+
+    useEffect(() => {
+        StorageService.getSupplies().then(supplies => {
+            const names = new Set(supplies.map(s => s.chemicalName?.trim()).filter(Boolean));
+            setChemicalNames(Array.from(names).sort());
+        });
+    }, []);
+
+    const keyOptions = useMemo(() => {
+        if (form.scope === 'TANK') return tanks.map(t => ({ value: t.id, label: t.name }));
+        if (form.scope === 'CHEMICAL') return chemicalNames.map(name => ({ value: name, label: name }));
+        return Object.values(SystemType).map(system => ({ value: system, label: system }));
+    }, [form.scope, tanks, chemicalNames]);
+
+    const getKeyLabel = (budget: ChemicalBudget) => {
+        if (budget.scope === 'TANK') return tanks.find(t => t.id === budget.scopeKey)?.name || budget.scopeKey;
+        return budget.scopeKey;
+    };
+
+    const handleSave = async () => {
+        if (!form.scopeKey || form.amount === '' || Number(form.amount) < 0) {
+            alert('請選擇預算對象並輸入預算金額');
+            return;
+        }
+        setSaving(true);
+        try {
+            await StorageService.saveBudget({
+                id: form.id,
+                year,
+                scope: form.scope,
+                scopeKey: form.scopeKey,
+                amount: Number(form.amount),
+                note: form.note || null
+            });
+            setForm(emptyForm(form.scope));
+            await loadBudgets();
+        } catch (e: any) {
+            alert(e.message || '儲存預算失敗');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleEdit = (budget: ChemicalBudget) => {
+        setForm({ id: budget.id, scope: budget.scope, scopeKey: budget.scopeKey, amount: String(budget.amount), note: budget.note || '' });
+    };
+
+    const handleDelete = async (budget: ChemicalBudget) => {
+        if (!window.confirm(`確定要刪除「${getKeyLabel(budget)}」的 ${year} 年度預算嗎？`)) return;
+        try {
+            await StorageService.deleteBudget(budget.id);
+            await loadBudgets();
+        } catch (e: any) {
+            alert(e.message || '刪除預算失敗');
+        }
+    };
+
+    const totalByScope = (scope: BudgetScope) => budgets.filter(b => b.scope === scope).reduce((sum, b) => sum + b.amount, 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Icons.Cost className="w-5 h-5 text-slate-500" />
+                    <h3 className="text-lg font-bold text-slate-800">年度藥劑預算</h3>
+                </div>
+                <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClassName}>
+                    {[-1, 0, 1].map(offset => {
+                        const y = new Date().getFullYear() + offset;
+                        return <option key={y} value={y}>{y} 年</option>;
+                    })}
+                </select>
+            </div>
+            <p className="text-xs text-slate-500">
+                依系統或藥品彙總時，優先採用該系統 / 藥品的預算；未設定時以所屬儲槽預算加總。
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">預算類別</label>
+                    <select
+                        value={form.scope}
+                        onChange={e => setForm(prev => ({ ...prev, scope: e.target.value as BudgetScope, scopeKey: '' }))}
+                        className={`${inputClassName} w-full`}
+                        disabled={!!form.id}
+                    >
+                        {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map(scope => (
+                            <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">對象</label>
+                    <select
+                        value={form.scopeKey}
+                        onChange={e => setForm(prev => ({ ...prev, scopeKey: e.target.value }))}
+                        className={`${inputClassName} w-full`}
+                        disabled={!!form.id}
+                    >
+                        <option value="">-- 請選擇 --</option>
+                        {keyOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">年度預算 (元)</label>
+                    <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={form.amount}
+                        onChange={e => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                        className={`${inputClassName} w-full`}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">備註</label>
+                    <input
+                        type="text"
+                        value={form.note}
+                        onChange={e => setForm(prev => ({ ...prev, note: e.target.value }))}
+                        className={`${inputClassName} w-full`}
+                    />
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="flex-1 inline-flex items-center justify-center px-4 py-2 rounded-lg text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+                    >
+                        <Icons.Save className="w-4 h-4 mr-1" />
+                        {form.id ? '更新' : '儲存'}
+                    </button>
+                    {form.id && (
+                        <button onClick={() => setForm(emptyForm(form.scope))} className="px-3 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+                            取消
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                    <thead className="bg-slate-50 text-xs text-slate-500">
+                        <tr>
+                            <th className="px-3 py-2 text-left">類別</th>
+                            <th className="px-3 py-2 text-left">對象</th>
+                            <th className="px-3 py-2 text-right">年度預算 (元)</th>
+                            <th className="px-3 py-2 text-left">備註</th>
+                            <th className="px-3 py-2 text-left">最後修改</th>
+                            <th className="px-3 py-2 text-right">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {budgets.length === 0 && (
+                            <tr><td colSpan={6} className="px-3 py-6 text-center text-slate-400">{year} 年尚未設定預算</td></tr>
+                        )}
+                        {budgets.map(budget => (
+                            <tr key={budget.id} className={`hover:bg-slate-50 ${budget.id === form.id ? 'bg-brand-50' : ''}`}>
+                                <td className="px-3 py-2">
+                                    <span className="text-xs px-2 py-0.5 rounded bg-slate-100 text-slate-600">{SCOPE_LABELS[budget.scope]}</span>
+                                </td>
+                                <td className="px-3 py-2 text-slate-900">{getKeyLabel(budget)}</td>
+                                <td className="px-3 py-2 text-right font-mono">{budget.amount.toLocaleString()}</td>
+                                <td className="px-3 py-2 text-slate-500">{budget.note || '-'}</td>
+                                <td className="px-3 py-2 text-xs text-slate-500">
+                                    {budget.updatedBy || '-'}{budget.updatedAt ? ` · ${new Date(budget.updatedAt).toLocaleDateString()}` : ''}
+                                </td>
+                                <td className="px-3 py-2 text-right whitespace-nowrap">
+                                    <button onClick={() => handleEdit(budget)} className="text-blue-600 hover:text-blue-900 mr-3">編輯</button>
+                                    <button onClick={() => handleDelete(budget)} className="text-red-600 hover:text-red-900">刪除</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    {budgets.length > 0 && (
+                        <tfoot className="bg-slate-50 text-xs text-slate-600">
+                            <tr>
+                                <td colSpan={6} className="px-3 py-2">
+                                    小計：{(Object.keys(SCOPE_LABELS) as BudgetScope[])
+                                        .map(scope => `${SCOPE_LABELS[scope]} ${totalByScope(scope).toLocaleString()} 元`)
+                                        .join('、')}
+                                </td>
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default BudgetSettingsPanel;
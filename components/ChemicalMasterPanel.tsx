@@ -0,0 +1,306 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { getChemicalSdsUrl } from '../services/apiService';
+import { Tank, ChemicalMaster, GhsHazardClass, IncompatibilityGroup } from '../types';
+
+export const GHS_HAZARD_LABELS: Record<GhsHazardClass, string> = {
+    EXPLOSIVE: '爆炸物',
+    FLAMMABLE: '易燃',
+    OXIDIZER: '氧化性',
+    COMPRESSED_GAS: '加壓氣體',
+    CORROSIVE: '腐蝕性',
+    ACUTE_TOXICITY: '急毒性',
+    IRRITANT: '刺激性 / 有害',
+    HEALTH_HAZARD: '健康危害',
+    ENVIRONMENT: '水環境危害'
+};
+
+export const INCOMPATIBILITY_GROUP_LABELS: Record<IncompatibilityGroup, string> = {
+    ACID: '酸',
+    BASE: '鹼',
+    OXIDIZER: '氧化劑',
+    REDUCER: '還原劑',
+    HYPOCHLORITE: '次氯酸鹽',
+    AMMONIA: '氨 / 胺類',
+    FLAMMABLE: '易燃有機物'
+};
+
+const SDS_MAX_AGE_YEARS = 3;
+
+const inputClassName = "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+type ChemicalForm = {
+    id?: string;
+    name: string;
+    casNumbers: string;
+    ghsHazards: GhsHazardClass[];
+    ppe: string;
+    incompatibilityGroups: IncompatibilityGroup[];
+    sdsRevisionDate: string;
+    isRegulated: boolean;
+    regulatoryNo: string;
+    note: string;
+};
+
+const emptyForm = (): ChemicalForm => ({ name: '', casNumbers: '', ghsHazards: [], ppe: '', incompatibilityGroups: [], sdsRevisionDate: '', isRegulated: false, regulatoryNo: '', note: '' });
+
+const toggle = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const isSdsOutdated = (chemical: ChemicalMaster) => {
+    if (!chemical.sdsRevisionDate) return true;
+    const cutoff = new Date();
+    cutoff.setFullYear(cutoff.getFullYear() - SDS_MAX_AGE_YEARS);
+    return chemical.sdsRevisionDate < cutoff.getTime();
+};
+
+interface ChemicalMasterPanelProps {
+    tanks: Tank[];
+    onChange?: () => void;
+}
+
+// 藥品主檔：CAS No.、GHS 危害分類、SDS 檔案與改版日、PPE 與不相容群組；儲槽於儲槽設定中連結藥品
+export const ChemicalMasterPanel: React.FC<ChemicalMasterPanelProps> = ({ tanks, onChange }) => {
+    const [chemicals, setChemicals] = useState<ChemicalMaster[]>([]);
+    const [form, setForm] = useState<ChemicalForm>(emptyForm);
+    const [sdsFile, setSdsFile] = useState<File | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const loadChemicals = async () => {
+        setChemicals(await StorageService.getChemicals());
+    };
+
+    useEffect(() => {
+        loadChemicals();
+    }, []);
+
+    const handleSave = async () => {
+        if (!form.name.trim()) {
+            alert('請輸入藥品名稱');
+            return;
+        }
+        setSaving(true);
+        try {
+            const saved = await StorageService.saveChemical({
+                id: form.id,
+                name: form.name.trim(),
+                casNumbers: form.casNumbers.split(/[,，\s]+/).filter(Boolean),
+                ghsHazards: form.ghsHazards,
+                ppe: form.ppe || null,
+                incompatibilityGroups: form.incompatibilityGroups,
+                sdsRevisionDate: form.sdsRevisionDate ? new Date(`${form.sdsRevisionDate}T00:00:00`).getTime() : null,
+                isRegulated: form.isRegulated,
+                regulatoryNo: form.isRegulated ? form.regulatoryNo || null : null,
+                note: form.note || null
+            });
+            if (sdsFile) {
+                await StorageService.uploadChemicalSds(saved.id, sdsFile);
+            }
+            setForm(emptyForm());
+            setSdsFile(null);
+            await loadChemicals();
+            onChange?.();
+        } catch (e: any) {
+            alert(e.message || '儲存藥品失敗');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleEdit = (chemical: ChemicalMaster) => {
+        setSdsFile(null);
+        setForm({
+            id: chemical.id,
+            name: chemical.name,
+            casNumbers: chemical.casNumbers.join(', '),
+            ghsHazards: chemical.ghsHazards,
+            ppe: chemical.ppe || '',
+            incompatibilityGroups: chemical.incompatibilityGroups,
+            sdsRevisionDate: chemical.sdsRevisionDate ? new Date(chemical.sdsRevisionDate).toLocaleDateString('sv-SE') : '',
+            isRegulated: chemical.isRegulated,
+            regulatoryNo: chemical.regulatoryNo || '',
+            note: chemical.note || ''
+        });
+    };
+
+    const handleDelete = async (chemical: ChemicalMaster) => {
+        const linked = tanks.filter(t => t.chemicalId === chemical.id);
+        const hint = linked.length > 0 ? `\n\n將解除 ${linked.map(t => t.name).join('、')} 的藥品連結。` : '';
+        if (!window.confirm(`確定要刪除藥品「${chemical.name}」嗎？${hint}`)) return;
+        try {
+            await StorageService.deleteChemical(chemical.id);
+            await loadChemicals();
+            onChange?.();
+        } catch (e: any) {
+            alert(e.message || '刪除藥品失敗');
+        }
+    };
+
+    const chip = (active: boolean) =>
+        `text-xs px-2 py-1 rounded border transition-colors ${active ? 'bg-orange-100 border-orange-300 text-orange-800' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <Icons.Alert className="w-5 h-5 text-slate-500" />
+                <h3 className="text-lg font-bold text-slate-800">藥品主檔 (SDS / GHS 危害登錄)</h3>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">藥品名稱</label>
+                    <input type="text" value={form.name} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">CAS No. (多個以逗號分隔)</label>
+                    <input type="text" value={form.casNumbers} onChange={e => setForm(prev => ({ ...prev, casNumbers: e.target.value }))} className={inputClassName} placeholder="例如: 7664-93-9" />
+                </div>
+                <div className="md:col-span-2">
+                    <label className="block text-xs text-slate-500 mb-1">GHS 危害分類</label>
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(GHS_HAZARD_LABELS) as GhsHazardClass[]).map(hazard => (
+                            <button
+                                key={hazard}
+                                type="button"
+                                onClick={() => setForm(prev => ({ ...prev, ghsHazards: toggle(prev.ghsHazards, hazard) }))}
+                                className={chip(form.ghsHazards.includes(hazard))}
+                            >
+                                {GHS_HAZARD_LABELS[hazard]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="md:col-span-2">
+                    <label className="block text-xs text-slate-500 mb-1">不相容群組 (同一防溢堤區存放不相容藥品時於總覽看板警示)</label>
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(INCOMPATIBILITY_GROUP_LABELS) as IncompatibilityGroup[]).map(group => (
+                            <button
+                                key={group}
+                                type="button"
+                                onClick={() => setForm(prev => ({ ...prev, incompatibilityGroups: toggle(prev.incompatibilityGroups, group) }))}
+                                className={chip(form.incompatibilityGroups.includes(group))}
+                            >
+                                {INCOMPATIBILITY_GROUP_LABELS[group]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">個人防護具 (PPE)</label>
+                    <input type="text" value={form.ppe} onChange={e => setForm(prev => ({ ...prev, ppe: e.target.value }))} className={inputClassName} placeholder="例如: 護目鏡、耐酸手套、防酸圍裙" />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">備註</label>
+                    <input type="text" value={form.note} onChange={e => setForm(prev => ({ ...prev, note: e.target.value }))} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="flex items-center gap-2 text-xs text-slate-500 mb-1">
+                        <input
+                            type="checkbox"
+                            checked={form.isRegulated}
+                            onChange={e => setForm(prev => ({ ...prev, isRegulated: e.target.checked }))}
+                        />
+                        毒性及關注化學物質 (需申報運作紀錄)
+                    </label>
+                    <input
+                        type="text"
+                        value={form.regulatoryNo}
+                        onChange={e => setForm(prev => ({ ...prev, regulatoryNo: e.target.value }))}
+                        className={inputClassName}
+                        placeholder="列管編號"
+                        disabled={!form.isRegulated}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">SDS 改版日期</label>
+                    <input type="date" value={form.sdsRevisionDate} onChange={e => setForm(prev => ({ ...prev, sdsRevisionDate: e.target.value }))} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">SDS 檔案 (PDF{form.id ? '，未選擇則保留原檔' : ''})</label>
+                    <input type="file" accept="application/pdf,.pdf" onChange={e => setSdsFile(e.target.files?.[0] || null)} className="w-full text-sm" />
+                </div>
+                <div className="md:col-span-2 flex justify-end gap-2">
+                    {form.id && (
+                        <button onClick={() => { setForm(emptyForm()); setSdsFile(null); }} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+                            取消編輯
+                        </button>
+                    )}
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+                    >
+                        <Icons.Save className="w-4 h-4 mr-1" />
+                        {form.id ? '更新藥品' : '新增藥品'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                    <thead className="bg-slate-50 text-xs text-slate-500">
+                        <tr>
+                            <th className="px-3 py-2 text-left">藥品</th>
+                            <th className="px-3 py-2 text-left">CAS No.</th>
+                            <th className="px-3 py-2 text-left">GHS 危害</th>
+                            <th className="px-3 py-2 text-left">不相容群組</th>
+                            <th className="px-3 py-2 text-left">PPE</th>
+                            <th className="px-3 py-2 text-left">SDS</th>
+                            <th className="px-3 py-2 text-left">連結儲槽</th>
+                            <th className="px-3 py-2 text-right">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {chemicals.length === 0 && (
+                            <tr><td colSpan={8} className="px-3 py-6 text-center text-slate-400">尚未建立藥品主檔</td></tr>
+                        )}
+                        {chemicals.map(chemical => {
+                            const outdated = isSdsOutdated(chemical);
+                            const linkedTanks = tanks.filter(t => t.chemicalId === chemical.id);
+                            return (
+                                <tr key={chemical.id} className={`hover:bg-slate-50 align-top ${chemical.id === form.id ? 'bg-brand-50' : ''}`}>
+                                    <td className="px-3 py-2 font-medium text-slate-800 whitespace-nowrap">
+                                        {chemical.name}
+                                        {chemical.isRegulated && (
+                                            <div className="text-xs font-normal text-purple-700">列管 {chemical.regulatoryNo || ''}</div>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 font-mono text-xs text-slate-600">{chemical.casNumbers.join(', ') || '-'}</td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex flex-wrap gap-1">
+                                            {chemical.ghsHazards.map(h => (
+                                                <span key={h} className="text-xs px-1.5 py-0.5 rounded bg-red-50 text-red-700">{GHS_HAZARD_LABELS[h] || h}</span>
+                                            ))}
+                                        </div>
+                                    </td>
+                                    <td className="px-3 py-2 text-xs text-slate-600">
+                                        {chemical.incompatibilityGroups.map(g => INCOMPATIBILITY_GROUP_LABELS[g] || g).join('、') || '-'}
+                                    </td>
+                                    <td className="px-3 py-2 text-xs text-slate-600">{chemical.ppe || '-'}</td>
+                                    <td className="px-3 py-2 text-xs whitespace-nowrap">
+                                        {chemical.sdsFileName ? (
+                                            <a href={getChemicalSdsUrl(chemical.id)} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                                                {chemical.sdsFileName}
+                                            </a>
+                                        ) : <span className="text-amber-600">未上傳</span>}
+                                        <div className={outdated ? 'text-red-600 font-medium' : 'text-slate-400'}>
+                                            改版 {chemical.sdsRevisionDate ? new Date(chemical.sdsRevisionDate).toLocaleDateString() : '未填'}
+                                            {outdated && ` (逾 ${SDS_MAX_AGE_YEARS} 年)`}
+                                        </div>
+                                    </td>
+                                    <td className="px-3 py-2 text-xs text-slate-600">{linkedTanks.map(t => t.name).join('、') || '-'}</td>
+                                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                                        <button onClick={() => handleEdit(chemical)} className="text-blue-600 hover:text-blue-900 mr-3">編輯</button>
+                                        <button onClick={() => handleDelete(chemical)} className="text-red-600 hover:text-red-900">刪除</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ChemicalMasterPanel;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { Tank, SystemType, ChemicalSupply, CWSParameterRecord } from '../types';
+import {
+    COOLING_TOWER_SAMPLE_POINTS,
+    getCoolingTowerArea,
+    findWaterQualityCycleRatios,
+    resolveConcentrationCycles,
+    calculateCoolingTowerBalance,
+    calculateHoldupPpmIncrease,
+    calculateCoolingChemicalDemandKg
+} from '../utils/calculationUtils';
+import type { ConcentrationCyclesSource } from '../utils/calculationUtils';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CYCLE_SOURCE_LABELS: Record<ConcentrationCyclesSource, string> = {
+    HARDNESS: '硬度',
+    CHLORIDE: '氯離子',
+    CONDUCTIVITY: '導電度',
+    MANUAL: '手動',
+    DEFAULT: '預設'
+};
+
+// 區間內各週的週一 00:00 (本地時間)
+const getWeekStarts = (startDate: string, endDate: string) => {
+    const start = new Date(`${startDate}T00:00:00`);
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    const end = new Date(`${endDate}T23:59:59`).getTime();
+    const weeks: number[] = [];
+    for (let ts = start.getTime(); ts <= end; ts += WEEK_MS) weeks.push(ts);
+    return weeks;
+};
+
+interface CoolingTowerBalancePanelProps {
+    tanks: Tank[];
+    startDate: string;
+    endDate: string;
+    waterQualityReadings: any[];
+    driftPercent?: number;
+    holdupVolumes?: Record<string, number>;
+    areaTanks?: Record<string, string[]>;
+    highlightArea?: string;
+}
+
+// 冷卻水質量平衡 (CT-1 / CT-2)：每週蒸發、飛濺、排放、補水，以及區域內各藥劑的理論需求量
+export const CoolingTowerBalancePanel: React.FC<CoolingTowerBalancePanelProps> = ({
+    tanks, startDate, endDate, waterQualityReadings, driftPercent, holdupVolumes, areaTanks, highlightArea
+}) => {
+    const [cwsHistory, setCwsHistory] = useState<CWSParameterRecord[]>([]);
+    const [supplies, setSupplies] = useState<ChemicalSupply[]>([]);
+
+    useEffect(() => {
+        StorageService.getCWSParamsHistory().then(setCwsHistory);
+        StorageService.getSupplies().then(setSupplies);
+    }, []);
+
+    const areas = useMemo(() => {
+        const weekStarts = getWeekStarts(startDate, endDate);
+        const coolingTanks = tanks.filter(t => t.system === SystemType.COOLING);
+
+        return Object.keys(COOLING_TOWER_SAMPLE_POINTS).map(area => {
+            const areaTankList = coolingTanks.filter(t => getCoolingTowerArea(t, areaTanks) === area);
+            const areaTankIds = areaTankList.map(t => t.id);
+
+            const weeks = weekStarts.map(weekStart => {
+                const weekEnd = weekStart + WEEK_MS;
+                const params = cwsHistory.find(p =>
+                    areaTankIds.includes(p.tankId) && (p.date || 0) >= weekStart && (p.date || 0) < weekEnd && p.circulationRate && p.tempDiff
+                );
+                if (!params) return { weekStart, params: null, cyclesInfo: null, balance: null };
+
+                const ratios = findWaterQualityCycleRatios(waterQualityReadings, COOLING_TOWER_SAMPLE_POINTS[area], weekStart);
+                const cyclesInfo = resolveConcentrationCycles(params, ratios);
+                const balance = calculateCoolingTowerBalance({
+                    circulationRate: params.circulationRate,
+                    tempDiff: params.tempDiff,
+                    cycles: cyclesInfo.cycles,
+                    hours: 24 * 7,
+                    driftPercent,
+                    holdupVolume: holdupVolumes?.[area]
+                });
+                return { weekStart, params, cyclesInfo, balance };
+            });
+
+            const demands = areaTankList.map(tank => {
+                const tankSupplies = supplies.filter(s => s.tankId === tank.id);
+                let blowdownKg = 0;
+                let holdupKg = 0;
+                let targetPpm = 0;
+                for (const week of weeks) {
+                    if (!week.balance) continue;
+                    const activeSupply = tankSupplies
+                        .filter(s => s.startDate <= week.weekStart)
+                        .sort((a, b) => b.startDate - a.startDate)[0];
+                    if (!activeSupply?.targetPpm) continue;
+                    targetPpm = activeSupply.targetPpm;
+                    const holdupPpmIncrease = calculateHoldupPpmIncrease(tankSupplies, week.weekStart, week.weekStart + WEEK_MS - 1);
+                    const demand = calculateCoolingChemicalDemandKg(week.balance, activeSupply.targetPpm, holdupPpmIncrease);
+                    blowdownKg += demand.blowdownKg;
+                    holdupKg += demand.holdupKg;
+                }
+                return { tank, targetPpm, blowdownKg, holdupKg };
+            }).filter(d => d.targetPpm > 0);
+
+            return { area, weeks, demands };
+        });
+    }, [tanks, startDate, endDate, waterQualityReadings, driftPercent, holdupVolumes, areaTanks, cwsHistory, supplies]);
+
+    const fmt = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+    return (
+        <section className="mt-6 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center gap-3">
+                <Icons.Calculator className="w-5 h-5 text-sky-600" />
+                <h2 className="text-lg font-bold text-slate-700">冷卻水質量平衡</h2>
+                <span className="text-xs text-slate-400">E = R × ΔT × 1.8/1000 × 時數；B = E/(N−1)；M = E + B；飛濺率 {driftPercent ?? 0.02}%</span>
+            </div>
+
+            <div className="p-6 space-y-8">
+                {areas.map(({ area, weeks, demands }) => (
+                    <div key={area} className={area === highlightArea ? '' : 'opacity-80'}>
+                        <h3 className="font-bold text-slate-800 mb-2">
+                            {area}
+                            <span className="ml-2 text-xs font-normal text-slate-400">
+                                水質採樣點 {COOLING_TOWER_SAMPLE_POINTS[area]}｜滯留水量 {holdupVolumes?.[area] || 0} m³
+                            </span>
+                        </h3>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm text-right">
+                                <thead>
+                                    <tr className="bg-slate-100 text-slate-700">
+                                        <th className="p-2 text-left">週次</th>
+                                        <th className="p-2">R (m³/h)</th>
+                                        <th className="p-2">ΔT (°C)</th>
+                                        <th className="p-2">濃縮倍數 N</th>
+                                        <th className="p-2">蒸發 E (m³)</th>
+                                        <th className="p-2">飛濺 D (m³)</th>
+                                        <th className="p-2">排放 B (m³)</th>
+                                        <th className="p-2">補水 M (m³)</th>
+                                        <th className="p-2">半衰期 (h)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {weeks.map(({ weekStart, params, cyclesInfo, balance }) => (
+                                        <tr key={weekStart} className="border-t border-slate-100 font-mono text-slate-600">
+                                            <td className="p-2 text-left font-sans">{new Date(weekStart).toLocaleDateString()}</td>
+                                            {params && cyclesInfo && balance ? (
+                                                <>
+                                                    <td className="p-2">{fmt(params.circulationRate)}</td>
+                                                    <td className="p-2">{params.tempDiff.toFixed(1)}</td>
+                                                    <td className="p-2" title={cyclesInfo.formula}>
+                                                        {cyclesInfo.cycles.toFixed(1)}
+                                                        <span className="ml-1 text-xs font-sans text-slate-400">{CYCLE_SOURCE_LABELS[cyclesInfo.source]}</span>
+                                                    </td>
+                                                    <td className="p-2">{fmt(balance.evaporationM3)}</td>
+                                                    <td className="p-2">{fmt(balance.driftM3)}</td>
+                                                    <td className="p-2 font-bold text-sky-700">{fmt(balance.blowdownM3)}</td>
+                                                    <td className="p-2">{fmt(balance.makeupM3)}</td>
+                                                    <td className="p-2">{balance.halfLifeHours !== null ? fmt(balance.halfLifeHours) : '-'}</td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={8} className="p-2 text-center font-sans text-slate-400">無該週循環水量 / 溫差資料</td>
+                                            )}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {demands.length > 0 && (
+                            <table className="min-w-full text-sm text-right mt-3">
+                                <thead>
+                                    <tr className="bg-sky-50 text-slate-700">
+                                        <th className="p-2 text-left">藥劑</th>
+                                        <th className="p-2">目標濃度 (ppm)</th>
+                                        <th className="p-2">排放帶走 (kg)</th>
+                                        <th className="p-2">滯留水補足 (kg)</th>
+                                        <th className="p-2">理論需求 (kg)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {demands.map(d => (
+                                        <tr key={d.tank.id} className="border-t border-slate-100">
+                                            <td className="p-2 text-left text-slate-700">{d.tank.name}</td>
+                                            <td className="p-2 font-mono">{d.targetPpm}</td>
+                                            <td className="p-2 font-mono">{fmt(d.blowdownKg)}</td>
+                                            <td className="p-2 font-mono">{fmt(d.holdupKg)}</td>
+                                            <td className="p-2 font-mono font-bold text-red-600">{fmt(d.blowdownKg + d.holdupKg)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default CoolingTowerBalancePanel;
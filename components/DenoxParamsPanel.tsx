@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { Tank, SystemType, DenoxParameterRecord } from '../types';
+import { DEFAULT_DENOX_REAGENT_CONCENTRATION, getDenoxReagentType, calculateDenoxReagentDemandKg } from '../utils/calculationUtils';
+
+const inputClassName = "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+type DenoxForm = {
+    id?: string;
+    dateStr: string;
+    flueGasFlow: string;
+    inletNox: string;
+    outletNox: string;
+    molarRatio: string;
+    reagentConcentration: string;
+};
+
+const todayStr = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+const emptyForm = (): DenoxForm => ({ dateStr: todayStr(), flueGasFlow: '', inletNox: '', outletNox: '', molarRatio: '', reagentConcentration: '' });
+
+interface DenoxParamsPanelProps {
+    tanks: Tank[];
+}
+
+// 脫硝每週操作參數 (煙氣量、進出口 NOx、NH3/NOx 莫耳比)：作為氨水 / 尿素理論用量的計算依據
+export const DenoxParamsPanel: React.FC<DenoxParamsPanelProps> = ({ tanks }) => {
+    const denoxTanks = tanks.filter(t => t.calculationMethod === 'DENOX_NOX_REDUCTION' || t.system === SystemType.DENOX);
+    const [tankId, setTankId] = useState('');
+    const [history, setHistory] = useState<DenoxParameterRecord[]>([]);
+    const [form, setForm] = useState<DenoxForm>(emptyForm);
+    const [saving, setSaving] = useState(false);
+
+    const selectedTank = denoxTanks.find(t => t.id === tankId);
+    const reagentType = selectedTank ? getDenoxReagentType(selectedTank) : 'AMMONIA';
+
+    const loadHistory = async (id: string) => {
+        setHistory(id ? await StorageService.getDenoxParamsHistory(id) : []);
+    };
+
+    useEffect(() => {
+        if (!tankId && denoxTanks.length > 0) setTankId(denoxTanks[0].id);
+    }, [denoxTanks.length]);
+
+    useEffect(() => {
+        loadHistory(tankId);
+        setForm(emptyForm());
+    }, [tankId]);
+
+    const toRecord = (): DenoxParameterRecord => ({
+        id: form.id,
+        tankId,
+        flueGasFlow: Number(form.flueGasFlow),
+        inletNox: Number(form.inletNox),
+        outletNox: Number(form.outletNox),
+        molarRatio: Number(form.molarRatio),
+        reagentConcentration: form.reagentConcentration === '' ? undefined : Number(form.reagentConcentration),
+        date: new Date(`${form.dateStr}T00:00:00`).getTime()
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!tankId || !form.dateStr) return;
+        if (Number(form.outletNox) > Number(form.inletNox)) {
+            alert('出口 NOx 不可高於入口 NOx');
+            return;
+        }
+        setSaving(true);
+        try {
+            if (form.id) {
+                await StorageService.updateDenoxParamRecord(toRecord());
+            } else {
+                await StorageService.saveDenoxParam(toRecord());
+            }
+            await loadHistory(tankId);
+            setForm(prev => ({ ...emptyForm(), molarRatio: prev.molarRatio, reagentConcentration: prev.reagentConcentration }));
+        } catch (err: any) {
+            alert(err.message || '儲存脫硝參數失敗');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleEdit = (item: DenoxParameterRecord) => {
+        setForm({
+            id: item.id,
+            dateStr: item.date ? new Date(item.date).toLocaleDateString('sv-SE') : todayStr(),
+            flueGasFlow: String(item.flueGasFlow),
+            inletNox: String(item.inletNox),
+            outletNox: String(item.outletNox),
+            molarRatio: String(item.molarRatio),
+            reagentConcentration: item.reagentConcentration !== undefined ? String(item.reagentConcentration) : ''
+        });
+    };
+
+    const handleDelete = async (item: DenoxParameterRecord) => {
+        if (!item.id || !window.confirm('確定要刪除此筆脫硝參數嗎？')) return;
+        try {
+            await StorageService.deleteDenoxParamRecord(item.id);
+            await loadHistory(tankId);
+        } catch (err: any) {
+            alert(err.message || '刪除失敗');
+        }
+    };
+
+    const field = (key: keyof DenoxForm, label: string, placeholder?: string) => (
+        <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+            <input
+                type="number"
+                step="any"
+                min="0"
+                value={form[key] ?? ''}
+                onChange={e => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                className={inputClassName}
+                placeholder={placeholder}
+                required={key !== 'reagentConcentration'}
+            />
+        </div>
+    );
+
+    return (
+        <section className="bg-white rounded-xl shadow-sm border border-slate-200 border-t-4 border-t-emerald-500 overflow-hidden">
+            <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center gap-3">
+                <Icons.DeNOx className="w-5 h-5 text-emerald-600" />
+                <h2 className="text-lg font-bold text-slate-700">脫硝操作數據 (每週平均)</h2>
+            </div>
+
+            <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">1. 選擇儲槽</label>
+                        <select value={tankId} onChange={e => setTankId(e.target.value)} className={inputClassName} required>
+                            <option value="">-- 請選擇 --</option>
+                            {denoxTanks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                        {denoxTanks.length === 0 && (
+                            <p className="text-xs text-amber-600 mt-1">尚無脫硝儲槽，請於儲槽設定將計算模式設為「脫硝還原劑」</p>
+                        )}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">2. 週起始日</label>
+                        <input type="date" value={form.dateStr} onChange={e => setForm(prev => ({ ...prev, dateStr: e.target.value }))} className={inputClassName} required />
+                    </div>
+                    {field('flueGasFlow', '煙氣量 (Nm³/h)', '例如: 450000')}
+                    <div className="grid grid-cols-2 gap-3">
+                        {field('inletNox', '入口 NOx (ppm)')}
+                        {field('outletNox', '出口 NOx (ppm)')}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        {field('molarRatio', 'NH3/NOx 莫耳比', '例如: 1.0')}
+                        {field('reagentConcentration', `${reagentType === 'UREA' ? '尿素' : '氨水'}濃度 (wt%)`, `預設 ${DEFAULT_DENOX_REAGENT_CONCENTRATION[reagentType]}`)}
+                    </div>
+                    <div className="flex gap-2 pt-2">
+                        <button
+                            type="submit"
+                            disabled={saving || !tankId}
+                            className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-sm font-medium py-2 rounded-lg transition-colors"
+                        >
+                            {form.id ? '更新脫硝參數' : '儲存脫硝參數'}
+                        </button>
+                        {form.id && (
+                            <button type="button" onClick={() => setForm(emptyForm())} className="px-4 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+                                取消編輯
+                            </button>
+                        )}
+                    </div>
+                </form>
+
+                <div className="lg:col-span-2 overflow-x-auto border border-slate-200 rounded-lg max-h-[500px] overflow-y-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-50 sticky top-0 text-xs text-slate-500">
+                            <tr>
+                                <th className="px-3 py-2 text-left">週起始日</th>
+                                <th className="px-3 py-2 text-right">煙氣量</th>
+                                <th className="px-3 py-2 text-right">入口 / 出口 NOx</th>
+                                <th className="px-3 py-2 text-right">莫耳比</th>
+                                <th className="px-3 py-2 text-right">週理論用量 (kg)</th>
+                                <th className="px-3 py-2 text-right">操作</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {history.length === 0 && (
+                                <tr><td colSpan={6} className="px-3 py-6 text-center text-slate-400">尚無脫硝參數紀錄</td></tr>
+                            )}
+                            {history.map(item => {
+                                const demand = calculateDenoxReagentDemandKg({ ...item, hours: 24 * 7, reagentType });
+                                return (
+                                    <tr key={item.id} className={`hover:bg-slate-50 ${item.id === form.id ? 'bg-emerald-50' : ''}`}>
+                                        <td className="px-3 py-2 text-slate-900">{item.date ? new Date(item.date).toLocaleDateString() : '-'}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{item.flueGasFlow.toLocaleString()}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{item.inletNox} / {item.outletNox}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{item.molarRatio}</td>
+                                        <td className="px-3 py-2 text-right font-mono font-bold text-emerald-700">{demand.kg.toFixed(1)}</td>
+                                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                                            <button onClick={() => handleEdit(item)} className="text-blue-600 hover:text-blue-900 mr-3">編輯</button>
+                                            <button onClick={() => handleDelete(item)} className="text-red-600 hover:text-red-900">刪除</button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default DenoxParamsPanel;
@@ -2,7 +2,59 @@ import React, { useState, useEffect } from 'react';
 import { Icons } from './Icons';
 import { ImportAnomaly } from './ImportAnomalyModal';
 import { StorageService } from '../services/storageService';
-import { Tank, FluctuationAlert } from '../types';
+import { subscribeLiveEvents } from '../services/apiService';
+import { Tank, FluctuationAlert, AnomalyClassification, AlertStatus, AlertStatusHistoryEntry } from '../types';
+
+export const ANOMALY_CLASS_LABELS: Partial<Record<AnomalyClassification, { label: string; className: string }>> = {
+    SUSPICIOUS: { label: '可疑', className: 'bg-red-50 text-red-600 border-red-100' },
+    LIKELY_REFILL: { label: '可能補藥', className: 'bg-blue-50 text-blue-600 border-blue-100' },
+    SENSOR_FAULT: { label: '疑似儀表異常', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    FLAT_LINE: { label: '液位停滯', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    DRIFT: { label: '液位漂移', className: 'bg-amber-50 text-amber-700 border-amber-200' }
+};
+
+const SOURCE_BADGES: Record<FluctuationAlert['source'], { label: string; className: string }> = {
+    IMPORT: { label: '匯入', className: 'bg-purple-50 text-purple-600 border-purple-100' },
+    MANUAL: { label: '手動', className: 'bg-orange-50 text-orange-600 border-orange-100' },
+    INSTRUMENT: { label: '儀表診斷', className: 'bg-slate-100 text-slate-600 border-slate-200' }
+};
+
+export const ALERT_STATUS_BADGES: Record<AlertStatus, { label: string; className: string }> = {
+    OPEN: { label: '待處理', className: 'bg-red-50 text-red-600 border-red-100' },
+    ACKNOWLEDGED: { label: '已確認', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    RESOLVED: { label: '已解決', className: 'bg-green-50 text-green-700 border-green-200' },
+    DISMISSED: { label: '誤報', className: 'bg-slate-100 text-slate-500 border-slate-200' }
+};
+
+// 與伺服器 ALERT_STATUS_TRANSITIONS 一致：結案 (已解決 / 誤報) 後只能重新開啟
+const STATUS_ACTIONS: Record<AlertStatus, { status: AlertStatus; label: string; className: string }[]> = {
+    OPEN: [
+        { status: 'ACKNOWLEDGED', label: '確認', className: 'bg-amber-500 text-white hover:bg-amber-600' },
+        { status: 'RESOLVED', label: '解決', className: 'bg-green-600 text-white hover:bg-green-700' },
+        { status: 'DISMISSED', label: '標記誤報', className: 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-50' }
+    ],
+    ACKNOWLEDGED: [
+        { status: 'RESOLVED', label: '解決', className: 'bg-green-600 text-white hover:bg-green-700' },
+        { status: 'DISMISSED', label: '標記誤報', className: 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-50' },
+        { status: 'OPEN', label: '退回待處理', className: 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-50' }
+    ],
+    RESOLVED: [{ status: 'OPEN', label: '重新開啟', className: 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-50' }],
+    DISMISSED: [{ status: 'OPEN', label: '重新開啟', className: 'bg-white border border-slate-300 text-slate-600 hover:bg-slate-50' }]
+};
+
+type StatusFilter = 'ALL' | 'ACTIVE' | AlertStatus;
+
+const isAlertActive = (alertItem: FluctuationAlert) => alertItem.status === 'OPEN' || alertItem.status === 'ACKNOWLEDGED';
+
+// datetime-local 輸入值 <-> Timestamp (瀏覽器本地時區)
+const toDateTimeInput = (timestamp?: number | null) => {
+    if (!timestamp) return '';
+    const date = new Date(timestamp);
+    return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatDateTime = (value?: number | string | null) =>
+    value ? new Date(value).toLocaleString('zh-TW', { hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' }) : '-';
 
 interface FluctuationAlertsViewProps {
     alerts: FluctuationAlert[];
@@ -17,6 +69,11 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [tanks, setTanks] = useState<Tank[]>([]);
+    const [isDiagnosing, setIsDiagnosing] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL');
+    const [workflowId, setWorkflowId] = useState<string | null>(null);
+    const [workflowForm, setWorkflowForm] = useState({ assignee: '', dueAt: '', comment: '' });
+    const [history, setHistory] = useState<AlertStatusHistoryEntry[]>([]);
 
     // Pagination State
     const [currentPage, setCurrentPage] = useState(1);
@@ -28,6 +85,7 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
             setTanks(data);
         };
         loadTanks();
+        return subscribeLiveEvents(['tank'], loadTanks);
     }, []);
 
     const getTankSG = (tankId: string) => {
@@ -42,11 +100,15 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
         return liters * sg;
     };
 
+    const filteredAlerts = alerts.filter(a =>
+        statusFilter === 'ALL' || (statusFilter === 'ACTIVE' ? isAlertActive(a) : a.status === statusFilter)
+    );
+
     const toggleSelectAll = () => {
-        if (selectedIds.size === alerts.length) {
+        if (selectedIds.size === filteredAlerts.length) {
             setSelectedIds(new Set());
         } else {
-            setSelectedIds(new Set(alerts.map(a => a.id)));
+            setSelectedIds(new Set(filteredAlerts.map(a => a.id)));
         }
     };
 
@@ -73,6 +135,19 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
         }
     };
 
+    const handleRunDiagnostics = async () => {
+        setIsDiagnosing(true);
+        try {
+            const created = await StorageService.runInstrumentDiagnostics();
+            onDelete();
+            window.alert(created.length > 0 ? `液位計診斷完成，新增 ${created.length} 筆警報` : '液位計診斷完成，未發現停滯或漂移');
+        } catch (e: any) {
+            window.alert(e.message || '液位計診斷失敗');
+        } finally {
+            setIsDiagnosing(false);
+        }
+    };
+
     const handleDeleteSingle = async (id: string) => {
         if (!window.confirm('確定要刪除此筆警報嗎？')) return;
         try {
@@ -83,6 +158,37 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
         }
     };
 
+    const toggleWorkflow = async (alertItem: FluctuationAlert) => {
+        if (workflowId === alertItem.id) {
+            setWorkflowId(null);
+            return;
+        }
+        setWorkflowId(alertItem.id);
+        setWorkflowForm({ assignee: alertItem.assignee || '', dueAt: toDateTimeInput(alertItem.dueAt), comment: '' });
+        setHistory([]);
+        setHistory(await StorageService.getAlertHistory(alertItem.id));
+    };
+
+    // 未指定 status 時僅更新負責人 / 處理期限
+    const handleStatusChange = async (alertItem: FluctuationAlert, status?: AlertStatus) => {
+        setIsSubmitting(true);
+        try {
+            await StorageService.updateAlertStatus(alertItem.id, {
+                status,
+                assignee: workflowForm.assignee.trim() || null,
+                dueAt: workflowForm.dueAt ? new Date(workflowForm.dueAt).getTime() : null,
+                comment: workflowForm.comment.trim() || undefined
+            });
+            setWorkflowForm(prev => ({ ...prev, comment: '' }));
+            setHistory(await StorageService.getAlertHistory(alertItem.id));
+            onDelete();
+        } catch (e: any) {
+            window.alert(e.message || '更新警報狀態失敗');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
     const startEditing = (alertItem: FluctuationAlert) => {
         setEditingId(alertItem.id);
         setNoteContent(alertItem.note || `${alertItem.reason} 檢查原因為 : `);
@@ -103,7 +209,8 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
     };
 
     // Calculate displayed alerts for pagination
-    const displayedAlerts = alerts.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+    const displayedAlerts = filteredAlerts.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+    const activeCount = alerts.filter(isAlertActive).length;
 
     return (
         <div className="flex flex-col bg-white">
@@ -111,21 +218,47 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                 <div className="flex items-center gap-2">
                     <input
                         type="checkbox"
-                        checked={alerts.length > 0 && selectedIds.size === alerts.length}
+                        checked={filteredAlerts.length > 0 && selectedIds.size === filteredAlerts.length}
                         onChange={toggleSelectAll}
                         className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="text-sm text-slate-600">全選</span>
+                    <select
+                        value={statusFilter}
+                        onChange={e => {
+                            setStatusFilter(e.target.value as StatusFilter);
+                            setSelectedIds(new Set());
+                            setCurrentPage(1);
+                        }}
+                        className="ml-3 text-sm border-slate-300 rounded shadow-sm focus:border-brand-500 focus:ring-brand-500 py-1"
+                    >
+                        <option value="ALL">全部狀態</option>
+                        <option value="ACTIVE">未結案 ({activeCount})</option>
+                        {(Object.keys(ALERT_STATUS_BADGES) as AlertStatus[]).map(status => (
+                            <option key={status} value={status}>{ALERT_STATUS_BADGES[status].label}</option>
+                        ))}
+                    </select>
                 </div>
-                {selectedIds.size > 0 && (
+                <div className="flex items-center gap-2">
                     <button
-                        onClick={handleDeleteBatch}
-                        className="px-3 py-1.5 bg-red-600 text-white text-sm rounded hover:bg-red-700 flex items-center gap-1 shadow-sm transition-all"
+                        onClick={handleRunDiagnostics}
+                        disabled={isDiagnosing}
+                        className="px-3 py-1.5 bg-white border border-slate-300 text-slate-600 text-sm rounded hover:bg-slate-100 flex items-center gap-1 disabled:opacity-50"
+                        title="檢查各儲槽液位是否多日停滯，或實測用量相對理論用量逐週偏移"
                     >
-                        <Icons.Trash2 className="w-4 h-4" />
-                        刪除選取 ({selectedIds.size})
+                        <Icons.Instrument className="w-4 h-4" />
+                        {isDiagnosing ? '診斷中...' : '液位計診斷'}
                     </button>
-                )}
+                    {selectedIds.size > 0 && (
+                        <button
+                            onClick={handleDeleteBatch}
+                            className="px-3 py-1.5 bg-red-600 text-white text-sm rounded hover:bg-red-700 flex items-center gap-1 shadow-sm transition-all"
+                        >
+                            <Icons.Trash2 className="w-4 h-4" />
+                            刪除選取 ({selectedIds.size})
+                        </button>
+                    )}
+                </div>
             </div>
 
             <div className="overflow-x-auto">
@@ -146,10 +279,10 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-slate-200">
-                        {alerts.length === 0 ? (
+                        {filteredAlerts.length === 0 ? (
                             <tr>
                                 <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic">
-                                    尚無警報紀錄
+                                    {alerts.length === 0 ? '尚無警報紀錄' : '沒有符合狀態的警報'}
                                 </td>
                             </tr>
                         ) : (
@@ -157,10 +290,12 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                                 const valKg = convertToKg(alert.currentValue, alert.tankId);
                                 const prevKg = convertToKg(alert.prevValue, alert.tankId);
                                 const nextKg = convertToKg(alert.nextValue, alert.tankId);
+                                const statusBadge = ALERT_STATUS_BADGES[alert.status] || ALERT_STATUS_BADGES.OPEN;
+                                const isOverdue = isAlertActive(alert) && !!alert.dueAt && alert.dueAt < Date.now();
 
                                 return (
                                     <React.Fragment key={alert.id}>
-                                        <tr className={`hover:bg-slate-50 transition-colors ${alert.note ? 'bg-green-50/30' : ''} ${selectedIds.has(alert.id) ? 'bg-blue-50' : ''}`}>
+                                        <tr className={`hover:bg-slate-50 transition-colors ${isAlertActive(alert) ? '' : 'bg-green-50/30'} ${selectedIds.has(alert.id) ? 'bg-blue-50' : ''}`}>
                                             <td className="px-4 py-3 align-top pt-4">
                                                 <input
                                                     type="checkbox"
@@ -176,10 +311,36 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                                                     {alert.dateStr}
                                                 </div>
                                                 <div className="mt-1">
-                                                    <span className={`text-[10px] px-1.5 py-0.5 rounded border ${alert.source === 'IMPORT' ? 'bg-purple-50 text-purple-600 border-purple-100' : 'bg-orange-50 text-orange-600 border-orange-100'}`}>
-                                                        {alert.source === 'IMPORT' ? '匯入' : '手動'}
+                                                    <span className={`mr-1 text-[10px] px-1.5 py-0.5 rounded border ${statusBadge.className}`}>
+                                                        {statusBadge.label}
+                                                    </span>
+                                                    <span className={`text-[10px] px-1.5 py-0.5 rounded border ${(SOURCE_BADGES[alert.source] || SOURCE_BADGES.MANUAL).className}`}>
+                                                        {(SOURCE_BADGES[alert.source] || SOURCE_BADGES.MANUAL).label}
                                                     </span>
+                                                    {alert.anomalyClass && ANOMALY_CLASS_LABELS[alert.anomalyClass] && (
+                                                        <span
+                                                            className={`ml-1 text-[10px] px-1.5 py-0.5 rounded border ${ANOMALY_CLASS_LABELS[alert.anomalyClass]!.className}`}
+                                                            title={alert.anomalyScore != null ? `異常分數 ${Math.abs(alert.anomalyScore).toFixed(1)}` : undefined}
+                                                        >
+                                                            {ANOMALY_CLASS_LABELS[alert.anomalyClass]!.label}
+                                                        </span>
+                                                    )}
                                                 </div>
+                                                {(alert.assignee || alert.dueAt || alert.escalationLevel > 0) && (
+                                                    <div className="text-[10px] text-slate-500 mt-1 space-y-0.5">
+                                                        {alert.assignee && (
+                                                            <div className="flex items-center gap-1"><Icons.User className="w-3 h-3" />{alert.assignee}</div>
+                                                        )}
+                                                        {alert.dueAt && (
+                                                            <div className={isOverdue ? 'text-red-600 font-medium' : ''}>
+                                                                期限 {formatDateTime(alert.dueAt)}{isOverdue && ' (逾期)'}
+                                                            </div>
+                                                        )}
+                                                        {alert.escalationLevel > 0 && isAlertActive(alert) && (
+                                                            <div className="text-red-600">已升級推送 {alert.escalationLevel} 次</div>
+                                                        )}
+                                                    </div>
+                                                )}
                                             </td>
                                             <td className="px-4 py-3 align-top">
                                                 <div className={`text-sm font-medium mb-1 ${alert.isPossibleRefill ? 'text-blue-600' : 'text-red-600'}`}>
@@ -235,7 +396,14 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                                                     </div>
                                                 )}
                                             </td>
-                                            <td className="px-4 py-3 align-top pt-4 text-right">
+                                            <td className="px-4 py-3 align-top pt-4 text-right whitespace-nowrap">
+                                                <button
+                                                    onClick={() => toggleWorkflow(alert)}
+                                                    className={`mr-3 transition-colors ${workflowId === alert.id ? 'text-blue-600' : 'text-slate-400 hover:text-blue-600'}`}
+                                                    title="處理狀態 / 指派 / 歷程"
+                                                >
+                                                    <Icons.History className="w-4 h-4" />
+                                                </button>
                                                 <button
                                                     onClick={() => handleDeleteSingle(alert.id)}
                                                     className="text-slate-400 hover:text-red-600 transition-colors tooltip"
@@ -245,6 +413,92 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                                                 </button>
                                             </td>
                                         </tr>
+                                        {/* Workflow Row：狀態、負責人、處理期限與歷程 */}
+                                        {workflowId === alert.id && (
+                                            <tr className="bg-slate-50 animate-fade-in">
+                                                <td colSpan={5} className="px-4 py-3 border-b border-slate-200">
+                                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                        <div className="flex flex-col gap-2 text-sm">
+                                                            <div className="flex gap-2">
+                                                                <label className="flex-1">
+                                                                    <span className="text-xs text-slate-500">負責人</span>
+                                                                    <input
+                                                                        type="text"
+                                                                        value={workflowForm.assignee}
+                                                                        onChange={e => setWorkflowForm(prev => ({ ...prev, assignee: e.target.value }))}
+                                                                        className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+                                                                        placeholder="未指派"
+                                                                    />
+                                                                </label>
+                                                                <label className="flex-1">
+                                                                    <span className="text-xs text-slate-500">處理期限</span>
+                                                                    <input
+                                                                        type="datetime-local"
+                                                                        value={workflowForm.dueAt}
+                                                                        onChange={e => setWorkflowForm(prev => ({ ...prev, dueAt: e.target.value }))}
+                                                                        className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+                                                                    />
+                                                                </label>
+                                                            </div>
+                                                            <input
+                                                                type="text"
+                                                                value={workflowForm.comment}
+                                                                onChange={e => setWorkflowForm(prev => ({ ...prev, comment: e.target.value }))}
+                                                                className="px-2 py-1 border border-slate-300 rounded text-sm"
+                                                                placeholder="處理說明 (選填，記錄於歷程)"
+                                                            />
+                                                            <div className="flex flex-wrap gap-2">
+                                                                {(STATUS_ACTIONS[alert.status] || []).map(action => (
+                                                                    <button
+                                                                        key={action.status}
+                                                                        onClick={() => handleStatusChange(alert, action.status)}
+                                                                        disabled={isSubmitting}
+                                                                        className={`px-3 py-1 text-xs rounded disabled:opacity-50 ${action.className}`}
+                                                                    >
+                                                                        {action.label}
+                                                                    </button>
+                                                                ))}
+                                                                <button
+                                                                    onClick={() => handleStatusChange(alert)}
+                                                                    disabled={isSubmitting}
+                                                                    className="ml-auto px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                                                                >
+                                                                    儲存指派
+                                                                </button>
+                                                            </div>
+                                                            {alert.acknowledgedAt && (
+                                                                <div className="text-xs text-slate-500">
+                                                                    {alert.acknowledgedBy || '-'} 於 {formatDateTime(alert.acknowledgedAt)} 確認
+                                                                    {alert.resolvedAt && `，${formatDateTime(alert.resolvedAt)} 結案`}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                        <div className="text-xs">
+                                                            <div className="text-slate-500 mb-1">狀態歷程</div>
+                                                            {history.length === 0 ? (
+                                                                <div className="text-slate-400 italic">尚無歷程</div>
+                                                            ) : (
+                                                                <ol className="space-y-1 max-h-40 overflow-y-auto">
+                                                                    {history.map(entry => (
+                                                                        <li key={entry.id} className="flex gap-2">
+                                                                            <span className="text-slate-400 whitespace-nowrap">{formatDateTime(entry.changedAt)}</span>
+                                                                            <span className="text-slate-700">
+                                                                                {entry.fromStatus && entry.fromStatus !== entry.toStatus
+                                                                                    ? `${ALERT_STATUS_BADGES[entry.fromStatus]?.label} → ${ALERT_STATUS_BADGES[entry.toStatus]?.label}`
+                                                                                    : ALERT_STATUS_BADGES[entry.toStatus]?.label}
+                                                                                {entry.assignee && `｜${entry.assignee}`}
+                                                                                {entry.comment && `｜${entry.comment}`}
+                                                                                <span className="text-slate-400">（{entry.changedBy || '-'}）</span>
+                                                                            </span>
+                                                                        </li>
+                                                                    ))}
+                                                                </ol>
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
                                         {/* Inline Edit Row */}
                                         {editingId === alert.id && (
                                             <tr className="bg-blue-50/50 animate-fade-in">
@@ -288,11 +542,11 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
 
             {/* Pagination Controls */}
             {
-                alerts.length > 0 && (
+                filteredAlerts.length > 0 && (
                     <div className="flex items-center justify-between border-t border-slate-200 px-4 py-3 flex-shrink-0">
                         <div className="flex items-center gap-2">
                             <span className="text-xs text-slate-500">
-                                顯示 {((currentPage - 1) * itemsPerPage) + 1} 至 {Math.min(currentPage * itemsPerPage, alerts.length)} 筆，共 {alerts.length} 筆
+                                顯示 {((currentPage - 1) * itemsPerPage) + 1} 至 {Math.min(currentPage * itemsPerPage, filteredAlerts.length)} 筆，共 {filteredAlerts.length} 筆
                             </span>
                             <select
                                 value={itemsPerPage}
@@ -316,11 +570,11 @@ export const FluctuationAlertsView: React.FC<FluctuationAlertsViewProps> = ({ al
                                 上一頁
                             </button>
                             <span className="flex items-center text-xs font-medium text-slate-700 px-2">
-                                {currentPage} / {Math.ceil(alerts.length / itemsPerPage)}
+                                {currentPage} / {Math.ceil(filteredAlerts.length / itemsPerPage)}
                             </span>
                             <button
-                                onClick={() => setCurrentPage(p => Math.min(Math.ceil(alerts.length / itemsPerPage), p + 1))}
-                                disabled={currentPage >= Math.ceil(alerts.length / itemsPerPage)}
+                                onClick={() => setCurrentPage(p => Math.min(Math.ceil(filteredAlerts.length / itemsPerPage), p + 1))}
+                                disabled={currentPage >= Math.ceil(filteredAlerts.length / itemsPerPage)}
                                 className="px-2 py-1 text-xs border border-slate-300 rounded bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 下一頁
@@ -30,7 +30,13 @@ import {
   Check,
   Cylinder,
   Info,
-  Wrench
+  Wrench,
+  Truck,
+  UserCog,
+  History,
+  Wallet,
+  WifiOff,
+  QrCode
 } from 'lucide-react';
 
 export const Icons = {
@@ -66,5 +72,11 @@ export const Icons = {
   Check: Check,
   Cylinder: Cylinder,
   Info: Info,
-  Instrument: Wrench
+  Instrument: Wrench,
+  Delivery: Truck,
+  User: UserCog,
+  History: History,
+  Cost: Wallet,
+  Offline: WifiOff,
+  QrCode: QrCode
 };
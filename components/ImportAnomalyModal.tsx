@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { Icons } from './Icons';
+import type { AnomalyClassification } from '../types';
 
 export interface ImportAnomaly {
     id: string;
@@ -14,6 +15,8 @@ export interface ImportAnomaly {
     nextDate?: string;
     nextValue?: number;
     isPossibleRefill?: boolean; // 當液位上升超過閾值15倍以上，判斷為可能補藥
+    score?: number | null; // 統計偵測 robust z，固定閾值判斷時為 null
+    classification?: AnomalyClassification;
 }
 
 interface ImportAnomalyModalProps {
@@ -127,6 +130,16 @@ export const ImportAnomalyModal: React.FC<ImportAnomalyModalProps> = ({
                                                             可能為補藥
                                                         </span>
                                                     )}
+                                                    {item.classification === 'SENSOR_FAULT' && (
+                                                        <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 text-xs rounded-full font-bold">
+                                                            疑似儀表異常
+                                                        </span>
+                                                    )}
+                                                    {item.score != null && (
+                                                        <span className="ml-2 text-xs text-slate-400 font-mono" title="異常分數 (偏離常態日用量的倍數)">
+                                                            z={item.score.toFixed(1)}
+                                                        </span>
+                                                    )}
                                                 </div>
                                                 {onAddNote && (
                                                     <div className="flex items-center gap-2">
@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { Tank, NotificationRule, NotificationTriggerType, NotificationChannel } from '../types';
+
+const TRIGGER_LABELS: Record<NotificationTriggerType, string> = {
+    TANK_BELOW_SAFE: '液位低於安全液位',
+    FORECAST_EMPTY: '預測 N 天內見底',
+    WATER_QUALITY_OUT_OF_LIMITS: '水質超出控制標準',
+    ALERT_UNACKNOWLEDGED: '警報逾時未確認',
+    CONSUMABLE_EXPIRING: '儀器耗材即將到期'
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+    PIMCP: 'PIMCP 訂閱',
+    EMAIL: 'Email',
+    WEBHOOK: 'Webhook'
+};
+
+const EMPTY_RULE: Partial<NotificationRule> = {
+    name: '',
+    triggerType: 'TANK_BELOW_SAFE',
+    params: {},
+    channel: 'PIMCP',
+    channelConfig: {},
+    quietHoursStart: '',
+    quietHoursEnd: '',
+    dedupeKeyTemplate: '',
+    dedupeWindowHours: 24,
+    enabled: true
+};
+
+const describeParams = (rule: NotificationRule, tanks: Tank[]) => {
+    const { params } = rule;
+    switch (rule.triggerType) {
+        case 'TANK_BELOW_SAFE':
+        case 'FORECAST_EMPTY': {
+            const tankText = params.tankIds?.length
+                ? params.tankIds.map(id => tanks.find(t => t.id === id)?.name || id).join('、')
+                : '全部儲槽';
+            return rule.triggerType === 'FORECAST_EMPTY' ? `${params.days ?? 7} 天內｜${tankText}` : tankText;
+        }
+        case 'WATER_QUALITY_OUT_OF_LIMITS':
+            return `${params.waterType || '全部水質'}｜近 ${params.lookbackDays ?? 3} 天`;
+        case 'ALERT_UNACKNOWLEDGED':
+            return `逾 ${params.hours ?? 24} 小時`;
+        case 'CONSUMABLE_EXPIRING':
+            return `${params.days ?? 3} 天內`;
+        default:
+            return '';
+    }
+};
+
+const describeChannel = (rule: NotificationRule) => {
+    const config = rule.channelConfig;
+    if (rule.channel === 'PIMCP') return `訂閱 #${config.subscriptionId ?? '-'}`;
+    if (rule.channel === 'EMAIL') return config.to || '-';
+    return config.url || '-';
+};
+
+interface NotificationRulesPanelProps {
+    tanks: Tank[];
+}
+
+// 通知規則 (僅管理者可見)：伺服器每小時評估，同一項目在去重期間內只通知一次，靜音時段內暫緩發送
+export const NotificationRulesPanel: React.FC<NotificationRulesPanelProps> = ({ tanks }) => {
+    const [rules, setRules] = useState<NotificationRule[]>([]);
+    const [editingRule, setEditingRule] = useState<Partial<NotificationRule> | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [testingId, setTestingId] = useState<string | null>(null);
+
+    const loadRules = async () => {
+        setRules(await StorageService.getNotificationRules());
+    };
+
+    useEffect(() => {
+        loadRules();
+    }, []);
+
+    const updateEditing = (patch: Partial<NotificationRule>) => setEditingRule(prev => prev ? { ...prev, ...patch } : prev);
+    const updateParams = (patch: Partial<NotificationRule['params']>) =>
+        setEditingRule(prev => prev ? { ...prev, params: { ...prev.params, ...patch } } : prev);
+    const updateChannelConfig = (patch: Partial<NotificationRule['channelConfig']>) =>
+        setEditingRule(prev => prev ? { ...prev, channelConfig: { ...prev.channelConfig, ...patch } } : prev);
+
+    const handleSave = async () => {
+        if (!editingRule) return;
+        if (!editingRule.name?.trim()) {
+            alert('請輸入規則名稱');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await StorageService.saveNotificationRule(editingRule);
+            setEditingRule(null);
+            await loadRules();
+        } catch (e: any) {
+            alert(e.message || '儲存通知規則失敗');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggle = async (rule: NotificationRule) => {
+        try {
+            await StorageService.saveNotificationRule({ ...rule, enabled: !rule.enabled });
+            await loadRules();
+        } catch (e: any) {
+            alert(e.message || '更新通知規則失敗');
+        }
+    };
+
+    const handleDelete = async (rule: NotificationRule) => {
+        if (!window.confirm(`確定要刪除通知規則「${rule.name}」嗎？`)) return;
+        try {
+            await StorageService.deleteNotificationRule(rule.id);
+            await loadRules();
+        } catch (e: any) {
+            alert(e.message || '刪除通知規則失敗');
+        }
+    };
+
+    const handleTest = async (rule: NotificationRule) => {
+        setTestingId(rule.id);
+        try {
+            const result = await StorageService.testNotificationRule(rule.id);
+            alert(`已送出測試通知 (目前符合 ${result.matched} 筆)`);
+        } catch (e: any) {
+            alert(e.message || '測試發送失敗');
+        } finally {
+            setTestingId(null);
+            await loadRules();
+        }
+    };
+
+    const toggleTank = (tankId: string) => {
+        const current = editingRule?.params?.tankIds || [];
+        updateParams({ tankIds: current.includes(tankId) ? current.filter(id => id !== tankId) : [...current, tankId] });
+    };
+
+    const inputClassName = 'border border-slate-200 rounded-lg px-3 py-2 text-sm';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                    <Icons.Alert className="w-5 h-5 text-brand-600" />
+                    通知規則
+                </h3>
+                {!editingRule && (
+                    <button
+                        onClick={() => setEditingRule({ ...EMPTY_RULE })}
+                        className="flex items-center text-sm bg-brand-600 hover:bg-brand-700 text-white px-3 py-2 rounded-lg transition-colors"
+                    >
+                        <Icons.Plus className="w-4 h-4 mr-1" />
+                        新增規則
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-slate-400">
+                每小時檢查一次；同一項目 (依去重鍵) 在去重期間內只通知一次，靜音時段 (台北時間) 內暫緩至時段結束後發送。去重鍵可用 {'{rule}'}、{'{subject}'}、{'{date}'}，預設 {'{rule}:{subject}'}。
+            </p>
+
+            {editingRule && (
+                <div className="border border-brand-200 bg-brand-50/40 rounded-lg p-4 space-y-3 text-sm">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">規則名稱</span>
+                            <input type="text" value={editingRule.name || ''} onChange={e => updateEditing({ name: e.target.value })} className={inputClassName} />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">觸發條件</span>
+                            <select
+                                value={editingRule.triggerType}
+                                onChange={e => updateEditing({ triggerType: e.target.value as NotificationTriggerType, params: {} })}
+                                className={inputClassName}
+                            >
+                                {(Object.keys(TRIGGER_LABELS) as NotificationTriggerType[]).map(type => (
+                                    <option key={type} value={type}>{TRIGGER_LABELS[type]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">通知通道</span>
+                            <select
+                                value={editingRule.channel}
+                                onChange={e => updateEditing({ channel: e.target.value as NotificationChannel, channelConfig: {} })}
+                                className={inputClassName}
+                            >
+                                {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                                    <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    {/* 觸發參數 */}
+                    <div className="flex flex-wrap items-end gap-3">
+                        {(editingRule.triggerType === 'FORECAST_EMPTY' || editingRule.triggerType === 'CONSUMABLE_EXPIRING') && (
+                            <label className="flex flex-col gap-1">
+                                <span className="text-xs text-slate-500">{editingRule.triggerType === 'FORECAST_EMPTY' ? '幾天內見底' : '幾天內到期'}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={editingRule.params?.days ?? (editingRule.triggerType === 'FORECAST_EMPTY' ? 7 : 3)}
+                                    onChange={e => updateParams({ days: Number(e.target.value) })}
+                                    className={`${inputClassName} w-28`}
+                                />
+                            </label>
+                        )}
+                        {editingRule.triggerType === 'ALERT_UNACKNOWLEDGED' && (
+                            <label className="flex flex-col gap-1">
+                                <span className="text-xs text-slate-500">未確認超過 (小時)</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={editingRule.params?.hours ?? 24}
+                                    onChange={e => updateParams({ hours: Number(e.target.value) })}
+                                    className={`${inputClassName} w-28`}
+                                />
+                            </label>
+                        )}
+                        {editingRule.triggerType === 'WATER_QUALITY_OUT_OF_LIMITS' && (
+                            <>
+                                <label className="flex flex-col gap-1">
+                                    <span className="text-xs text-slate-500">水質類別</span>
+                                    <select
+                                        value={editingRule.params?.waterType || ''}
+                                        onChange={e => updateParams({ waterType: e.target.value || undefined })}
+                                        className={inputClassName}
+                                    >
+                                        <option value="">全部</option>
+                                        <option value="CW">冷卻水 (CW)</option>
+                                        <option value="BW">鍋爐水 (BW)</option>
+                                    </select>
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    <span className="text-xs text-slate-500">檢查近幾天檢驗</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={editingRule.params?.lookbackDays ?? 3}
+                                        onChange={e => updateParams({ lookbackDays: Number(e.target.value) })}
+                                        className={`${inputClassName} w-28`}
+                                    />
+                                </label>
+                            </>
+                        )}
+                    </div>
+                    {(editingRule.triggerType === 'TANK_BELOW_SAFE' || editingRule.triggerType === 'FORECAST_EMPTY') && (
+                        <div>
+                            <span className="text-xs text-slate-500">儲槽 (未勾選為全部)</span>
+                            <div className="flex flex-wrap gap-2 mt-1">
+                                {tanks.map(tank => (
+                                    <label key={tank.id} className={`px-2 py-1 rounded border text-xs cursor-pointer ${editingRule.params?.tankIds?.includes(tank.id) ? 'border-brand-500 bg-brand-50 text-brand-700' : 'border-slate-200 text-slate-600'}`}>
+                                        <input type="checkbox" checked={!!editingRule.params?.tankIds?.includes(tank.id)} onChange={() => toggleTank(tank.id)} className="sr-only" />
+                                        {tank.name}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* 通道設定 */}
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">
+                            {editingRule.channel === 'PIMCP' ? 'PIMCP 訂閱 ID' : editingRule.channel === 'EMAIL' ? '收件者 (以逗號分隔)' : 'Webhook URL'}
+                        </span>
+                        {editingRule.channel === 'PIMCP' ? (
+                            <input
+                                type="number"
+                                value={editingRule.channelConfig?.subscriptionId ?? ''}
+                                onChange={e => updateChannelConfig({ subscriptionId: e.target.value ? Number(e.target.value) : undefined })}
+                                className={`${inputClassName} w-40`}
+                            />
+                        ) : (
+                            <input
+                                type="text"
+                                value={(editingRule.channel === 'EMAIL' ? editingRule.channelConfig?.to : editingRule.channelConfig?.url) || ''}
+                                onChange={e => updateChannelConfig(editingRule.channel === 'EMAIL' ? { to: e.target.value } : { url: e.target.value })}
+                                placeholder={editingRule.channel === 'EMAIL' ? 'user1@example.com, user2@example.com' : 'https://'}
+                                className={inputClassName}
+                            />
+                        )}
+                    </label>
+
+                    <div className="flex flex-wrap items-end gap-3">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">靜音時段</span>
+                            <div className="flex items-center gap-1">
+                                <input type="time" value={editingRule.quietHoursStart || ''} onChange={e => updateEditing({ quietHoursStart: e.target.value })} className={inputClassName} />
+                                <span className="text-slate-400">~</span>
+                                <input type="time" value={editingRule.quietHoursEnd || ''} onChange={e => updateEditing({ quietHoursEnd: e.target.value })} className={inputClassName} />
+                            </div>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">去重鍵</span>
+                            <input
+                                type="text"
+                                value={editingRule.dedupeKeyTemplate || ''}
+                                onChange={e => updateEditing({ dedupeKeyTemplate: e.target.value })}
+                                placeholder="{rule}:{subject}"
+                                className={`${inputClassName} w-48 font-mono`}
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">去重期間 (小時)</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={editingRule.dedupeWindowHours ?? 24}
+                                onChange={e => updateEditing({ dedupeWindowHours: Number(e.target.value) })}
+                                className={`${inputClassName} w-28`}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2 pb-2">
+                            <input type="checkbox" checked={editingRule.enabled !== false} onChange={e => updateEditing({ enabled: e.target.checked })} />
+                            <span className="text-slate-600">啟用</span>
+                        </label>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditingRule(null)} disabled={isSaving} className="px-3 py-2 rounded-lg text-sm bg-white border border-slate-300 text-slate-600 hover:bg-slate-50">
+                            取消
+                        </button>
+                        <button onClick={handleSave} disabled={isSaving} className="px-3 py-2 rounded-lg text-sm bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50">
+                            {isSaving ? '儲存中...' : '儲存規則'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="bg-slate-50 text-slate-600 text-left">
+                        <th className="px-3 py-2">規則</th>
+                        <th className="px-3 py-2">觸發條件</th>
+                        <th className="px-3 py-2">通道</th>
+                        <th className="px-3 py-2">靜音時段</th>
+                        <th className="px-3 py-2">最近發送</th>
+                        <th className="px-3 py-2"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rules.length === 0 && (
+                        <tr>
+                            <td colSpan={6} className="px-3 py-4 text-center text-slate-400">尚無通知規則</td>
+                        </tr>
+                    )}
+                    {rules.map(rule => (
+                        <tr key={rule.id} className={`border-t border-slate-100 ${rule.enabled ? '' : 'opacity-50'}`}>
+                            <td className="px-3 py-2">
+                                <label className="flex items-center gap-2 font-medium text-slate-700">
+                                    <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} title={rule.enabled ? '停用' : '啟用'} />
+                                    {rule.name}
+                                </label>
+                            </td>
+                            <td className="px-3 py-2">
+                                <div className="text-slate-700">{TRIGGER_LABELS[rule.triggerType] || rule.triggerType}</div>
+                                <div className="text-xs text-slate-400">{describeParams(rule, tanks)}</div>
+                            </td>
+                            <td className="px-3 py-2">
+                                <div className="text-slate-700">{CHANNEL_LABELS[rule.channel] || rule.channel}</div>
+                                <div className="text-xs text-slate-400 truncate max-w-[200px]" title={describeChannel(rule)}>{describeChannel(rule)}</div>
+                            </td>
+                            <td className="px-3 py-2 text-slate-500 whitespace-nowrap">
+                                {rule.quietHoursStart && rule.quietHoursEnd ? `${rule.quietHoursStart} ~ ${rule.quietHoursEnd}` : '-'}
+                            </td>
+                            <td className="px-3 py-2 text-xs whitespace-nowrap">
+                                {rule.lastSentAt ? (
+                                    <span className={rule.lastStatus === 'FAILED' ? 'text-red-600' : 'text-slate-500'} title={rule.lastError || undefined}>
+                                        {new Date(rule.lastSentAt).toLocaleString()}{rule.lastStatus === 'FAILED' && ' 失敗'}
+                                    </span>
+                                ) : <span className="text-slate-400">-</span>}
+                            </td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                                <button
+                                    onClick={() => handleTest(rule)}
+                                    disabled={testingId === rule.id}
+                                    className="text-xs text-blue-600 hover:text-blue-800 mr-3 disabled:opacity-50"
+                                >
+                                    {testingId === rule.id ? '發送中...' : '測試發送'}
+                                </button>
+                                <button onClick={() => setEditingRule({ ...rule })} className="text-slate-500 hover:bg-slate-100 p-1 rounded transition-colors" title="編輯">
+                                    <Icons.FilePenLine className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleDelete(rule)} className="text-red-500 hover:bg-red-50 p-1 rounded transition-colors" title="刪除">
+                                    <Icons.Delete className="w-4 h-4" />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default NotificationRulesPanel;
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { subscribeOfflineQueue } from '../services/offlineQueue';
+import { Tank, Reading, OfflineOperation, OfflineConflictResolution } from '../types';
+
+const formatReading = (reading?: Reading | null) =>
+    reading ? `${reading.levelCm.toFixed(1)} cm / ${Math.round(reading.calculatedWeightKg).toLocaleString()} kg` : '-';
+
+interface OfflineSyncBannerProps {
+    tanks: Tank[];
+    onSynced: () => void;
+}
+
+// 離線狀態與待同步佇列：連線恢復時自動補送，同儲槽同日期已有他人讀數時由使用者決定保留哪一筆
+export const OfflineSyncBanner: React.FC<OfflineSyncBannerProps> = ({ tanks, onSynced }) => {
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const [operations, setOperations] = useState<OfflineOperation[]>([]);
+    const [syncing, setSyncing] = useState(false);
+    const [showDetails, setShowDetails] = useState(false);
+
+    const loadOperations = async () => {
+        setOperations(await StorageService.getOfflineOperations());
+    };
+
+    const handleSync = async () => {
+        if (syncing || !navigator.onLine) return;
+        setSyncing(true);
+        try {
+            const { synced, conflicts } = await StorageService.syncOfflineQueue();
+            if (synced > 0) onSynced();
+            if (conflicts > 0) setShowDetails(true);
+        } finally {
+            setSyncing(false);
+        }
+    };
+
+    useEffect(() => {
+        loadOperations().then(() => handleSync());
+        const unsubscribe = subscribeOfflineQueue(loadOperations);
+        const handleOnline = () => {
+            setIsOnline(true);
+            handleSync();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            unsubscribe();
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    const handleResolve = async (operation: OfflineOperation, resolution: OfflineConflictResolution) => {
+        try {
+            await StorageService.resolveOfflineConflict(operation, resolution);
+            onSynced();
+        } catch (e: any) {
+            alert(e.message || '處理衝突失敗');
+        }
+    };
+
+    const handleDiscard = async (operation: OfflineOperation) => {
+        if (!window.confirm('確定要捨棄此筆暫存資料嗎？')) return;
+        await StorageService.discardOfflineOperation(operation.id);
+        onSynced();
+    };
+
+    if (isOnline && operations.length === 0) return null;
+
+    const pending = operations.filter(op => op.status === 'PENDING').length;
+    const conflicts = operations.filter(op => op.status === 'CONFLICT');
+    const failed = operations.filter(op => op.status === 'FAILED');
+    const getTankName = (tankId: string) => tanks.find(t => t.id === tankId)?.name || tankId;
+
+    return (
+        <div className={`border-b px-8 py-2 text-sm ${isOnline ? 'bg-sky-50 border-sky-200 text-sky-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+            <div className="flex flex-wrap items-center gap-3">
+                <Icons.Offline className="w-4 h-4" />
+                <span className="font-medium">{isOnline ? '已恢復連線' : '離線模式：新增的液位與叫藥單將暫存於本機'}</span>
+                {pending > 0 && <span>{pending} 筆待同步</span>}
+                {conflicts.length > 0 && <span className="text-red-600 font-medium">{conflicts.length} 筆同日讀數衝突</span>}
+                {failed.length > 0 && <span className="text-red-600">{failed.length} 筆同步失敗</span>}
+                <div className="ml-auto flex gap-2">
+                    {isOnline && (pending > 0 || failed.length > 0) && (
+                        <button onClick={handleSync} disabled={syncing} className="px-3 py-1 rounded bg-white border border-sky-300 hover:bg-sky-100 disabled:opacity-50">
+                            {syncing ? '同步中...' : '立即同步'}
+                        </button>
+                    )}
+                    {operations.length > 0 && (
+                        <button onClick={() => setShowDetails(prev => !prev)} className="px-3 py-1 rounded hover:bg-white/60">
+                            {showDetails ? '收合' : '查看明細'}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {showDetails && operations.length > 0 && (
+                <div className="mt-2 overflow-x-auto bg-white border border-slate-200 rounded-lg text-slate-700">
+                    <table className="min-w-full text-xs">
+                        <thead className="bg-slate-50 text-slate-500">
+                            <tr>
+                                <th className="px-3 py-2 text-left">類型</th>
+                                <th className="px-3 py-2 text-left">儲槽</th>
+                                <th className="px-3 py-2 text-left">日期</th>
+                                <th className="px-3 py-2 text-left">本機輸入</th>
+                                <th className="px-3 py-2 text-left">伺服器現有</th>
+                                <th className="px-3 py-2 text-right">處理</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {operations.map(op => (
+                                <tr key={op.id} className={op.status === 'CONFLICT' ? 'bg-red-50' : ''}>
+                                    <td className="px-3 py-2 whitespace-nowrap">{op.kind === 'READING' ? '液位' : '叫藥單'}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">{getTankName(op.tankId)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">
+                                        {new Date(op.reading?.timestamp ?? op.deliveryOrder?.requestedAt ?? op.queuedAt).toLocaleDateString()}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap">
+                                        {op.reading ? `${formatReading(op.reading)} (${op.reading.operatorName || '-'})` : `${op.deliveryOrder?.orderedKg?.toLocaleString()} kg`}
+                                        {op.error && <div className="text-red-600">{op.error}</div>}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap">
+                                        {op.conflictWith ? `${formatReading(op.conflictWith)} (${op.conflictWith.operatorName || '-'})` : '-'}
+                                    </td>
+                                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                                        {op.status === 'CONFLICT' ? (
+                                            <>
+                                                <button onClick={() => handleResolve(op, 'KEEP_MINE')} className="text-blue-600 hover:text-blue-900 mr-3">以本機為準</button>
+                                                <button onClick={() => handleResolve(op, 'KEEP_SERVER')} className="text-slate-600 hover:text-slate-900 mr-3">保留伺服器</button>
+                                                <button onClick={() => handleResolve(op, 'KEEP_BOTH')} className="text-slate-600 hover:text-slate-900">兩筆都保留</button>
+                                            </>
+                                        ) : (
+                                            <button onClick={() => handleDiscard(op)} className="text-red-600 hover:text-red-900">捨棄</button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OfflineSyncBanner;
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { StorageService } from '../services/storageService';
+import { PiImportRun, PiImportRunStatus } from '../types';
+
+const STATUS_LABELS: Record<PiImportRunStatus, string> = {
+    RUNNING: '執行中',
+    SUCCESS: '成功',
+    PARTIAL: '部分失敗',
+    FAILED: '失敗'
+};
+
+const STATUS_STYLES: Record<PiImportRunStatus, string> = {
+    RUNNING: 'bg-blue-100 text-blue-700',
+    SUCCESS: 'bg-emerald-100 text-emerald-700',
+    PARTIAL: 'bg-amber-100 text-amber-700',
+    FAILED: 'bg-red-100 text-red-700'
+};
+
+interface PiImportRunsPanelProps {
+    // 變更此值即重新載入 (例如手動匯入完成後)
+    refreshKey?: number;
+}
+
+// PI 匯入執行紀錄：排程 (每週一) 與手動匯入，可展開查看每個 Tag 的取值結果
+export const PiImportRunsPanel: React.FC<PiImportRunsPanelProps> = ({ refreshKey }) => {
+    const [runs, setRuns] = useState<PiImportRun[]>([]);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        StorageService.getPiImportRuns().then(setRuns);
+    }, [refreshKey]);
+
+    if (runs.length === 0) {
+        return <p className="text-xs text-slate-400">尚無匯入紀錄（排程於每週一自動匯入上一週數據）</p>;
+    }
+
+    return (
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="bg-slate-50 text-slate-600 text-left">
+                        <th className="px-3 py-2">執行時間</th>
+                        <th className="px-3 py-2">方式</th>
+                        <th className="px-3 py-2">期間</th>
+                        <th className="px-3 py-2">狀態</th>
+                        <th className="px-3 py-2">Tag</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {runs.map(run => {
+                        const errorCount = run.tagResults.filter(t => t.error).length;
+                        const isExpanded = expandedId === run.id;
+                        return (
+                            <React.Fragment key={run.id}>
+                                <tr className="border-t border-slate-100">
+                                    <td className="px-3 py-2 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                                    <td className="px-3 py-2">{run.trigger === 'SCHEDULED' ? '排程' : `手動 ${run.triggeredBy || ''}`}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">
+                                        {run.periodStart ? new Date(run.periodStart).toLocaleDateString() : '-'}
+                                        {' ~ '}
+                                        {run.periodEnd ? new Date(run.periodEnd).toLocaleDateString() : '-'}
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <span className={`px-2 py-0.5 rounded font-medium ${STATUS_STYLES[run.status]}`} title={run.error || undefined}>
+                                            {STATUS_LABELS[run.status]}
+                                        </span>
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        {run.tagResults.length > 0 ? (
+                                            <button
+                                                onClick={() => setExpandedId(isExpanded ? null : run.id)}
+                                                className="text-brand-600 hover:underline"
+                                            >
+                                                {run.tagResults.length - errorCount}/{run.tagResults.length} {isExpanded ? '▲' : '▼'}
+                                            </button>
+                                        ) : '-'}
+                                    </td>
+                                </tr>
+                                {isExpanded && (
+                                    <tr className="bg-slate-50/60">
+                                        <td colSpan={5} className="px-3 py-2">
+                                            <div className="max-h-48 overflow-y-auto font-mono">
+                                                {run.tagResults.map((t, i) => (
+                                                    <div key={i} className={t.error ? 'text-red-600' : 'text-slate-600'}>
+                                                        {t.week}｜{t.tag} ({t.summaryType})：{t.error ? t.error : t.value.toFixed(2)}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default PiImportRunsPanel;
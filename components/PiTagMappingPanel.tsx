@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import * as API from '../services/apiService';
+import { Tank, SystemType, PiTagMapping, PiTagMeasure, PiTagSystemType } from '../types';
+
+const DEFAULT_PI_BASE_URL = 'https://10.122.51.61/piwebapi';
+
+const MEASURE_LABELS: Record<PiTagMeasure, string> = {
+    steam: '蒸汽量',
+    flow: '循環水量',
+    temp_outlet: '出水溫度',
+    temp_return: '回水溫度',
+    treated_flow: '處理水量'
+};
+
+const MEASURES_BY_SYSTEM: Record<PiTagSystemType, PiTagMeasure[]> = {
+    BWS: ['steam'],
+    CWS: ['flow', 'temp_outlet', 'temp_return'],
+    WWS: ['treated_flow']
+};
+
+const inputClassName = "border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+type TagTestResult = { loading?: boolean; value?: number; error?: string };
+
+interface PiTagMappingPanelProps {
+    tanks: Tank[];
+    piWebApiUrl?: string;
+    piAreaTanks?: Record<string, string[]>;
+    onSettingsChange: (patch: { piWebApiUrl?: string; piAreaTanks?: Record<string, string[]> }) => void;
+}
+
+// PI Tag 對應設定：匯入時依此決定各區域要抓哪些 Tag、統計方式與寫入哪些儲槽
+export const PiTagMappingPanel: React.FC<PiTagMappingPanelProps> = ({ tanks, piWebApiUrl, piAreaTanks = {}, onSettingsChange }) => {
+    const [mappings, setMappings] = useState<PiTagMapping[]>([]);
+    const [baseUrl, setBaseUrl] = useState(piWebApiUrl || DEFAULT_PI_BASE_URL);
+    const [testResults, setTestResults] = useState<Record<string, TagTestResult>>({});
+    const [form, setForm] = useState<{ systemType: PiTagSystemType; area: string; tagName: string; measure: PiTagMeasure; summaryType: 'Total' | 'Average' }>({
+        systemType: 'CWS',
+        area: '',
+        tagName: '',
+        measure: 'flow',
+        summaryType: 'Average'
+    });
+
+    const loadMappings = async () => {
+        setMappings(await StorageService.getPiTagMappings());
+    };
+
+    useEffect(() => {
+        loadMappings();
+    }, []);
+
+    useEffect(() => {
+        setBaseUrl(piWebApiUrl || DEFAULT_PI_BASE_URL);
+    }, [piWebApiUrl]);
+
+    const areas = useMemo(() => {
+        const seen = new Map<string, PiTagSystemType>();
+        mappings.forEach(m => { if (!seen.has(m.area)) seen.set(m.area, m.systemType); });
+        return Array.from(seen.entries()).map(([area, systemType]) => ({ area, systemType }));
+    }, [mappings]);
+
+    const saveSettings = async (patch: { piWebApiUrl?: string; piAreaTanks?: Record<string, string[]> }) => {
+        try {
+            await StorageService.saveAppSettings(patch);
+            onSettingsChange(patch);
+        } catch (e: any) {
+            alert(e.message || '儲存設定失敗');
+        }
+    };
+
+    const handleAdd = async () => {
+        if (!form.area.trim() || !form.tagName.trim()) {
+            alert('請輸入區域與 Tag 名稱');
+            return;
+        }
+        try {
+            await StorageService.savePiTagMapping({ ...form, enabled: true, sortOrder: mappings.length });
+            setForm(prev => ({ ...prev, tagName: '' }));
+            await loadMappings();
+        } catch (e: any) {
+            alert(e.message || '新增 PI Tag 對應失敗');
+        }
+    };
+
+    const handleUpdate = async (mapping: PiTagMapping, patch: Partial<PiTagMapping>) => {
+        try {
+            await StorageService.savePiTagMapping({ ...mapping, ...patch });
+            await loadMappings();
+        } catch (e: any) {
+            alert(e.message || '更新 PI Tag 對應失敗');
+        }
+    };
+
+    const handleDelete = async (mapping: PiTagMapping) => {
+        if (!window.confirm(`確定要刪除 ${mapping.area} 的 ${mapping.tagName} 嗎？`)) return;
+        try {
+            await StorageService.deletePiTagMapping(mapping.id);
+            await loadMappings();
+        } catch (e: any) {
+            alert(e.message || '刪除 PI Tag 對應失敗');
+        }
+    };
+
+    const handleTest = async (mapping: PiTagMapping) => {
+        setTestResults(prev => ({ ...prev, [mapping.id]: { loading: true } }));
+        try {
+            const { value } = await API.testPiTag(baseUrl, mapping.tagName, mapping.summaryType);
+            setTestResults(prev => ({ ...prev, [mapping.id]: { value } }));
+        } catch (e: any) {
+            setTestResults(prev => ({ ...prev, [mapping.id]: { error: e.message || '測試失敗' } }));
+        }
+    };
+
+    const toggleAreaTank = (area: string, tankId: string) => {
+        const current = piAreaTanks[area] || [];
+        const next = current.includes(tankId) ? current.filter(id => id !== tankId) : [...current, tankId];
+        saveSettings({ piAreaTanks: { ...piAreaTanks, [area]: next } });
+    };
+
+    const tanksForSystem = (systemType: PiTagSystemType) => {
+        if (systemType === 'WWS') return tanks.filter(t => t.system === SystemType.WASTEWATER || t.calculationMethod === 'WASTEWATER_DOSE');
+        return tanks.filter(t => t.system === (systemType === 'BWS' ? SystemType.BOILER : SystemType.COOLING));
+    };
+
+    return (
+        <div className="space-y-6">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Icons.Activity className="w-5 h-5 text-brand-600" />
+                PI Tag 對應
+            </h3>
+
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">PI Web API 位址</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={baseUrl}
+                        onChange={e => setBaseUrl(e.target.value)}
+                        className={`${inputClassName} flex-1`}
+                    />
+                    <button
+                        onClick={() => saveSettings({ piWebApiUrl: baseUrl.trim() })}
+                        className="text-sm bg-brand-600 hover:bg-brand-700 text-white px-3 py-2 rounded-lg transition-colors"
+                    >
+                        儲存
+                    </button>
+                </div>
+                <p className="text-xs text-slate-400 mt-1">伺服器若設定 PI_BASE_URL 環境變數，將以環境變數為準</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={form.systemType}
+                    onChange={e => {
+                        const systemType = e.target.value as PiTagSystemType;
+                        setForm(prev => ({
+                            ...prev,
+                            systemType,
+                            measure: MEASURES_BY_SYSTEM[systemType][0],
+                            summaryType: systemType === 'CWS' ? 'Average' : 'Total'
+                        }));
+                    }}
+                    className={inputClassName}
+                >
+                    <option value="CWS">冷卻水 (CWS)</option>
+                    <option value="BWS">鍋爐水 (BWS)</option>
+                    <option value="WWS">廢水 (WWS)</option>
+                </select>
+                <input
+                    type="text"
+                    value={form.area}
+                    onChange={e => setForm(prev => ({ ...prev, area: e.target.value }))}
+                    placeholder="區域 (例: CT-3)"
+                    list="pi-area-options"
+                    className={`${inputClassName} w-32`}
+                />
+                <datalist id="pi-area-options">
+                    {areas.map(a => <option key={a.area} value={a.area} />)}
+                </datalist>
+                <input
+                    type="text"
+                    value={form.tagName}
+                    onChange={e => setForm(prev => ({ ...prev, tagName: e.target.value }))}
+                    placeholder="Tag (例: W52_FI-CW56-Z.PV)"
+                    className={`${inputClassName} flex-1 min-w-[200px]`}
+                />
+                <select
+                    value={form.measure}
+                    onChange={e => setForm(prev => ({ ...prev, measure: e.target.value as PiTagMeasure }))}
+                    className={inputClassName}
+                >
+                    {MEASURES_BY_SYSTEM[form.systemType].map(m => <option key={m} value={m}>{MEASURE_LABELS[m]}</option>)}
+                </select>
+                <select
+                    value={form.summaryType}
+                    onChange={e => setForm(prev => ({ ...prev, summaryType: e.target.value as 'Total' | 'Average' }))}
+                    className={inputClassName}
+                >
+                    <option value="Average">Average</option>
+                    <option value="Total">Total</option>
+                </select>
+                <button
+                    onClick={handleAdd}
+                    className="flex items-center text-sm bg-brand-600 hover:bg-brand-700 text-white px-3 py-2 rounded-lg transition-colors"
+                >
+                    <Icons.Plus className="w-4 h-4 mr-1" />
+                    新增
+                </button>
+            </div>
+
+            {areas.length === 0 && <p className="text-sm text-slate-400 text-center py-4">尚無 PI Tag 對應</p>}
+
+            {areas.map(({ area, systemType }) => {
+                const areaMappings = mappings.filter(m => m.area === area);
+                const assignedTankIds = piAreaTanks[area] || [];
+                return (
+                    <div key={area} className="border border-slate-200 rounded-lg overflow-hidden">
+                        <div className="bg-slate-50 px-4 py-2 flex items-center justify-between">
+                            <span className="font-bold text-slate-700">{area} <span className="text-xs font-normal text-slate-400">{systemType}</span></span>
+                        </div>
+                        <div className="px-4 py-2 border-b border-slate-100 flex flex-wrap items-center gap-3 text-xs">
+                            <span className="text-slate-500">對應儲槽：</span>
+                            {tanksForSystem(systemType).map(t => (
+                                <label key={t.id} className="flex items-center gap-1 text-slate-600">
+                                    <input
+                                        type="checkbox"
+                                        checked={assignedTankIds.includes(t.id)}
+                                        onChange={() => toggleAreaTank(area, t.id)}
+                                    />
+                                    {t.name}
+                                </label>
+                            ))}
+                            {assignedTankIds.length === 0 && (
+                                <span className="text-slate-400">{systemType === 'WWS' ? '(未勾選時套用所有廢水加藥儲槽)' : '(未勾選時依儲槽名稱自動判斷)'}</span>
+                            )}
+                        </div>
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {areaMappings.map(m => {
+                                    const test = testResults[m.id];
+                                    return (
+                                        <tr key={m.id} className="border-t border-slate-100 first:border-t-0">
+                                            <td className="px-4 py-2 font-mono text-slate-700">{m.tagName}</td>
+                                            <td className="px-4 py-2 text-slate-500">{MEASURE_LABELS[m.measure]}</td>
+                                            <td className="px-4 py-2">
+                                                <select
+                                                    value={m.summaryType}
+                                                    onChange={e => handleUpdate(m, { summaryType: e.target.value as 'Total' | 'Average' })}
+                                                    className="border border-slate-200 rounded px-2 py-1 text-xs"
+                                                >
+                                                    <option value="Average">Average</option>
+                                                    <option value="Total">Total</option>
+                                                </select>
+                                            </td>
+                                            <td className="px-4 py-2">
+                                                <label className="flex items-center gap-1 text-xs text-slate-600">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={m.enabled}
+                                                        onChange={e => handleUpdate(m, { enabled: e.target.checked })}
+                                                    />
+                                                    啟用
+                                                </label>
+                                            </td>
+                                            <td className="px-4 py-2 text-xs">
+                                                <button
+                                                    onClick={() => handleTest(m)}
+                                                    disabled={test?.loading}
+                                                    className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-2 py-1 rounded transition-colors"
+                                                >
+                                                    {test?.loading ? '測試中...' : '測試 Tag'}
+                                                </button>
+                                                {test && !test.loading && (
+                                                    <span className={`ml-2 ${test.error ? 'text-red-600' : 'text-emerald-700'}`}>
+                                                        {test.error ? test.error : `近 7 天 ${m.summaryType}: ${test.value?.toFixed(2)}`}
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-2 text-right">
+                                                <button
+                                                    onClick={() => handleDelete(m)}
+                                                    className="text-red-500 hover:bg-red-50 p-1 rounded transition-colors"
+                                                    title="刪除"
+                                                >
+                                                    <Icons.Delete className="w-4 h-4" />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default PiTagMappingPanel;
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { Tank, RecycleBinItem, RecycleBinEntityType } from '../types';
+
+const ENTITY_LABELS: Record<RecycleBinEntityType, string> = {
+    tank: '儲槽',
+    reading: '液位紀錄',
+    supply: '藥劑合約',
+    note: '重要紀事'
+};
+
+// 依項目類型組出可辨識的說明文字 (data 為後端原始資料列)
+const describeItem = (item: RecycleBinItem) => {
+    const d = item.data;
+    switch (item.entityType) {
+        case 'tank': return d.name;
+        case 'reading': return `${new Date(Number(d.timestamp)).toLocaleString()}｜${d.level_cm} cm`;
+        case 'supply': return `${d.supplier_name || ''} ${d.chemical_name || ''}｜${new Date(Number(d.start_date)).toLocaleDateString()} 起`;
+        case 'note': return `${d.date_str}｜${d.area || ''} ${d.note || ''}`;
+        default: return item.entityId;
+    }
+};
+
+interface RecycleBinPanelProps {
+    tanks: Tank[];
+    onRestored?: () => void;
+}
+
+// 資源回收筒 (僅管理者可見)：刪除的儲槽、液位紀錄、合約與紀事可還原，超過保留期限後可永久清除
+export const RecycleBinPanel: React.FC<RecycleBinPanelProps> = ({ tanks, onRestored }) => {
+    const [items, setItems] = useState<RecycleBinItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState(30);
+    const [filterType, setFilterType] = useState<RecycleBinEntityType | ''>('');
+
+    const loadItems = async () => {
+        const result = await StorageService.getRecycleBin();
+        setItems(result.items);
+        setRetentionDays(result.retentionDays);
+    };
+
+    useEffect(() => {
+        loadItems();
+    }, []);
+
+    const getTankName = (tankId?: string | null) => tankId ? (tanks.find(t => t.id === tankId)?.name || tankId) : '-';
+    const visibleItems = filterType ? items.filter(i => i.entityType === filterType) : items;
+    const expiredCount = items.filter(i => i.purgeableAt <= Date.now()).length;
+
+    const handleRestore = async (item: RecycleBinItem) => {
+        try {
+            await StorageService.restoreRecycleBinItem(item);
+            await loadItems();
+            onRestored?.();
+        } catch (e: any) {
+            alert(e.message || '還原項目失敗');
+        }
+    };
+
+    const handlePurge = async (item: RecycleBinItem) => {
+        const warning = item.entityType === 'tank' ? '\n(將一併移除此儲槽的所有歷史紀錄)' : '';
+        if (!window.confirm(`確定要永久刪除此${ENTITY_LABELS[item.entityType]}嗎？此動作無法復原。${warning}`)) return;
+        try {
+            await StorageService.purgeRecycleBinItem(item);
+            await loadItems();
+        } catch (e: any) {
+            alert(e.message || '永久刪除失敗');
+        }
+    };
+
+    const handlePurgeExpired = async () => {
+        if (!window.confirm(`確定要永久刪除 ${expiredCount} 筆已超過 ${retentionDays} 天保留期限的項目嗎？`)) return;
+        try {
+            const count = await StorageService.purgeExpiredRecycleBin();
+            alert(`已永久刪除 ${count} 筆項目`);
+            await loadItems();
+        } catch (e: any) {
+            alert(e.message || '清除逾期項目失敗');
+        }
+    };
+
+    return (
+        <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <Icons.Delete className="w-5 h-5 text-slate-500" />
+                    <h2 className="text-lg font-bold text-slate-700">資源回收筒</h2>
+                    <span className="text-xs text-slate-400">保留 {retentionDays} 天後可永久刪除</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={filterType}
+                        onChange={e => setFilterType(e.target.value as RecycleBinEntityType | '')}
+                        className="border border-slate-200 rounded-lg px-3 py-1.5 text-sm"
+                    >
+                        <option value="">全部類型</option>
+                        {(Object.keys(ENTITY_LABELS) as RecycleBinEntityType[]).map(t => (
+                            <option key={t} value={t}>{ENTITY_LABELS[t]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handlePurgeExpired}
+                        disabled={expiredCount === 0}
+                        className="text-sm text-red-600 hover:bg-red-50 disabled:text-slate-300 disabled:hover:bg-transparent px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                        清除逾期項目 ({expiredCount})
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-6 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="bg-slate-50 text-slate-600 text-left">
+                            <th className="px-3 py-2">類型</th>
+                            <th className="px-3 py-2">儲槽</th>
+                            <th className="px-3 py-2">內容</th>
+                            <th className="px-3 py-2">刪除時間</th>
+                            <th className="px-3 py-2">刪除者</th>
+                            <th className="px-3 py-2">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleItems.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="px-3 py-6 text-center text-slate-400">資源回收筒是空的</td>
+                            </tr>
+                        )}
+                        {visibleItems.map(item => {
+                            const canPurge = item.purgeableAt <= Date.now();
+                            return (
+                                <tr key={`${item.entityType}-${item.entityId}`} className="border-t border-slate-100">
+                                    <td className="px-3 py-2">{ENTITY_LABELS[item.entityType]}</td>
+                                    <td className="px-3 py-2 font-medium text-slate-700">{getTankName(item.tankId)}</td>
+                                    <td className="px-3 py-2 text-slate-600">{describeItem(item)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">{new Date(item.deletedAt).toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-slate-500">{item.deletedBy || '-'}</td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex gap-1">
+                                            <button
+                                                onClick={() => handleRestore(item)}
+                                                className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-700 px-2 py-1 rounded transition-colors"
+                                            >
+                                                還原
+                                            </button>
+                                            <button
+                                                onClick={() => handlePurge(item)}
+                                                disabled={!canPurge}
+                                                className="text-xs text-red-500 hover:bg-red-50 disabled:text-slate-300 disabled:hover:bg-transparent px-2 py-1 rounded transition-colors"
+                                                title={canPurge ? '永久刪除' : `${new Date(item.purgeableAt).toLocaleDateString()} 後可永久刪除`}
+                                            >
+                                                永久刪除
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+};
+
+export default RecycleBinPanel;
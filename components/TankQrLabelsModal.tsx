@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import QRCode from 'qrcode';
+import { Icons } from './Icons';
+import { Tank } from '../types';
+
+// 儲槽數據輸入深層連結，App 解析 #entry?tank=<id> 後預選該槽並帶入今日日期
+export const buildTankEntryLink = (tankId: string) =>
+    `${window.location.origin}${window.location.pathname}#entry?tank=${encodeURIComponent(tankId)}`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+interface TankQrLabelsModalProps {
+    tanks: Tank[];
+    onClose: () => void;
+}
+
+// 儲槽 QR 標籤：預覽後開新視窗列印 (A4 三欄)，現場以手機掃描直接開啟該槽輸入畫面
+export const TankQrLabelsModal: React.FC<TankQrLabelsModalProps> = ({ tanks, onClose }) => {
+    const orderedTanks = useMemo(
+        () => [...tanks].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name)),
+        [tanks]
+    );
+    const [qrImages, setQrImages] = useState<Record<string, string>>({});
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(tanks.map(t => t.id)));
+
+    useEffect(() => {
+        let isMounted = true;
+        Promise.all(orderedTanks.map(async tank =>
+            [tank.id, await QRCode.toDataURL(buildTankEntryLink(tank.id), { margin: 1, width: 240, errorCorrectionLevel: 'M' })] as const
+        )).then(entries => {
+            if (isMounted) setQrImages(Object.fromEntries(entries));
+        }).catch(err => console.error('Failed to generate QR codes:', err));
+        return () => { isMounted = false; };
+    }, [orderedTanks]);
+
+    const toggleTank = (tankId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(tankId)) next.delete(tankId); else next.add(tankId);
+            return next;
+        });
+    };
+
+    const handlePrint = () => {
+        const labels = orderedTanks.filter(t => selectedIds.has(t.id) && qrImages[t.id]);
+        if (labels.length === 0) {
+            alert('請至少選擇一個儲槽');
+            return;
+        }
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            alert('無法開啟列印視窗，請允許此網站開啟彈出式視窗');
+            return;
+        }
+        printWindow.document.write(`<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>儲槽 QR 標籤</title>
+<style>
+    @page { size: A4; margin: 10mm; }
+    body { font-family: sans-serif; margin: 0; }
+    .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6mm; }
+    .label { border: 1px dashed #999; padding: 4mm; text-align: center; break-inside: avoid; }
+    .label img { width: 45mm; height: 45mm; }
+    .name { font-size: 14pt; font-weight: bold; margin-top: 2mm; }
+    .meta { font-size: 9pt; color: #555; }
+</style></head><body>
+<div class="grid">
+${labels.map(t => `<div class="label"><img src="${qrImages[t.id]}" /><div class="name">${escapeHtml(t.name)}</div><div class="meta">${escapeHtml(t.system)}・掃描輸入液位</div></div>`).join('\n')}
+</div>
+<script>window.onload = function () { window.print(); };</script>
+</body></html>`);
+        printWindow.document.close();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full mx-4 overflow-hidden flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="px-6 py-4 border-b flex justify-between items-center">
+                    <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <Icons.QrCode className="w-5 h-5 text-brand-600" />
+                        列印儲槽 QR 標籤
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl font-semibold leading-none">&times;</button>
+                </div>
+                <div className="px-6 py-3 border-b flex items-center gap-4 text-sm text-slate-600">
+                    <span>已選 {selectedIds.size} / {orderedTanks.length} 槽</span>
+                    <button onClick={() => setSelectedIds(new Set(orderedTanks.map(t => t.id)))} className="text-blue-600 hover:text-blue-800">全選</button>
+                    <button onClick={() => setSelectedIds(new Set())} className="text-slate-500 hover:text-slate-700">全不選</button>
+                    <span className="ml-auto text-xs text-slate-400">掃描後開啟數據輸入並預選該槽 (需具操作員權限)</span>
+                </div>
+                <div className="p-6 overflow-y-auto grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {orderedTanks.map(tank => (
+                        <label key={tank.id} className={`border rounded-lg p-3 text-center cursor-pointer ${selectedIds.has(tank.id) ? 'border-brand-500 bg-brand-50' : 'border-slate-200 opacity-60'}`}>
+                            <input type="checkbox" checked={selectedIds.has(tank.id)} onChange={() => toggleTank(tank.id)} className="sr-only" />
+                            {qrImages[tank.id]
+                                ? <img src={qrImages[tank.id]} alt={tank.name} className="w-28 h-28 mx-auto" />
+                                : <div className="w-28 h-28 mx-auto bg-slate-100 animate-pulse rounded" />}
+                            <div className="text-sm font-bold text-slate-800 mt-2 truncate" title={tank.name}>{tank.name}</div>
+                            <div className="text-xs text-slate-400">{tank.system}</div>
+                        </label>
+                    ))}
+                </div>
+                <div className="px-6 py-4 border-t flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm bg-slate-100 text-slate-700 hover:bg-slate-200">取消</button>
+                    <button onClick={handlePrint} className="px-4 py-2 rounded-lg text-sm bg-brand-600 text-white hover:bg-brand-700 flex items-center gap-2">
+                        <Icons.Download className="w-4 h-4" /> 列印標籤
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TankQrLabelsModal;
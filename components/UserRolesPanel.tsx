@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { UserRole, UserRoleAssignment } from '../types';
+import { USER_ROLE_LABELS } from '../utils/permissionUtils';
+
+const ROLE_OPTIONS = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+// 角色權限設定 (僅管理者可見)：未指定的已登入使用者預設為操作員，PIMCP 管理者一律為管理者
+export const UserRolesPanel: React.FC = () => {
+    const [assignments, setAssignments] = useState<UserRoleAssignment[]>([]);
+    const [newUsername, setNewUsername] = useState('');
+    const [newRole, setNewRole] = useState<UserRole>('engineer');
+
+    const loadAssignments = async () => {
+        setAssignments(await StorageService.getUserRoles());
+    };
+
+    useEffect(() => {
+        loadAssignments();
+    }, []);
+
+    const handleSave = async (username: string, role: UserRole) => {
+        if (!username.trim()) {
+            alert('請輸入帳號');
+            return;
+        }
+        try {
+            await StorageService.saveUserRole(username.trim(), role);
+            setNewUsername('');
+            await loadAssignments();
+        } catch (e: any) {
+            alert(e.message || '更新角色失敗');
+        }
+    };
+
+    const handleDelete = async (username: string) => {
+        if (!window.confirm(`確定要移除 ${username} 的角色設定嗎？(將恢復為操作員)`)) return;
+        try {
+            await StorageService.deleteUserRole(username);
+            await loadAssignments();
+        } catch (e: any) {
+            alert(e.message || '刪除角色失敗');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Icons.User className="w-5 h-5 text-brand-600" />
+                角色權限
+            </h3>
+            <p className="text-xs text-slate-400">
+                操作員：液位 / 水質 / 紀事輸入；工程師：儲槽、合約、參數與匯入；管理者：刪除儲槽與角色管理。未設定者預設為操作員。
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="text"
+                    value={newUsername}
+                    onChange={e => setNewUsername(e.target.value)}
+                    placeholder="帳號 (例: A12345)"
+                    className="flex-1 min-w-[160px] border border-slate-200 rounded-lg px-3 py-2 text-sm"
+                />
+                <select
+                    value={newRole}
+                    onChange={e => setNewRole(e.target.value as UserRole)}
+                    className="border border-slate-200 rounded-lg px-3 py-2 text-sm"
+                >
+                    {ROLE_OPTIONS.map(r => <option key={r} value={r}>{USER_ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                    onClick={() => handleSave(newUsername, newRole)}
+                    className="flex items-center text-sm bg-brand-600 hover:bg-brand-700 text-white px-3 py-2 rounded-lg transition-colors"
+                >
+                    <Icons.Plus className="w-4 h-4 mr-1" />
+                    新增
+                </button>
+            </div>
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="bg-slate-50 text-slate-600 text-left">
+                        <th className="px-3 py-2">帳號</th>
+                        <th className="px-3 py-2">角色</th>
+                        <th className="px-3 py-2">設定者</th>
+                        <th className="px-3 py-2"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {assignments.length === 0 && (
+                        <tr>
+                            <td colSpan={4} className="px-3 py-4 text-center text-slate-400">尚無角色設定</td>
+                        </tr>
+                    )}
+                    {assignments.map(a => (
+                        <tr key={a.username} className="border-t border-slate-100">
+                            <td className="px-3 py-2 font-medium text-slate-700">{a.username}</td>
+                            <td className="px-3 py-2">
+                                <select
+                                    value={a.role}
+                                    onChange={e => handleSave(a.username, e.target.value as UserRole)}
+                                    className="border border-slate-200 rounded px-2 py-1 text-sm"
+                                >
+                                    {ROLE_OPTIONS.map(r => <option key={r} value={r}>{USER_ROLE_LABELS[r]}</option>)}
+                                </select>
+                            </td>
+                            <td className="px-3 py-2 text-slate-500">{a.updatedBy || '-'}</td>
+                            <td className="px-3 py-2 text-right">
+                                <button
+                                    onClick={() => handleDelete(a.username)}
+                                    className="text-red-500 hover:bg-red-50 p-1 rounded transition-colors"
+                                    title="移除"
+                                >
+                                    <Icons.Delete className="w-4 h-4" />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default UserRolesPanel;
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { StorageService } from '../services/storageService';
+import { Tank, SystemType, WastewaterParameterRecord } from '../types';
+import { calculateWastewaterDemandKg } from '../utils/calculationUtils';
+
+const inputClassName = "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+type WastewaterForm = {
+    id?: string;
+    dateStr: string;
+    treatedFlow: string;
+    doseRatio: string;
+    flowSource: 'MANUAL' | 'PI';
+};
+
+const todayStr = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+const emptyForm = (): WastewaterForm => ({ dateStr: todayStr(), treatedFlow: '', doseRatio: '', flowSource: 'MANUAL' });
+
+interface WastewaterParamsPanelProps {
+    tanks: Tank[];
+}
+
+// 廢水每週處理水量與杯瓶試驗加藥比 (mg/L)：混凝劑、高分子、pH 調整劑理論用量的計算依據
+// 處理水量可於「參數設定 → PI Tag 對應」設定 WWS Tag 後由 PI 匯入，加藥比沿用前一筆
+export const WastewaterParamsPanel: React.FC<WastewaterParamsPanelProps> = ({ tanks }) => {
+    const wastewaterTanks = tanks.filter(t => t.calculationMethod === 'WASTEWATER_DOSE' || t.system === SystemType.WASTEWATER);
+    const [tankId, setTankId] = useState('');
+    const [history, setHistory] = useState<WastewaterParameterRecord[]>([]);
+    const [form, setForm] = useState<WastewaterForm>(emptyForm);
+    const [saving, setSaving] = useState(false);
+
+    const loadHistory = async (id: string) => {
+        setHistory(id ? await StorageService.getWastewaterParamsHistory(id) : []);
+    };
+
+    useEffect(() => {
+        if (!tankId && wastewaterTanks.length > 0) setTankId(wastewaterTanks[0].id);
+    }, [wastewaterTanks.length]);
+
+    useEffect(() => {
+        loadHistory(tankId);
+        setForm(emptyForm());
+    }, [tankId]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!tankId || !form.dateStr) return;
+        const record: WastewaterParameterRecord = {
+            id: form.id,
+            tankId,
+            treatedFlow: Number(form.treatedFlow),
+            doseRatio: Number(form.doseRatio),
+            flowSource: form.flowSource,
+            date: new Date(`${form.dateStr}T00:00:00`).getTime()
+        };
+        setSaving(true);
+        try {
+            if (form.id) {
+                await StorageService.updateWastewaterParamRecord(record);
+            } else {
+                await StorageService.saveWastewaterParam(record);
+            }
+            await loadHistory(tankId);
+            setForm(prev => ({ ...emptyForm(), doseRatio: prev.doseRatio }));
+        } catch (err: any) {
+            alert(err.message || '儲存廢水參數失敗');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleEdit = (item: WastewaterParameterRecord) => {
+        setForm({
+            id: item.id,
+            dateStr: item.date ? new Date(item.date).toLocaleDateString('sv-SE') : todayStr(),
+            treatedFlow: String(item.treatedFlow),
+            doseRatio: String(item.doseRatio),
+            flowSource: item.flowSource || 'MANUAL'
+        });
+    };
+
+    const handleDelete = async (item: WastewaterParameterRecord) => {
+        if (!item.id || !window.confirm('確定要刪除此筆廢水參數嗎？')) return;
+        try {
+            await StorageService.deleteWastewaterParamRecord(item.id);
+            await loadHistory(tankId);
+        } catch (err: any) {
+            alert(err.message || '刪除失敗');
+        }
+    };
+
+    return (
+        <section className="bg-white rounded-xl shadow-sm border border-slate-200 border-t-4 border-t-teal-500 overflow-hidden">
+            <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex items-center gap-3">
+                <Icons.Droplet className="w-5 h-5 text-teal-600" />
+                <h2 className="text-lg font-bold text-slate-700">廢水處理數據 (每週)</h2>
+            </div>
+
+            <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">1. 選擇儲槽</label>
+                        <select value={tankId} onChange={e => setTankId(e.target.value)} className={inputClassName} required>
+                            <option value="">-- 請選擇 --</option>
+                            {wastewaterTanks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                        {wastewaterTanks.length === 0 && (
+                            <p className="text-xs text-amber-600 mt-1">尚無廢水儲槽，請於儲槽設定將計算模式設為「廢水處理」</p>
+                        )}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">2. 週起始日</label>
+                        <input type="date" value={form.dateStr} onChange={e => setForm(prev => ({ ...prev, dateStr: e.target.value }))} className={inputClassName} required />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">週處理水量 (m³/Week)</label>
+                        <input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={form.treatedFlow}
+                            onChange={e => setForm(prev => ({ ...prev, treatedFlow: e.target.value, flowSource: 'MANUAL' }))}
+                            className={inputClassName}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">杯瓶試驗加藥比 (mg/L)</label>
+                        <input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={form.doseRatio}
+                            onChange={e => setForm(prev => ({ ...prev, doseRatio: e.target.value }))}
+                            className={inputClassName}
+                            required
+                        />
+                    </div>
+                    <div className="flex gap-2 pt-2">
+                        <button
+                            type="submit"
+                            disabled={saving || !tankId}
+                            className="flex-1 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white text-sm font-medium py-2 rounded-lg transition-colors"
+                        >
+                            {form.id ? '更新廢水參數' : '儲存廢水參數'}
+                        </button>
+                        {form.id && (
+                            <button type="button" onClick={() => setForm(emptyForm())} className="px-4 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+                                取消編輯
+                            </button>
+                        )}
+                    </div>
+                </form>
+
+                <div className="lg:col-span-2 overflow-x-auto border border-slate-200 rounded-lg max-h-[500px] overflow-y-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-50 sticky top-0 text-xs text-slate-500">
+                            <tr>
+                                <th className="px-3 py-2 text-left">週起始日</th>
+                                <th className="px-3 py-2 text-right">處理水量 (m³)</th>
+                                <th className="px-3 py-2 text-center">來源</th>
+                                <th className="px-3 py-2 text-right">加藥比 (mg/L)</th>
+                                <th className="px-3 py-2 text-right">週理論用量 (kg)</th>
+                                <th className="px-3 py-2 text-right">操作</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {history.length === 0 && (
+                                <tr><td colSpan={6} className="px-3 py-6 text-center text-slate-400">尚無廢水參數紀錄</td></tr>
+                            )}
+                            {history.map(item => (
+                                <tr key={item.id} className={`hover:bg-slate-50 ${item.id === form.id ? 'bg-teal-50' : ''}`}>
+                                    <td className="px-3 py-2 text-slate-900">{item.date ? new Date(item.date).toLocaleDateString() : '-'}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{item.treatedFlow.toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-center">
+                                        <span className={`text-xs px-2 py-0.5 rounded ${item.flowSource === 'PI' ? 'bg-sky-100 text-sky-700' : 'bg-slate-100 text-slate-600'}`}>
+                                            {item.flowSource === 'PI' ? 'PI' : '手動'}
+                                        </span>
+                                    </td>
+                                    <td className="px-3 py-2 text-right font-mono">{item.doseRatio || <span className="text-amber-600">未填</span>}</td>
+                                    <td className="px-3 py-2 text-right font-mono font-bold text-teal-700">{calculateWastewaterDemandKg(item).toFixed(1)}</td>
+                                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                                        <button onClick={() => handleEdit(item)} className="text-blue-600 hover:text-blue-900 mr-3">編輯</button>
+                                        <button onClick={() => handleDelete(item)} className="text-red-600 hover:text-red-900">刪除</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default WastewaterParamsPanel;
@@ -13,4 +13,13 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// 現場離線使用：註冊 Service Worker 快取畫面與資料 (僅正式版；瀏覽器僅允許 HTTPS 或 localhost 註冊)
+if (import.meta.env.PROD && 'serviceWorker' in navigator && window.isSecureContext) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err => {
+      console.error('Service worker registration failed:', err);
+    });
+  });
+}
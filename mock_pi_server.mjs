@@ -0,0 +1,119 @@
+// 本機 PI Web API 模擬伺服器 (測試排程 / 手動 PI 匯入用，不需連線廠內 PI)
+//
+// 用法:
+//   node mock_pi_server.mjs                      (預設 http://localhost:3099/piwebapi)
+//   PI_BASE_URL=http://localhost:3099/piwebapi PI_FETCH_MODE=http node server.js
+//   再呼叫 POST /api/pi-import/run-scheduled {"force": true} 或 POST /api/pi-import
+//
+// 環境變數:
+//   MOCK_PI_PORT          監聽埠 (預設 3099)
+//   MOCK_PI_MISSING_TAGS  以逗號分隔，模擬查無此 Tag (例: W52_FI-MS27-D.PV)
+//   MOCK_PI_FAIL_SUMMARY  以逗號分隔，模擬該 Tag 的 summary 回傳 HTTP 500
+//
+// 數值依 Tag 名稱與起始時間產生，同一時段重複查詢結果相同，方便驗證匯入是否冪等。
+import http from 'http';
+
+const PORT = Number(process.env.MOCK_PI_PORT || 3099);
+const BASE_PATH = '/piwebapi';
+const SERVER_WEB_ID = 'MOCK-DATASERVER';
+
+const toList = (value) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+const missingTags = new Set(toList(process.env.MOCK_PI_MISSING_TAGS));
+const failingTags = new Set(toList(process.env.MOCK_PI_FAIL_SUMMARY));
+
+const hash = (text) => {
+    let h = 0;
+    for (const ch of text) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+    return h;
+};
+
+const toWebId = (tagName) => 'P-' + Buffer.from(tagName).toString('base64url');
+const fromWebId = (webId) => Buffer.from(webId.slice(2), 'base64url').toString();
+
+// 依 Tag 類型給出合理範圍的模擬值
+const mockValue = (tagName, startTime) => {
+    const jitter = (hash(tagName + startTime) % 1000) / 1000;
+    if (tagName.includes('FI-MS27')) return 35 + jitter * 10;        // 蒸汽量 (Total)
+    if (tagName.includes('TI-') && tagName.includes('76')) return 36 + jitter * 3; // 回水溫度
+    if (tagName.includes('TI-') || tagName.includes('AC77')) return 30 + jitter * 2; // 出水溫度
+    if (tagName.includes('FI-CW')) return 2000 + jitter * 500;       // 循環水量
+    return jitter * 100;
+};
+
+// 回傳 { Status, Content }，與 PI Web API batch 回應格式一致
+const resolveResource = (resource) => {
+    const url = new URL(resource, `http://localhost:${PORT}`);
+    const path = url.pathname.startsWith(BASE_PATH) ? url.pathname.slice(BASE_PATH.length) : url.pathname;
+
+    if (path === '/dataservers') {
+        return { Status: 200, Content: { Items: [{ WebId: SERVER_WEB_ID, Name: 'MOCK' }] } };
+    }
+
+    const pointsMatch = path.match(/^\/dataservers\/([^/]+)\/points$/);
+    if (pointsMatch) {
+        const tagName = url.searchParams.get('nameFilter') || '';
+        const items = missingTags.has(tagName) ? [] : [{ WebId: toWebId(tagName), Name: tagName }];
+        return { Status: 200, Content: { Items: items } };
+    }
+
+    const summaryMatch = path.match(/^\/streams\/([^/]+)\/summary$/);
+    if (summaryMatch) {
+        const tagName = fromWebId(summaryMatch[1]);
+        if (failingTags.has(tagName)) {
+            return { Status: 500, Content: { Errors: [`Mock failure for ${tagName}`] } };
+        }
+        const startTime = url.searchParams.get('startTime') || '';
+        const summaryType = url.searchParams.get('summaryType') || 'Average';
+        return {
+            Status: 200,
+            Content: {
+                Items: [{
+                    Type: summaryType,
+                    Value: { Timestamp: startTime, Value: mockValue(tagName, startTime), Good: true }
+                }]
+            }
+        };
+    }
+
+    return { Status: 404, Content: { Errors: [`Unknown resource: ${path}`] } };
+};
+
+const sendJson = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+    if (req.method === 'POST' && req.url === `${BASE_PATH}/batch`) {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            try {
+                const batch = JSON.parse(raw || '{}');
+                const response = {};
+                for (const [key, entry] of Object.entries(batch)) {
+                    response[key] = entry.Method === 'GET'
+                        ? resolveResource(entry.Resource)
+                        : { Status: 405, Content: { Errors: ['Only GET is supported by the mock'] } };
+                }
+                console.log(`[Mock PI] batch ${Object.keys(batch).length} requests`);
+                sendJson(res, 207, response);
+            } catch (err) {
+                sendJson(res, 400, { Errors: [err.message] });
+            }
+        });
+        return;
+    }
+
+    if (req.method === 'GET') {
+        const result = resolveResource(req.url);
+        sendJson(res, result.Status, result.Content);
+        return;
+    }
+
+    sendJson(res, 405, { Errors: ['Method not allowed'] });
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock PI Web API running at http://localhost:${PORT}${BASE_PATH}`);
+});
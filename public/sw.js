@@ -0,0 +1,74 @@
+// WTCA Service Worker - 現場離線使用：快取程式畫面與儲槽 / 液位 / 合約 / 設定資料
+// 寫入類請求不經過快取；離線時新增的資料由前端存入 IndexedDB 佇列 (services/offlineQueue.ts)，連線恢復後同步
+
+const CACHE_VERSION = 'wtca-v1';
+const SHELL_CACHE = `${CACHE_VERSION}-shell`;
+const API_CACHE = `${CACHE_VERSION}-api`;
+
+const SCOPE_PATH = new URL(self.registration.scope).pathname; // 例如 /WTCA/
+const API_PATH = `${SCOPE_PATH}api/`;
+
+// 離線時可讀取最後一次成功載入的資料 (網路優先)
+const CACHED_API_PREFIXES = ['tanks', 'readings', 'supplies', 'settings'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then(cache => cache.add(SCOPE_PATH))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => !key.startsWith(CACHE_VERSION)).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+    } catch (err) {
+        const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+        if (cached) return cached;
+        throw err;
+    }
+};
+
+// 打包後的靜態檔名含 hash，快取優先即可
+const cacheFirst = async (request) => {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin || !url.pathname.startsWith(SCOPE_PATH)) return;
+
+    if (url.pathname.startsWith(API_PATH)) {
+        const resource = url.pathname.slice(API_PATH.length);
+        if (CACHED_API_PREFIXES.some(prefix => resource === prefix || resource.startsWith(`${prefix}/`))) {
+            event.respondWith(networkFirst(request, API_CACHE));
+        }
+        return; // 其餘 API (含 /api/events 串流) 直接連線
+    }
+
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request, SHELL_CACHE, SCOPE_PATH));
+        return;
+    }
+
+    event.respondWith(cacheFirst(request));
+});
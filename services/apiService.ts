@@ -1,5 +1,5 @@
 // API 服務層 - 連接到後端 PostgreSQL API
-import type { InstrumentConsumableOpening, InstrumentManagementConfig, LiteInventoryItem } from '../types';
+import type { InstrumentConsumableOpening, InstrumentManagementConfig, LiteInventoryItem, LiveEvent, LiveEventType, UserRole } from '../types';
 
 // 根據環境自動選擇 API 基礎路徑
 // 開發環境: 指向生產伺服器 API（因為本地無法連接資料庫）
@@ -8,6 +8,18 @@ const isDev = window.location.hostname === 'localhost' && window.location.port !
 // Use relative path for both Dev (via Proxy) and Prod
 const API_BASE_URL = '/WTCA/api';
 
+// 寫入類 API 皆帶上 X-User-Id 作為身分提示；後端以 IIS 驗證帳號判定角色權限 (operator / engineer / admin)，不一致時忽略此 header
+export const getUnifiedUserHeaders = (): HeadersInit => {
+    const userId =
+        localStorage.getItem('unified_user_name') ||
+        localStorage.getItem('pages_manual_user') ||
+        localStorage.getItem('appUserName') ||
+        '';
+    // Fetch headers can only carry ISO-8859-1 compatible values. The unified header may
+    // store a Chinese display name, which is not a permission identifier and breaks fetch.
+    return userId && /^[\x20-\x7E]+$/.test(userId) ? { 'X-User-Id': userId } : {};
+};
+
 // ==================== App Settings ====================
 
 export const fetchAppSettings = async (): Promise<any> => {
@@ -29,6 +41,7 @@ export const saveAppSettings = async (settings: any): Promise<any> => {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
+                ...getUnifiedUserHeaders()
             },
             body: JSON.stringify(settings),
         });
@@ -53,7 +66,7 @@ export const fetchTanks = async (): Promise<any[]> => {
 export const createTank = async (tank: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/tanks`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(tank)
     });
     if (!response.ok) throw new Error('Failed to create tank');
@@ -63,7 +76,7 @@ export const createTank = async (tank: any): Promise<any> => {
 export const createTanksBatch = async (tanks: any[]): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/tanks/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(tanks)
     });
     if (!response.ok) throw new Error('Failed to create tanks batch');
@@ -73,7 +86,7 @@ export const createTanksBatch = async (tanks: any[]): Promise<any> => {
 export const updateTank = async (id: string, tank: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/tanks/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(tank)
     });
     if (!response.ok) throw new Error('Failed to update tank');
@@ -82,7 +95,8 @@ export const updateTank = async (id: string, tank: any): Promise<any> => {
 
 export const deleteTank = async (id: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/tanks/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete tank');
     return await response.json();
@@ -91,7 +105,7 @@ export const deleteTank = async (id: string): Promise<any> => {
 export const reorderTanks = async (updates: { id: string, sort_order: number }[]): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/tanks-reorder`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ updates })
     });
     if (!response.ok) throw new Error('Failed to reorder tanks');
@@ -113,7 +127,7 @@ export const fetchReadings = async (tankId?: string): Promise<any[]> => {
 export const createReading = async (reading: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/readings`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(reading)
     });
     if (!response.ok) throw new Error('Failed to create reading');
@@ -123,7 +137,7 @@ export const createReading = async (reading: any): Promise<any> => {
 export const createReadingsBatch = async (readings: any[]): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/readings/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ readings })
     });
     if (!response.ok) throw new Error('Failed to create readings batch');
@@ -133,7 +147,7 @@ export const createReadingsBatch = async (readings: any[]): Promise<any> => {
 export const updateReading = async (id: string, reading: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/readings/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(reading)
     });
     if (!response.ok) throw new Error('Failed to update reading');
@@ -142,7 +156,8 @@ export const updateReading = async (id: string, reading: any): Promise<any> => {
 
 export const deleteReading = async (id: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/readings/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete reading');
     return await response.json();
@@ -162,7 +177,7 @@ export const fetchSupplies = async (tankId?: string): Promise<any[]> => {
 export const createSupply = async (supply: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/supplies`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(supply)
     });
     if (!response.ok) throw new Error('Failed to create supply');
@@ -172,7 +187,7 @@ export const createSupply = async (supply: any): Promise<any> => {
 export const createSuppliesBatch = async (supplies: any[]): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/supplies/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ supplies })
     });
     if (!response.ok) throw new Error('Failed to create supplies batch');
@@ -182,7 +197,7 @@ export const createSuppliesBatch = async (supplies: any[]): Promise<any> => {
 export const updateSupply = async (id: string, supply: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/supplies/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(supply)
     });
     if (!response.ok) throw new Error('Failed to update supply');
@@ -191,7 +206,8 @@ export const updateSupply = async (id: string, supply: any): Promise<any> => {
 
 export const deleteSupply = async (id: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/supplies/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete supply');
     return await response.json();
@@ -219,7 +235,7 @@ export const fetchCWSParamsHistory = async (tankId?: string): Promise<any> => {
 export const saveCWSParams = async (params: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/cws-params`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(params)
     });
     if (!response.ok) throw new Error('Failed to save CWS params');
@@ -230,7 +246,7 @@ export const saveCWSParams = async (params: any): Promise<any> => {
 export const updateCWSParams = async (params: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/cws-params/${params.id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(params)
     });
     if (!response.ok) throw new Error('Failed to update CWS params');
@@ -239,7 +255,8 @@ export const updateCWSParams = async (params: any): Promise<any> => {
 
 export const deleteCWSParams = async (id: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/cws-params/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete CWS params');
     return await response.json();
@@ -265,7 +282,7 @@ export const fetchBWSParamsHistory = async (tankId: string): Promise<any> => {
 export const saveBWSParams = async (params: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/bws-params`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(params)
     });
     if (!response.ok) {
@@ -279,7 +296,7 @@ export const saveBWSParams = async (params: any): Promise<any> => {
 export const updateBWSParams = async (params: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/bws-params/${params.id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(params)
     });
     if (!response.ok) throw new Error('Failed to update BWS params');
@@ -288,12 +305,91 @@ export const updateBWSParams = async (params: any): Promise<any> => {
 
 export const deleteBWSParams = async (id: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/bws-params/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete BWS params');
     return await response.json();
 };
 
+// --- DeNOx Params ---
+export const fetchDenoxParamsHistory = async (tankId: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/denox-params/history/${tankId}`);
+    if (!response.ok) throw new Error('Failed to fetch DeNOx params history');
+    return await response.json();
+};
+
+export const saveDenoxParams = async (params: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/denox-params`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(params)
+    });
+    if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`Failed to save DeNOx params: ${response.status} ${errText}`);
+    }
+    return await response.json();
+};
+
+export const updateDenoxParams = async (params: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/denox-params/${params.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(params)
+    });
+    if (!response.ok) throw new Error('Failed to update DeNOx params');
+    return await response.json();
+};
+
+export const deleteDenoxParams = async (id: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/denox-params/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error('Failed to delete DeNOx params');
+    return await response.json();
+};
+
+// --- Wastewater Params ---
+export const fetchWastewaterParamsHistory = async (tankId: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/wastewater-params/history/${tankId}`);
+    if (!response.ok) throw new Error('Failed to fetch wastewater params history');
+    return await response.json();
+};
+
+export const saveWastewaterParams = async (params: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/wastewater-params`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(params)
+    });
+    if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`Failed to save wastewater params: ${response.status} ${errText}`);
+    }
+    return await response.json();
+};
+
+export const updateWastewaterParams = async (params: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/wastewater-params/${params.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(params)
+    });
+    if (!response.ok) throw new Error('Failed to update wastewater params');
+    return await response.json();
+};
+
+export const deleteWastewaterParams = async (id: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/wastewater-params/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error('Failed to delete wastewater params');
+    return await response.json();
+};
+
 
 // ==================== Important Notes ====================
 
@@ -306,7 +402,7 @@ export const fetchNotes = async (): Promise<any[]> => {
 export const createNote = async (note: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/notes`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(note)
     });
     if (!response.ok) throw new Error('Failed to create note');
@@ -316,7 +412,7 @@ export const createNote = async (note: any): Promise<any> => {
 export const updateNote = async (id: string, note: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/notes/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(note)
     });
     if (!response.ok) throw new Error('Failed to update note');
@@ -325,7 +421,8 @@ export const updateNote = async (id: string, note: any): Promise<any> => {
 
 export const deleteNote = async (id: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/notes/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete note');
     return await response.json();
@@ -334,7 +431,7 @@ export const deleteNote = async (id: string): Promise<any> => {
 export const createNotesBatch = async (notes: any[]): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/notes/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ notes })
     });
     if (!response.ok) throw new Error('Failed to create notes batch');
@@ -352,7 +449,7 @@ export const fetchAlerts = async (): Promise<any[]> => {
 export const createAlert = async (alert: any): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/alerts`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(alert)
     });
     if (!response.ok) throw new Error('Failed to create alert');
@@ -362,7 +459,7 @@ export const createAlert = async (alert: any): Promise<any> => {
 export const createAlertsBatch = async (alerts: any[]): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/alerts/batch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ alerts })
     });
     if (!response.ok) throw new Error('Failed to create alerts batch');
@@ -372,16 +469,34 @@ export const createAlertsBatch = async (alerts: any[]): Promise<any> => {
 export const updateAlert = async (id: string, note: string): Promise<any> => {
     const response = await fetch(`${API_BASE_URL}/alerts/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ note })
     });
     if (!response.ok) throw new Error('Failed to update alert');
     return await response.json();
 };
 
+// 更新警報狀態 / 負責人 / 處理期限，狀態轉換不合法時伺服器回 409
+export const updateAlertStatus = async (id: string, payload: { status?: string; assignee?: string | null; due_at?: number | null; comment?: string }): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/alerts/${id}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(payload)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '更新警報狀態失敗'));
+    return await response.json();
+};
+
+export const fetchAlertHistory = async (id: string): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/alerts/${id}/history`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得警報歷程失敗'));
+    return await response.json();
+};
+
 export const deleteAlert = async (id: string): Promise<void> => {
     const response = await fetch(`${API_BASE_URL}/alerts/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error('Failed to delete alert');
 };
@@ -389,12 +504,204 @@ export const deleteAlert = async (id: string): Promise<void> => {
 export const deleteAlertsBatch = async (ids: string[]): Promise<void> => {
     const response = await fetch(`${API_BASE_URL}/alerts/batch-delete`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ ids })
     });
     if (!response.ok) throw new Error('Failed to batch delete alerts');
 };
 
+// 手動執行液位計診斷 (停滯 / 漂移)，新增的警報以 source = 'INSTRUMENT' 存入
+export const runInstrumentDiagnostics = async (): Promise<{ checkedTanks: number; count: number; alerts: any[] }> => {
+    const response = await fetch(`${API_BASE_URL}/instrument-diagnostics/run`, {
+        method: 'POST',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '液位計診斷失敗'));
+    return await response.json();
+};
+
+// ==================== Delivery Orders ====================
+
+export const fetchDeliveryOrders = async (filters: { tankId?: string; status?: string } = {}): Promise<any[]> => {
+    const params = new URLSearchParams();
+    if (filters.tankId) params.set('tankId', filters.tankId);
+    if (filters.status) params.set('status', filters.status);
+    const query = params.toString();
+    const response = await fetch(`${API_BASE_URL}/delivery-orders${query ? `?${query}` : ''}`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得叫藥單失敗'));
+    return await response.json();
+};
+
+export const createDeliveryOrder = async (order: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/delivery-orders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(order)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '新增叫藥單失敗'));
+    return await response.json();
+};
+
+export const updateDeliveryOrder = async (id: string, order: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/delivery-orders/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(order)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '更新叫藥單失敗'));
+    return await response.json();
+};
+
+export const updateDeliveryOrderStatus = async (id: string, payload: { status: string; actual_kg?: number; delivered_at?: number }): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/delivery-orders/${id}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(payload)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '變更叫藥單狀態失敗'));
+    return await response.json();
+};
+
+export const deleteDeliveryOrder = async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/delivery-orders/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '刪除叫藥單失敗'));
+};
+
+export const matchDeliveryOrders = async (tankId?: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/delivery-orders/match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify({ tankId })
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '比對叫藥單失敗'));
+    return await response.json();
+};
+
+// ==================== Chemical Budgets ====================
+
+export const fetchBudgets = async (year?: number): Promise<any[]> => {
+    const query = year ? `?year=${year}` : '';
+    const response = await fetch(`${API_BASE_URL}/budgets${query}`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得預算失敗'));
+    return await response.json();
+};
+
+export const createBudget = async (budget: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/budgets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(budget)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '儲存預算失敗'));
+    return await response.json();
+};
+
+export const updateBudget = async (id: string, budget: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/budgets/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(budget)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '更新預算失敗'));
+    return await response.json();
+};
+
+export const deleteBudget = async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/budgets/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '刪除預算失敗'));
+};
+
+// ==================== Chemical Master (SDS / GHS) ====================
+
+export const fetchChemicals = async (): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/chemicals`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得藥品主檔失敗'));
+    return await response.json();
+};
+
+export const fetchChemicalSafetyWarnings = async (): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/chemicals/safety-warnings`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得化學品安全警示失敗'));
+    return await response.json();
+};
+
+export const createChemical = async (chemical: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/chemicals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(chemical)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '新增藥品失敗'));
+    return await response.json();
+};
+
+export const updateChemical = async (id: string, chemical: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/chemicals/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(chemical)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '更新藥品失敗'));
+    return await response.json();
+};
+
+export const deleteChemical = async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/chemicals/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '刪除藥品失敗'));
+};
+
+export const uploadChemicalSds = async (id: string, file: File): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/chemicals/${id}/sds`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/pdf', 'X-File-Name': encodeURIComponent(file.name), ...getUnifiedUserHeaders() },
+        body: file
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '上傳 SDS 失敗'));
+    return await response.json();
+};
+
+export const getChemicalSdsUrl = (id: string): string => `${API_BASE_URL}/chemicals/${id}/sds`;
+
+// ==================== Field Rounds ====================
+
+export const fetchFieldRounds = async (limit?: number): Promise<any[]> => {
+    const url = limit ? `${API_BASE_URL}/field-rounds?limit=${limit}` : `${API_BASE_URL}/field-rounds`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得巡檢紀錄失敗'));
+    return await response.json();
+};
+
+export const createFieldRound = async (round: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/field-rounds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(round)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '儲存巡檢失敗'));
+    return await response.json();
+};
+
+export const uploadFieldRoundPhoto = async (itemId: string, photo: Blob): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/field-rounds/items/${itemId}/photo`, {
+        method: 'PUT',
+        headers: { 'Content-Type': photo.type || 'image/jpeg', ...getUnifiedUserHeaders() },
+        body: photo
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '上傳巡檢照片失敗'));
+    return await response.json();
+};
+
+export const getFieldRoundPhotoUrl = (itemId: string): string => `${API_BASE_URL}/field-rounds/items/${itemId}/photo`;
+
 // ==================== Instrument Management ====================
 
 const readErrorMessage = async (response: Response, fallback: string): Promise<string> => {
@@ -406,17 +713,6 @@ const readErrorMessage = async (response: Response, fallback: string): Promise<s
     }
 };
 
-const getUnifiedUserHeaders = (): HeadersInit => {
-    const userId =
-        localStorage.getItem('unified_user_name') ||
-        localStorage.getItem('pages_manual_user') ||
-        localStorage.getItem('appUserName') ||
-        '';
-    // Fetch headers can only carry ISO-8859-1 compatible values. The unified header may
-    // store a Chinese display name, which is not a permission identifier and breaks fetch.
-    return userId && /^[\x20-\x7E]+$/.test(userId) ? { 'X-User-Id': userId } : {};
-};
-
 export const fetchInstrumentInventoryItems = async (query?: string): Promise<LiteInventoryItem[]> => {
     const params = new URLSearchParams();
     if (query) params.set('q', query);
@@ -435,7 +731,7 @@ export const fetchInstrumentConfigs = async (): Promise<InstrumentManagementConf
 export const createInstrumentConfig = async (config: InstrumentManagementConfig): Promise<InstrumentManagementConfig> => {
     const response = await fetch(`${API_BASE_URL}/instrument-management/configs`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(config)
     });
     if (!response.ok) throw new Error(await readErrorMessage(response, '新增儀器管理設定失敗'));
@@ -445,7 +741,7 @@ export const createInstrumentConfig = async (config: InstrumentManagementConfig)
 export const updateInstrumentConfig = async (id: string, config: InstrumentManagementConfig): Promise<InstrumentManagementConfig> => {
     const response = await fetch(`${API_BASE_URL}/instrument-management/configs/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(config)
     });
     if (!response.ok) throw new Error(await readErrorMessage(response, '更新儀器管理設定失敗'));
@@ -454,7 +750,8 @@ export const updateInstrumentConfig = async (id: string, config: InstrumentManag
 
 export const deleteInstrumentConfig = async (id: string): Promise<void> => {
     const response = await fetch(`${API_BASE_URL}/instrument-management/configs/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
     });
     if (!response.ok) throw new Error(await readErrorMessage(response, '刪除儀器管理設定失敗'));
 };
@@ -475,7 +772,7 @@ export const fetchInstrumentNote = async (key: string): Promise<string> => {
 export const updateInstrumentNote = async (key: string, note: string): Promise<string> => {
     const response = await fetch(`${API_BASE_URL}/instrument-management/notes/${encodeURIComponent(key)}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify({ note })
     });
     if (!response.ok) throw new Error(await readErrorMessage(response, '更新儀器管理筆記失敗'));
@@ -495,7 +792,7 @@ export const createInstrumentOpening = async (opening: {
 }): Promise<InstrumentConsumableOpening> => {
     const response = await fetch(`${API_BASE_URL}/instrument-management/openings`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(opening)
     });
     if (!response.ok) throw new Error(await readErrorMessage(response, '新增耗材開封紀錄失敗'));
@@ -505,7 +802,7 @@ export const createInstrumentOpening = async (opening: {
 export const updateInstrumentOpening = async (id: string, patch: Partial<InstrumentConsumableOpening>): Promise<InstrumentConsumableOpening> => {
     const response = await fetch(`${API_BASE_URL}/instrument-management/openings/${id}`, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(patch)
     });
     if (!response.ok) throw new Error(await readErrorMessage(response, '更新耗材開封紀錄失敗'));
@@ -546,11 +843,251 @@ export const adjustInstrumentInventory = async (payload: {
 };
 
 export const runInstrumentExpiryCheck = async (): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/instrument-management/expiry-check`, { method: 'POST' });
+    const response = await fetch(`${API_BASE_URL}/instrument-management/expiry-check`, { method: 'POST', headers: getUnifiedUserHeaders() });
     if (!response.ok) throw new Error(await readErrorMessage(response, '耗材到期檢查失敗'));
     return await response.json();
 };
 
+// ==================== User Roles ====================
+
+export const fetchWhoAmI = async (): Promise<{ username: string | null, role: UserRole | null }> => {
+    const response = await fetch(`${API_BASE_URL}/whoami`, { headers: getUnifiedUserHeaders() });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得使用者身分失敗'));
+    return await response.json();
+};
+
+export const fetchUserRoles = async (): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/user-roles`, { headers: getUnifiedUserHeaders() });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得角色設定失敗'));
+    return await response.json();
+};
+
+export const saveUserRole = async (username: string, role: UserRole): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/user-roles/${encodeURIComponent(username)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify({ role })
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '更新角色失敗'));
+    return await response.json();
+};
+
+export const deleteUserRole = async (username: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/user-roles/${encodeURIComponent(username)}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '刪除角色失敗'));
+};
+
+// ==================== Notification Rules ====================
+
+export const fetchNotificationRules = async (): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/notification-rules`, { headers: getUnifiedUserHeaders() });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得通知規則失敗'));
+    return await response.json();
+};
+
+export const saveNotificationRule = async (rule: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/notification-rules${rule.id ? `/${rule.id}` : ''}`, {
+        method: rule.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(rule)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '儲存通知規則失敗'));
+    return await response.json();
+};
+
+export const deleteNotificationRule = async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/notification-rules/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '刪除通知規則失敗'));
+};
+
+// 測試發送：忽略靜音時段與去重，回傳目前符合條件的筆數
+export const testNotificationRule = async (id: string): Promise<{ sent: boolean; matched: number; message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/notification-rules/${id}/test`, {
+        method: 'POST',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '測試發送失敗'));
+    return await response.json();
+};
+
+// ==================== Audit Log API ====================
+
+export const fetchAuditLogs = async (filters: { tankId?: string, user?: string, startDate?: number, endDate?: number, entityType?: string, limit?: number } = {}): Promise<any[]> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') params.append(key, String(value));
+    });
+    const query = params.toString();
+    const response = await fetch(`${API_BASE_URL}/audit-logs${query ? `?${query}` : ''}`, { headers: getUnifiedUserHeaders() });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得異動紀錄失敗'));
+    return await response.json();
+};
+
+export const revertAuditLog = async (id: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/audit-logs/${id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() }
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '還原異動失敗'));
+    return await response.json();
+};
+
+// ==================== Recycle Bin API ====================
+
+export const fetchRecycleBin = async (): Promise<{ retention_days: number, items: any[] }> => {
+    const response = await fetch(`${API_BASE_URL}/recycle-bin`, { headers: getUnifiedUserHeaders() });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得資源回收筒失敗'));
+    return await response.json();
+};
+
+export const restoreRecycleBinItem = async (entityType: string, id: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/recycle-bin/${entityType}/${encodeURIComponent(id)}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() }
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '還原項目失敗'));
+    return await response.json();
+};
+
+export const purgeRecycleBinItem = async (entityType: string, id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/recycle-bin/${entityType}/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '永久刪除失敗'));
+};
+
+export const purgeExpiredRecycleBin = async (): Promise<{ count: number }> => {
+    const response = await fetch(`${API_BASE_URL}/recycle-bin/purge-expired`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() }
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '清除逾期項目失敗'));
+    return await response.json();
+};
+
+// ==================== PI Import Run API ====================
+
+export const fetchPiImportRuns = async (limit = 20): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/pi-import/runs?limit=${limit}`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得 PI 匯入紀錄失敗'));
+    return await response.json();
+};
+
+// ==================== PI Tag Mapping API ====================
+
+export const fetchPiTagMappings = async (): Promise<any[]> => {
+    const response = await fetch(`${API_BASE_URL}/pi-tag-mappings`);
+    if (!response.ok) throw new Error(await readErrorMessage(response, '取得 PI Tag 對應失敗'));
+    return await response.json();
+};
+
+export const savePiTagMapping = async (mapping: any): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/pi-tag-mappings${mapping.id ? `/${mapping.id}` : ''}`, {
+        method: mapping.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify(mapping)
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '儲存 PI Tag 對應失敗'));
+    return await response.json();
+};
+
+export const deletePiTagMapping = async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/pi-tag-mappings/${id}`, {
+        method: 'DELETE',
+        headers: getUnifiedUserHeaders()
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, '刪除 PI Tag 對應失敗'));
+};
+
+// 透過後端 /api/pi-proxy 轉送 PI Web API GET 請求
+const piProxyGet = async (url: string): Promise<any> => {
+    const response = await fetch(`${API_BASE_URL}/pi-proxy`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
+        body: JSON.stringify({ url, method: 'GET' })
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response, `PI Web API 回應錯誤 (HTTP ${response.status})`));
+    return await response.json();
+};
+
+// 測試 Tag：查詢 WebId 後取近 7 天的 Summary 值
+export const testPiTag = async (piBaseUrl: string, tagName: string, summaryType: string): Promise<{ value: number, webId: string }> => {
+    const baseUrl = piBaseUrl.replace(/\/$/, '');
+    const servers = await piProxyGet(`${baseUrl}/dataservers`);
+    const serverWebId = servers?.Items?.[0]?.WebId;
+    if (!serverWebId) throw new Error('找不到 PI Data Server，請確認權限');
+
+    const points = await piProxyGet(`${baseUrl}/dataservers/${serverWebId}/points?nameFilter=${encodeURIComponent(tagName)}`);
+    const webId = points?.Items?.[0]?.WebId;
+    if (!webId) throw new Error('Tag Not Found');
+
+    const summary = await piProxyGet(`${baseUrl}/streams/${webId}/summary?startTime=*-7d&endTime=*&summaryType=${summaryType}`);
+    let value = summary?.Items?.[0]?.Value;
+    if (value && typeof value === 'object' && value.Value !== undefined) value = value.Value;
+    const num = Number(value);
+    if (!Number.isFinite(num)) throw new Error('PI 回傳值無法解析');
+    return { value: num, webId };
+};
+
+// ==================== Live Events (SSE) ====================
+
+const LIVE_EVENT_TYPES: LiveEventType[] = ['tank', 'reading', 'supply', 'alert', 'note', 'chemical', 'settings'];
+// 同一批次匯入會連續推播多筆事件，合併後才通知訂閱者
+const LIVE_EVENT_DEBOUNCE_MS = 500;
+
+type LiveEventSubscriber = { types: Set<LiveEventType>; onEvent: (events: LiveEvent[]) => void; pending: LiveEvent[]; timer?: number };
+
+const liveEventSubscribers = new Set<LiveEventSubscriber>();
+let liveEventSource: EventSource | null = null;
+
+const dispatchLiveEvent = (event: LiveEvent) => {
+    liveEventSubscribers.forEach(subscriber => {
+        if (!subscriber.types.has(event.type)) return;
+        subscriber.pending.push(event);
+        window.clearTimeout(subscriber.timer);
+        subscriber.timer = window.setTimeout(() => {
+            const events = subscriber.pending;
+            subscriber.pending = [];
+            subscriber.onEvent(events);
+        }, LIVE_EVENT_DEBOUNCE_MS);
+    });
+};
+
+// 訂閱其他使用者的資料異動 (全頁共用一條 EventSource，斷線由瀏覽器自動重連)；回傳取消訂閱函式
+export const subscribeLiveEvents = (types: LiveEventType[], onEvent: (events: LiveEvent[]) => void): (() => void) => {
+    const subscriber: LiveEventSubscriber = { types: new Set(types), onEvent, pending: [] };
+    liveEventSubscribers.add(subscriber);
+
+    if (!liveEventSource && typeof EventSource !== 'undefined') {
+        liveEventSource = new EventSource(`${API_BASE_URL}/events`);
+        LIVE_EVENT_TYPES.forEach(type => {
+            liveEventSource!.addEventListener(type, (e: MessageEvent) => {
+                try {
+                    dispatchLiveEvent({ ...JSON.parse(e.data), type });
+                } catch (error) {
+                    console.error('API live event parse error:', error);
+                }
+            });
+        });
+    }
+
+    return () => {
+        window.clearTimeout(subscriber.timer);
+        liveEventSubscribers.delete(subscriber);
+        if (liveEventSubscribers.size === 0 && liveEventSource) {
+            liveEventSource.close();
+            liveEventSource = null;
+        }
+    };
+};
+
 // ==================== Helper Functions ====================
 
 
@@ -597,7 +1134,7 @@ export const updateManualWaterQualityLimits = async (limits: any[], userId?: str
         : `${API_BASE_URL}/manual-water-quality/limits`;
     const response = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(limits)
     });
     if (!response.ok) {
@@ -621,7 +1158,7 @@ export const updateManualWaterQualityAliases = async (aliases: any[], userId?: s
         : `${API_BASE_URL}/manual-water-quality/metric-aliases`;
     const response = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getUnifiedUserHeaders() },
         body: JSON.stringify(aliases)
     });
     if (!response.ok) {
@@ -0,0 +1,66 @@
+// 離線暫存佇列 - IndexedDB 儲存網路中斷時新增的液位與叫藥單，由 StorageService 於連線恢復後同步
+import type { OfflineOperation } from '../types';
+
+const DB_NAME = 'wtca-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+export const isOfflineQueueSupported = () => typeof indexedDB !== 'undefined';
+
+// 依加入順序回傳佇列內容
+export const listOfflineOperations = async (): Promise<OfflineOperation[]> => {
+    if (!isOfflineQueueSupported()) return [];
+    const operations = await runTransaction<OfflineOperation[]>('readonly', store => store.getAll());
+    return operations.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const putOfflineOperation = async (operation: OfflineOperation): Promise<void> => {
+    await runTransaction('readwrite', store => store.put(operation));
+    notifyListeners();
+};
+
+export const deleteOfflineOperation = async (id: string): Promise<void> => {
+    await runTransaction('readwrite', store => store.delete(id));
+    notifyListeners();
+};
+
+// 佇列內容變更時通知 (橫幅顯示待同步筆數)；回傳取消訂閱函式
+export const subscribeOfflineQueue = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
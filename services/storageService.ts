@@ -2,7 +2,10 @@
 // 保持原有的介面，但底層改用 PostgreSQL API
 
 import * as API from './apiService';
-import { Tank, Reading, ChemicalSupply, CWSParameterRecord, BWSParameterRecord, ImportantNote, FluctuationAlert } from '../types';
+import { listOfflineOperations, putOfflineOperation, deleteOfflineOperation, isOfflineQueueSupported } from './offlineQueue';
+import { Tank, Reading, ChemicalSupply, CWSParameterRecord, BWSParameterRecord, DenoxParameterRecord, WastewaterParameterRecord, ImportantNote, FluctuationAlert, DeliveryOrder, DeliveryOrderStatus, ChemicalBudget, ChemicalMaster, ChemicalSafetyWarning, UserRole, UserRoleAssignment, AuditLogEntry, RecycleBinItem, PiImportRun, PiTagMapping, FieldRound, FieldRoundItem, OfflineOperation, OfflineConflictResolution, AlertStatus, AlertStatusHistoryEntry, NotificationRule } from '../types';
+
+const toTaipeiDateString = (timestamp: number) => new Date(timestamp).toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
 
 export class StorageService {
     // 初始化 - 不再需要，但保留介面相容性
@@ -120,21 +123,32 @@ export class StorageService {
 
     // ==================== Readings ====================
 
+    // 合併離線暫存中尚未同步的讀數，讓看板與歷史紀錄立即反映現場輸入
     static async getReadings(): Promise<Reading[]> {
+        let readings: Reading[] = [];
         try {
-            const readings = await API.fetchReadings();
-            return readings.map(r => StorageService.convertReadingFromAPI(r));
+            readings = (await API.fetchReadings()).map(r => StorageService.convertReadingFromAPI(r));
         } catch (err) {
             console.error('Failed to get readings:', err);
-            return [];
         }
+        const queued = (await StorageService.getOfflineOperations())
+            .filter(op => op.kind === 'READING' && op.reading)
+            .map(op => op.reading!);
+        if (queued.length === 0) return readings;
+        const queuedIds = new Set(queued.map(r => r.id));
+        return [...readings.filter(r => !queuedIds.has(r.id)), ...queued];
     }
 
-    static async saveReading(reading: Reading): Promise<void> {
+    static async saveReading(reading: Reading): Promise<{ queued: boolean }> {
         try {
             const apiReading = StorageService.convertReadingToAPI(reading);
             await API.createReading(apiReading);
+            return { queued: false };
         } catch (err) {
+            if (StorageService.isNetworkError(err)) {
+                await StorageService.queueReadings([reading]);
+                return { queued: true };
+            }
             console.error('Failed to save reading:', err);
             throw err;
         }
@@ -159,18 +173,26 @@ export class StorageService {
         }
     }
 
-    static async saveReadingsBatch(readings: Reading[]): Promise<void> {
+    // 網路中斷時未送出的批次改存入離線佇列 (queued: true)，連線恢復後由 syncOfflineQueue 補送
+    static async saveReadingsBatch(readings: Reading[]): Promise<{ queued: boolean }> {
         const BATCH_SIZE = 100;
+        let sentCount = 0;
         try {
             const apiReadings = readings.map(r => StorageService.convertReadingToAPI(r));
 
             for (let i = 0; i < apiReadings.length; i += BATCH_SIZE) {
                 const chunk = apiReadings.slice(i, i + BATCH_SIZE);
                 await API.createReadingsBatch(chunk);
+                sentCount = i + chunk.length;
                 // Optional: add a small delay to avoid overwhelming the server if needed
                 // await new Promise(resolve => setTimeout(resolve, 50)); 
             }
+            return { queued: false };
         } catch (err) {
+            if (StorageService.isNetworkError(err)) {
+                await StorageService.queueReadings(readings.slice(sentCount));
+                return { queued: true };
+            }
             console.error('Failed to save readings batch:', err);
             throw err;
         }
@@ -241,6 +263,559 @@ export class StorageService {
         }
     }
 
+    // ==================== Delivery Orders ====================
+
+    static async getDeliveryOrders(filters: { tankId?: string; status?: DeliveryOrderStatus } = {}): Promise<DeliveryOrder[]> {
+        try {
+            const orders = await API.fetchDeliveryOrders(filters);
+            return orders.map(o => StorageService.convertDeliveryOrderFromAPI(o));
+        } catch (err) {
+            console.error('Failed to get delivery orders:', err);
+            return [];
+        }
+    }
+
+    // 新叫藥單於網路中斷時存入離線佇列，回傳暫存內容 (id 為佇列編號，同步後由伺服器重新編號)
+    static async saveDeliveryOrder(order: Partial<DeliveryOrder>): Promise<DeliveryOrder> {
+        try {
+            const apiOrder = StorageService.convertDeliveryOrderToAPI(order);
+            const saved = order.id
+                ? await API.updateDeliveryOrder(order.id, apiOrder)
+                : await API.createDeliveryOrder(apiOrder);
+            return StorageService.convertDeliveryOrderFromAPI(saved);
+        } catch (err) {
+            if (!order.id && order.tankId && StorageService.isNetworkError(err)) {
+                const operation: OfflineOperation = {
+                    id: `delivery:${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                    kind: 'DELIVERY_ORDER',
+                    tankId: order.tankId,
+                    deliveryOrder: order,
+                    status: 'PENDING',
+                    queuedAt: Date.now()
+                };
+                await putOfflineOperation(operation);
+                return { status: 'REQUESTED', orderedKg: 0, isShortfall: false, requestedAt: Date.now(), ...order, id: operation.id, tankId: order.tankId };
+            }
+            console.error('Failed to save delivery order:', err);
+            throw err;
+        }
+    }
+
+    static async updateDeliveryOrderStatus(id: string, status: DeliveryOrderStatus, actualKg?: number): Promise<DeliveryOrder> {
+        try {
+            const updated = await API.updateDeliveryOrderStatus(id, { status, actual_kg: actualKg });
+            return StorageService.convertDeliveryOrderFromAPI(updated);
+        } catch (err) {
+            console.error('Failed to update delivery order status:', err);
+            throw err;
+        }
+    }
+
+    static async deleteDeliveryOrder(id: string): Promise<void> {
+        try {
+            await API.deleteDeliveryOrder(id);
+        } catch (err) {
+            console.error('Failed to delete delivery order:', err);
+            throw err;
+        }
+    }
+
+    static async matchDeliveryOrders(tankId?: string): Promise<DeliveryOrder[]> {
+        try {
+            const result = await API.matchDeliveryOrders(tankId);
+            return (result.matched || []).map((o: any) => StorageService.convertDeliveryOrderFromAPI(o));
+        } catch (err) {
+            console.error('Failed to match delivery orders:', err);
+            throw err;
+        }
+    }
+
+    // ==================== Offline Queue ====================
+
+    // fetch 於斷網時拋出 TypeError；伺服器回應錯誤 (4xx / 5xx) 不視為離線，照常提示使用者
+    static isNetworkError(err: unknown): boolean {
+        return isOfflineQueueSupported() && (!navigator.onLine || err instanceof TypeError);
+    }
+
+    private static async queueReadings(readings: Reading[]): Promise<void> {
+        const queuedAt = Date.now();
+        for (const reading of readings) {
+            await putOfflineOperation({
+                id: `reading:${reading.id}`,
+                kind: 'READING',
+                tankId: reading.tankId,
+                reading,
+                status: 'PENDING',
+                queuedAt
+            });
+        }
+    }
+
+    static async getOfflineOperations(): Promise<OfflineOperation[]> {
+        try {
+            return await listOfflineOperations();
+        } catch (err) {
+            console.error('Failed to get offline operations:', err);
+            return [];
+        }
+    }
+
+    // 依序補送離線佇列；讀數送出前比對伺服器上同儲槽同日期 (台北時間) 是否已有他人輸入，有則標記為衝突待使用者決定
+    static async syncOfflineQueue(): Promise<{ synced: number; conflicts: number }> {
+        const operations = (await StorageService.getOfflineOperations()).filter(op => op.status !== 'CONFLICT');
+        const serverReadingsByTank = new Map<string, Reading[]>();
+        let synced = 0;
+
+        for (const op of operations) {
+            try {
+                if (op.kind === 'READING' && op.reading) {
+                    if (!serverReadingsByTank.has(op.tankId)) {
+                        const rows = await API.fetchReadings(op.tankId);
+                        serverReadingsByTank.set(op.tankId, rows.map(r => StorageService.convertReadingFromAPI(r)));
+                    }
+                    const dateStr = toTaipeiDateString(op.reading.timestamp);
+                    const conflict = serverReadingsByTank.get(op.tankId)!.find(r =>
+                        r.id !== op.reading!.id && toTaipeiDateString(r.timestamp) === dateStr
+                    );
+                    if (conflict) {
+                        await putOfflineOperation({ ...op, status: 'CONFLICT', conflictWith: conflict, error: null });
+                        continue;
+                    }
+                    await API.createReadingsBatch([StorageService.convertReadingToAPI(op.reading)]);
+                } else if (op.kind === 'DELIVERY_ORDER' && op.deliveryOrder) {
+                    await API.createDeliveryOrder(StorageService.convertDeliveryOrderToAPI(op.deliveryOrder));
+                }
+                await deleteOfflineOperation(op.id);
+                synced++;
+            } catch (err: any) {
+                if (StorageService.isNetworkError(err)) break;
+                console.error('Failed to sync offline operation:', err);
+                await putOfflineOperation({ ...op, status: 'FAILED', error: err.message || '同步失敗' });
+            }
+        }
+
+        const conflicts = (await StorageService.getOfflineOperations()).filter(op => op.status === 'CONFLICT').length;
+        return { synced, conflicts };
+    }
+
+    // KEEP_MINE: 以現場輸入覆寫伺服器上的讀數；KEEP_SERVER: 捨棄現場輸入；KEEP_BOTH: 兩筆皆保留
+    static async resolveOfflineConflict(operation: OfflineOperation, resolution: OfflineConflictResolution): Promise<void> {
+        try {
+            if (operation.reading && resolution !== 'KEEP_SERVER') {
+                const reading = resolution === 'KEEP_MINE' && operation.conflictWith
+                    ? { ...operation.reading, id: operation.conflictWith.id }
+                    : operation.reading;
+                await API.createReadingsBatch([StorageService.convertReadingToAPI(reading)]);
+            }
+            await deleteOfflineOperation(operation.id);
+        } catch (err) {
+            console.error('Failed to resolve offline conflict:', err);
+            throw err;
+        }
+    }
+
+    static async discardOfflineOperation(id: string): Promise<void> {
+        try {
+            await deleteOfflineOperation(id);
+        } catch (err) {
+            console.error('Failed to discard offline operation:', err);
+            throw err;
+        }
+    }
+
+    // ==================== Chemical Budgets ====================
+
+    static async getBudgets(year?: number): Promise<ChemicalBudget[]> {
+        try {
+            const budgets = await API.fetchBudgets(year);
+            return budgets.map(b => StorageService.convertBudgetFromAPI(b));
+        } catch (err) {
+            console.error('Failed to get budgets:', err);
+            return [];
+        }
+    }
+
+    static async saveBudget(budget: Partial<ChemicalBudget>): Promise<ChemicalBudget> {
+        try {
+            const apiBudget = StorageService.convertBudgetToAPI(budget);
+            const saved = budget.id
+                ? await API.updateBudget(budget.id, apiBudget)
+                : await API.createBudget(apiBudget);
+            return StorageService.convertBudgetFromAPI(saved);
+        } catch (err) {
+            console.error('Failed to save budget:', err);
+            throw err;
+        }
+    }
+
+    static async deleteBudget(id: string): Promise<void> {
+        try {
+            await API.deleteBudget(id);
+        } catch (err) {
+            console.error('Failed to delete budget:', err);
+            throw err;
+        }
+    }
+
+    // ==================== Chemical Master (SDS / GHS) ====================
+
+    static async getChemicals(): Promise<ChemicalMaster[]> {
+        try {
+            const chemicals = await API.fetchChemicals();
+            return chemicals.map(c => StorageService.convertChemicalFromAPI(c));
+        } catch (err) {
+            console.error('Failed to get chemicals:', err);
+            return [];
+        }
+    }
+
+    static async saveChemical(chemical: Partial<ChemicalMaster>): Promise<ChemicalMaster> {
+        try {
+            const apiChemical = StorageService.convertChemicalToAPI(chemical);
+            const saved = chemical.id
+                ? await API.updateChemical(chemical.id, apiChemical)
+                : await API.createChemical(apiChemical);
+            return StorageService.convertChemicalFromAPI(saved);
+        } catch (err) {
+            console.error('Failed to save chemical:', err);
+            throw err;
+        }
+    }
+
+    static async deleteChemical(id: string): Promise<void> {
+        try {
+            await API.deleteChemical(id);
+        } catch (err) {
+            console.error('Failed to delete chemical:', err);
+            throw err;
+        }
+    }
+
+    static async uploadChemicalSds(id: string, file: File): Promise<void> {
+        try {
+            await API.uploadChemicalSds(id, file);
+        } catch (err) {
+            console.error('Failed to upload SDS:', err);
+            throw err;
+        }
+    }
+
+    static async getChemicalSafetyWarnings(): Promise<ChemicalSafetyWarning[]> {
+        try {
+            const warnings = await API.fetchChemicalSafetyWarnings();
+            return warnings.map(w => ({
+                type: w.type,
+                chemicalIds: (w.chemical_ids || []).map(String),
+                tankIds: w.tank_ids || [],
+                message: w.message
+            }));
+        } catch (err) {
+            console.error('Failed to get chemical safety warnings:', err);
+            return [];
+        }
+    }
+
+    // ==================== Field Rounds ====================
+
+    static async getFieldRounds(limit?: number): Promise<FieldRound[]> {
+        try {
+            const rounds = await API.fetchFieldRounds(limit);
+            return rounds.map(r => StorageService.convertFieldRoundFromAPI(r));
+        } catch (err) {
+            console.error('Failed to get field rounds:', err);
+            return [];
+        }
+    }
+
+    // 巡檢完成後整批寫入 (液位與檢查結果同一交易)；照片依儲槽於建立後逐張上傳
+    static async saveFieldRound(round: FieldRound, photos: Record<string, Blob> = {}): Promise<FieldRound> {
+        try {
+            const saved = StorageService.convertFieldRoundFromAPI(await API.createFieldRound({
+                round_date: round.roundDate,
+                operator_name: round.operatorName,
+                started_at: round.startedAt,
+                completed_at: round.completedAt,
+                items: round.items.map(item => ({
+                    tank_id: item.tankId,
+                    skipped: item.skipped,
+                    checklist: item.checklist,
+                    note: item.note,
+                    reading: item.reading ? StorageService.convertReadingToAPI(item.reading) : null
+                }))
+            }));
+            for (const item of saved.items) {
+                const photo = photos[item.tankId];
+                if (photo && item.id) {
+                    await API.uploadFieldRoundPhoto(item.id, photo);
+                    item.hasPhoto = true;
+                }
+            }
+            return saved;
+        } catch (err) {
+            console.error('Failed to save field round:', err);
+            throw err;
+        }
+    }
+
+    // ==================== User Roles ====================
+
+    static async getUserRoles(): Promise<UserRoleAssignment[]> {
+        try {
+            const roles = await API.fetchUserRoles();
+            return roles.map(r => ({
+                username: r.username,
+                role: r.role,
+                updatedBy: r.updated_by,
+                updatedAt: r.updated_at
+            }));
+        } catch (err) {
+            console.error('Failed to get user roles:', err);
+            return [];
+        }
+    }
+
+    static async saveUserRole(username: string, role: UserRole): Promise<void> {
+        try {
+            await API.saveUserRole(username, role);
+        } catch (err) {
+            console.error('Failed to save user role:', err);
+            throw err;
+        }
+    }
+
+    static async deleteUserRole(username: string): Promise<void> {
+        try {
+            await API.deleteUserRole(username);
+        } catch (err) {
+            console.error('Failed to delete user role:', err);
+            throw err;
+        }
+    }
+
+    // ==================== Notification Rules ====================
+
+    static async getNotificationRules(): Promise<NotificationRule[]> {
+        try {
+            const rules = await API.fetchNotificationRules();
+            return rules.map(r => StorageService.convertNotificationRuleFromAPI(r));
+        } catch (err) {
+            console.error('Failed to get notification rules:', err);
+            return [];
+        }
+    }
+
+    static async saveNotificationRule(rule: Partial<NotificationRule>): Promise<NotificationRule> {
+        try {
+            const result = await API.saveNotificationRule({
+                id: rule.id,
+                name: rule.name,
+                trigger_type: rule.triggerType,
+                params: rule.params || {},
+                channel: rule.channel,
+                channel_config: rule.channelConfig || {},
+                quiet_hours_start: rule.quietHoursStart || null,
+                quiet_hours_end: rule.quietHoursEnd || null,
+                dedupe_key_template: rule.dedupeKeyTemplate || null,
+                dedupe_window_hours: rule.dedupeWindowHours,
+                enabled: rule.enabled
+            });
+            return StorageService.convertNotificationRuleFromAPI(result);
+        } catch (err) {
+            console.error('Failed to save notification rule:', err);
+            throw err;
+        }
+    }
+
+    static async deleteNotificationRule(id: string): Promise<void> {
+        try {
+            await API.deleteNotificationRule(id);
+        } catch (err) {
+            console.error('Failed to delete notification rule:', err);
+            throw err;
+        }
+    }
+
+    static async testNotificationRule(id: string): Promise<{ sent: boolean; matched: number; message: string }> {
+        try {
+            return await API.testNotificationRule(id);
+        } catch (err) {
+            console.error('Failed to test notification rule:', err);
+            throw err;
+        }
+    }
+
+    private static convertNotificationRuleFromAPI(apiRule: any): NotificationRule {
+        return {
+            id: apiRule.id,
+            name: apiRule.name,
+            triggerType: apiRule.trigger_type,
+            params: apiRule.params || {},
+            channel: apiRule.channel,
+            channelConfig: apiRule.channel_config || {},
+            quietHoursStart: apiRule.quiet_hours_start,
+            quietHoursEnd: apiRule.quiet_hours_end,
+            dedupeKeyTemplate: apiRule.dedupe_key_template,
+            dedupeWindowHours: Number(apiRule.dedupe_window_hours) || 24,
+            enabled: apiRule.enabled,
+            lastSentAt: apiRule.last_sent_at,
+            lastStatus: apiRule.last_status,
+            lastError: apiRule.last_error,
+            updatedBy: apiRule.updated_by,
+            updatedAt: apiRule.updated_at
+        };
+    }
+
+    // ==================== Audit Logs ====================
+
+    static async getAuditLogs(filters: { tankId?: string, user?: string, startDate?: number, endDate?: number, entityType?: string } = {}): Promise<AuditLogEntry[]> {
+        try {
+            const logs = await API.fetchAuditLogs(filters);
+            return logs.map(l => ({
+                id: l.id,
+                entityType: l.entity_type,
+                entityId: l.entity_id,
+                tankId: l.tank_id,
+                action: l.action,
+                beforeData: l.before_data,
+                afterData: l.after_data,
+                changedBy: l.changed_by,
+                changedAt: new Date(l.changed_at).getTime(),
+                revertOf: l.revert_of,
+                revertedAt: l.reverted_at ? new Date(l.reverted_at).getTime() : null,
+                revertedBy: l.reverted_by
+            }));
+        } catch (err) {
+            console.error('Failed to get audit logs:', err);
+            return [];
+        }
+    }
+
+    static async revertAuditLog(id: string): Promise<void> {
+        try {
+            await API.revertAuditLog(id);
+        } catch (err) {
+            console.error('Failed to revert audit log:', err);
+            throw err;
+        }
+    }
+
+    // ==================== Recycle Bin ====================
+
+    static async getRecycleBin(): Promise<{ retentionDays: number, items: RecycleBinItem[] }> {
+        try {
+            const result = await API.fetchRecycleBin();
+            return {
+                retentionDays: result.retention_days,
+                items: result.items.map(i => ({
+                    entityType: i.entity_type,
+                    entityId: i.entity_id,
+                    tankId: i.tank_id,
+                    deletedAt: new Date(i.deleted_at).getTime(),
+                    deletedBy: i.deleted_by,
+                    purgeableAt: new Date(i.purgeable_at).getTime(),
+                    data: i.data
+                }))
+            };
+        } catch (err) {
+            console.error('Failed to get recycle bin:', err);
+            return { retentionDays: 30, items: [] };
+        }
+    }
+
+    static async restoreRecycleBinItem(item: RecycleBinItem): Promise<void> {
+        try {
+            await API.restoreRecycleBinItem(item.entityType, item.entityId);
+        } catch (err) {
+            console.error('Failed to restore recycle bin item:', err);
+            throw err;
+        }
+    }
+
+    static async purgeRecycleBinItem(item: RecycleBinItem): Promise<void> {
+        try {
+            await API.purgeRecycleBinItem(item.entityType, item.entityId);
+        } catch (err) {
+            console.error('Failed to purge recycle bin item:', err);
+            throw err;
+        }
+    }
+
+    static async purgeExpiredRecycleBin(): Promise<number> {
+        try {
+            const result = await API.purgeExpiredRecycleBin();
+            return result.count;
+        } catch (err) {
+            console.error('Failed to purge expired recycle bin items:', err);
+            throw err;
+        }
+    }
+
+    // ==================== PI Import Runs ====================
+
+    static async getPiImportRuns(limit = 20): Promise<PiImportRun[]> {
+        try {
+            const runs = await API.fetchPiImportRuns(limit);
+            return runs.map(r => ({
+                id: r.id,
+                trigger: r.trigger,
+                status: r.status,
+                weeks: r.weeks,
+                periodStart: r.period_start ? new Date(r.period_start).getTime() : null,
+                periodEnd: r.period_end ? new Date(r.period_end).getTime() : null,
+                tagResults: r.tag_results || [],
+                message: r.message,
+                error: r.error,
+                triggeredBy: r.triggered_by,
+                startedAt: new Date(r.started_at).getTime(),
+                finishedAt: r.finished_at ? new Date(r.finished_at).getTime() : null
+            }));
+        } catch (err) {
+            console.error('Failed to get PI import runs:', err);
+            return [];
+        }
+    }
+
+    // ==================== PI Tag Mappings ====================
+
+    static async getPiTagMappings(): Promise<PiTagMapping[]> {
+        try {
+            const mappings = await API.fetchPiTagMappings();
+            return mappings.map(m => StorageService.convertPiTagMappingFromAPI(m));
+        } catch (err) {
+            console.error('Failed to get PI tag mappings:', err);
+            return [];
+        }
+    }
+
+    static async savePiTagMapping(mapping: Partial<PiTagMapping>): Promise<PiTagMapping> {
+        try {
+            const saved = await API.savePiTagMapping({
+                id: mapping.id,
+                system_type: mapping.systemType,
+                area: mapping.area,
+                tag_name: mapping.tagName,
+                measure: mapping.measure,
+                summary_type: mapping.summaryType,
+                enabled: mapping.enabled ?? true,
+                sort_order: mapping.sortOrder ?? 0,
+                note: mapping.note || null
+            });
+            return StorageService.convertPiTagMappingFromAPI(saved);
+        } catch (err) {
+            console.error('Failed to save PI tag mapping:', err);
+            throw err;
+        }
+    }
+
+    static async deletePiTagMapping(id: string): Promise<void> {
+        try {
+            await API.deletePiTagMapping(id);
+        } catch (err) {
+            console.error('Failed to delete PI tag mapping:', err);
+            throw err;
+        }
+    }
+
     // ==================== Parameters ====================
 
     static async getCWSParam(tankId: string): Promise<CWSParameterRecord | null> {
@@ -344,6 +919,84 @@ export class StorageService {
         }
     }
 
+    // ==================== DeNOx Parameters ====================
+
+    static async getDenoxParamsHistory(tankId: string): Promise<DenoxParameterRecord[]> {
+        try {
+            const history = await API.fetchDenoxParamsHistory(tankId);
+            return history.map((p: any) => StorageService.convertDenoxParamFromAPI(p));
+        } catch (err) {
+            console.error('Failed to get DeNOx history:', err);
+            return [];
+        }
+    }
+
+    static async saveDenoxParam(param: DenoxParameterRecord): Promise<void> {
+        try {
+            await API.saveDenoxParams(StorageService.convertDenoxParamToAPI(param));
+        } catch (err) {
+            console.error('Failed to save DeNOx param:', err);
+            throw err;
+        }
+    }
+
+    static async updateDenoxParamRecord(param: DenoxParameterRecord): Promise<void> {
+        try {
+            await API.updateDenoxParams(StorageService.convertDenoxParamToAPI(param));
+        } catch (err) {
+            console.error('Failed to update DeNOx param record:', err);
+            throw err;
+        }
+    }
+
+    static async deleteDenoxParamRecord(id: string): Promise<void> {
+        try {
+            await API.deleteDenoxParams(id);
+        } catch (err) {
+            console.error('Failed to delete DeNOx param record:', err);
+            throw err;
+        }
+    }
+
+    // ==================== Wastewater Parameters ====================
+
+    static async getWastewaterParamsHistory(tankId: string): Promise<WastewaterParameterRecord[]> {
+        try {
+            const history = await API.fetchWastewaterParamsHistory(tankId);
+            return history.map((p: any) => StorageService.convertWastewaterParamFromAPI(p));
+        } catch (err) {
+            console.error('Failed to get wastewater history:', err);
+            return [];
+        }
+    }
+
+    static async saveWastewaterParam(param: WastewaterParameterRecord): Promise<void> {
+        try {
+            await API.saveWastewaterParams(StorageService.convertWastewaterParamToAPI(param));
+        } catch (err) {
+            console.error('Failed to save wastewater param:', err);
+            throw err;
+        }
+    }
+
+    static async updateWastewaterParamRecord(param: WastewaterParameterRecord): Promise<void> {
+        try {
+            await API.updateWastewaterParams(StorageService.convertWastewaterParamToAPI(param));
+        } catch (err) {
+            console.error('Failed to update wastewater param record:', err);
+            throw err;
+        }
+    }
+
+    static async deleteWastewaterParamRecord(id: string): Promise<void> {
+        try {
+            await API.deleteWastewaterParams(id);
+        } catch (err) {
+            console.error('Failed to delete wastewater param record:', err);
+            throw err;
+        }
+    }
+
     // ==================== Important Notes ====================
 
     static async getNotes(): Promise<ImportantNote[]> {
@@ -410,8 +1063,11 @@ export class StorageService {
             safeMinLevel: parseFloat(apiTank.safe_min_level || 20),
             targetDailyUsage: apiTank.target_daily_usage ? parseFloat(apiTank.target_daily_usage) : undefined,
             calculationMethod: apiTank.calculation_method,
+            bwsChemicalType: apiTank.bws_chemical_type || undefined,
             cwsParams: apiTank.cws_params ? StorageService.convertCWSParamFromAPI(apiTank.cws_params) : undefined,
             bwsParams: apiTank.bws_params ? StorageService.convertBWSParamFromAPI(apiTank.bws_params) : undefined,
+            denoxParams: apiTank.denox_params ? StorageService.convertDenoxParamFromAPI(apiTank.denox_params) : undefined,
+            wastewaterParams: apiTank.wastewater_params ? StorageService.convertWastewaterParamFromAPI(apiTank.wastewater_params) : undefined,
             sortOrder: apiTank.sort_order ? parseInt(apiTank.sort_order) : undefined,
             shapeType: apiTank.shape_type,
             dimensions: apiTank.dimensions,
@@ -419,7 +1075,10 @@ export class StorageService {
             validationThreshold: apiTank.validation_threshold ? parseFloat(apiTank.validation_threshold) : 30,
             sgRangeMin: apiTank.sg_range_min ? parseFloat(apiTank.sg_range_min) : undefined,
             sgRangeMax: apiTank.sg_range_max ? parseFloat(apiTank.sg_range_max) : undefined,
-            piPercentFactor: apiTank.pi_percent_factor ? parseFloat(apiTank.pi_percent_factor) : undefined
+            piPercentFactor: apiTank.pi_percent_factor ? parseFloat(apiTank.pi_percent_factor) : undefined,
+            leadTimeDays: apiTank.lead_time_days !== null && apiTank.lead_time_days !== undefined ? parseFloat(apiTank.lead_time_days) : undefined,
+            chemicalId: apiTank.chemical_id || undefined,
+            containmentArea: apiTank.containment_area || undefined
         };
     }
 
@@ -434,6 +1093,7 @@ export class StorageService {
             safe_min_level: tank.safeMinLevel,
             target_daily_usage: tank.targetDailyUsage,
             calculation_method: tank.calculationMethod,
+            bws_chemical_type: tank.bwsChemicalType ?? null,
             sort_order: tank.sortOrder,
             shape_type: tank.shapeType,
             dimensions: tank.dimensions,
@@ -441,7 +1101,10 @@ export class StorageService {
             validation_threshold: tank.validationThreshold ?? 30,
             sg_range_min: tank.sgRangeMin,
             sg_range_max: tank.sgRangeMax,
-            pi_percent_factor: tank.piPercentFactor ?? null
+            pi_percent_factor: tank.piPercentFactor ?? null,
+            lead_time_days: tank.leadTimeDays ?? null,
+            chemical_id: tank.chemicalId ?? null,
+            containment_area: tank.containmentArea ?? null
         };
     }
 
@@ -485,7 +1148,8 @@ export class StorageService {
             price: apiSupply.price ? parseFloat(apiSupply.price) : undefined,
             startDate: parseInt(apiSupply.start_date),
             notes: apiSupply.notes,
-            targetPpm: apiSupply.target_ppm ? parseFloat(apiSupply.target_ppm) : undefined
+            targetPpm: apiSupply.target_ppm ? parseFloat(apiSupply.target_ppm) : undefined,
+            activeConcentration: apiSupply.active_concentration ? parseFloat(apiSupply.active_concentration) : undefined
         };
     }
 
@@ -499,7 +1163,131 @@ export class StorageService {
             price: supply.price,
             start_date: supply.startDate,
             notes: supply.notes,
-            target_ppm: supply.targetPpm
+            target_ppm: supply.targetPpm,
+            active_concentration: supply.activeConcentration
+        };
+    }
+
+    private static convertDeliveryOrderFromAPI(apiOrder: any): DeliveryOrder {
+        const toNumber = (value: any) => value === null || value === undefined ? null : parseFloat(value);
+        return {
+            id: apiOrder.id,
+            tankId: apiOrder.tank_id,
+            supplyId: apiOrder.supply_id,
+            status: apiOrder.status,
+            orderedKg: parseFloat(apiOrder.ordered_kg || 0),
+            actualKg: toNumber(apiOrder.actual_kg),
+            shortfallKg: toNumber(apiOrder.shortfall_kg),
+            isShortfall: !!apiOrder.is_shortfall,
+            requestedAt: parseInt(apiOrder.requested_at),
+            expectedAt: apiOrder.expected_at ? parseInt(apiOrder.expected_at) : null,
+            deliveredAt: apiOrder.delivered_at ? parseInt(apiOrder.delivered_at) : null,
+            matchedReadingId: apiOrder.matched_reading_id,
+            note: apiOrder.note,
+            createdBy: apiOrder.created_by,
+            createdAt: apiOrder.created_at,
+            updatedAt: apiOrder.updated_at
+        };
+    }
+
+    private static convertDeliveryOrderToAPI(order: Partial<DeliveryOrder>): any {
+        return {
+            tank_id: order.tankId,
+            supply_id: order.supplyId,
+            ordered_kg: order.orderedKg,
+            actual_kg: order.actualKg,
+            requested_at: order.requestedAt,
+            expected_at: order.expectedAt,
+            note: order.note
+        };
+    }
+
+    private static convertBudgetFromAPI(b: any): ChemicalBudget {
+        return {
+            id: b.id,
+            year: parseInt(b.year),
+            scope: b.scope,
+            scopeKey: b.scope_key,
+            amount: parseFloat(b.amount || 0),
+            note: b.note,
+            updatedBy: b.updated_by,
+            updatedAt: b.updated_at
+        };
+    }
+
+    private static convertBudgetToAPI(budget: Partial<ChemicalBudget>): any {
+        return {
+            year: budget.year,
+            scope: budget.scope,
+            scope_key: budget.scopeKey,
+            amount: budget.amount,
+            note: budget.note
+        };
+    }
+
+    private static convertChemicalFromAPI(c: any): ChemicalMaster {
+        return {
+            id: String(c.id),
+            name: c.name,
+            casNumbers: c.cas_numbers || [],
+            ghsHazards: c.ghs_hazards || [],
+            ppe: c.ppe,
+            incompatibilityGroups: c.incompatibility_groups || [],
+            sdsRevisionDate: c.sds_revision_date ? parseInt(c.sds_revision_date) : null,
+            sdsFileName: c.sds_file_name,
+            sdsUploadedAt: c.sds_uploaded_at,
+            isRegulated: !!c.is_regulated,
+            regulatoryNo: c.regulatory_no,
+            note: c.note,
+            updatedBy: c.updated_by,
+            updatedAt: c.updated_at
+        };
+    }
+
+    private static convertChemicalToAPI(chemical: Partial<ChemicalMaster>): any {
+        return {
+            name: chemical.name,
+            cas_numbers: chemical.casNumbers,
+            ghs_hazards: chemical.ghsHazards,
+            ppe: chemical.ppe,
+            incompatibility_groups: chemical.incompatibilityGroups,
+            sds_revision_date: chemical.sdsRevisionDate,
+            is_regulated: chemical.isRegulated,
+            regulatory_no: chemical.regulatoryNo,
+            note: chemical.note
+        };
+    }
+
+    private static convertFieldRoundFromAPI(r: any): FieldRound {
+        return {
+            id: r.id,
+            roundDate: r.round_date,
+            operatorName: r.operator_name,
+            startedAt: r.started_at ? parseInt(r.started_at) : null,
+            completedAt: r.completed_at ? parseInt(r.completed_at) : null,
+            items: (r.items || []).map((i: any): FieldRoundItem => ({
+                id: i.id,
+                tankId: i.tank_id,
+                readingId: i.reading_id,
+                skipped: !!i.skipped,
+                checklist: i.checklist || {},
+                note: i.note,
+                hasPhoto: !!i.has_photo
+            }))
+        };
+    }
+
+    private static convertPiTagMappingFromAPI(m: any): PiTagMapping {
+        return {
+            id: m.id,
+            systemType: m.system_type,
+            area: m.area,
+            tagName: m.tag_name,
+            measure: m.measure,
+            summaryType: m.summary_type,
+            enabled: m.enabled,
+            sortOrder: m.sort_order,
+            note: m.note
         };
     }
 
@@ -538,6 +1326,9 @@ export class StorageService {
             id: apiParam.id,
             tankId: apiParam.tank_id,
             steamProduction: parseFloat(apiParam.steam_production || 0),
+            blowdownPercent: apiParam.blowdown_percent !== null && apiParam.blowdown_percent !== undefined ? parseFloat(apiParam.blowdown_percent) : undefined,
+            condensateReturnPercent: apiParam.condensate_return_percent !== null && apiParam.condensate_return_percent !== undefined ? parseFloat(apiParam.condensate_return_percent) : undefined,
+            feedwaterDo: apiParam.feedwater_do !== null && apiParam.feedwater_do !== undefined ? parseFloat(apiParam.feedwater_do) : undefined,
             date: apiParam.date ? parseInt(apiParam.date) : undefined
         };
     }
@@ -547,6 +1338,57 @@ export class StorageService {
             id: param.id,
             tank_id: param.tankId,
             steam_production: param.steamProduction,
+            blowdown_percent: param.blowdownPercent ?? null,
+            condensate_return_percent: param.condensateReturnPercent ?? null,
+            feedwater_do: param.feedwaterDo ?? null,
+            date: param.date
+        };
+    }
+
+    private static convertDenoxParamFromAPI(apiParam: any): DenoxParameterRecord {
+        return {
+            id: apiParam.id,
+            tankId: apiParam.tank_id,
+            flueGasFlow: parseFloat(apiParam.flue_gas_flow || 0),
+            inletNox: parseFloat(apiParam.inlet_nox || 0),
+            outletNox: parseFloat(apiParam.outlet_nox || 0),
+            molarRatio: parseFloat(apiParam.molar_ratio || 0),
+            reagentConcentration: apiParam.reagent_concentration !== null && apiParam.reagent_concentration !== undefined ? parseFloat(apiParam.reagent_concentration) : undefined,
+            date: apiParam.date ? parseInt(apiParam.date) : undefined
+        };
+    }
+
+    private static convertDenoxParamToAPI(param: DenoxParameterRecord): any {
+        return {
+            id: param.id,
+            tank_id: param.tankId,
+            flue_gas_flow: param.flueGasFlow,
+            inlet_nox: param.inletNox,
+            outlet_nox: param.outletNox,
+            molar_ratio: param.molarRatio,
+            reagent_concentration: param.reagentConcentration ?? null,
+            date: param.date
+        };
+    }
+
+    private static convertWastewaterParamFromAPI(apiParam: any): WastewaterParameterRecord {
+        return {
+            id: apiParam.id,
+            tankId: apiParam.tank_id,
+            treatedFlow: parseFloat(apiParam.treated_flow || 0),
+            doseRatio: parseFloat(apiParam.dose_ratio || 0),
+            flowSource: apiParam.flow_source || 'MANUAL',
+            date: apiParam.date ? parseInt(apiParam.date) : undefined
+        };
+    }
+
+    private static convertWastewaterParamToAPI(param: WastewaterParameterRecord): any {
+        return {
+            id: param.id,
+            tank_id: param.tankId,
+            treated_flow: param.treatedFlow,
+            dose_ratio: param.doseRatio,
+            flow_source: param.flowSource || 'MANUAL',
             date: param.date
         };
     }
@@ -624,6 +1466,44 @@ export class StorageService {
         }
     }
 
+    static async updateAlertStatus(
+        id: string,
+        changes: { status?: AlertStatus; assignee?: string | null; dueAt?: number | null; comment?: string }
+    ): Promise<FluctuationAlert> {
+        try {
+            const result = await API.updateAlertStatus(id, {
+                status: changes.status,
+                assignee: changes.assignee,
+                due_at: changes.dueAt,
+                comment: changes.comment
+            });
+            return StorageService.convertAlertFromAPI(result);
+        } catch (err) {
+            console.error('Failed to update alert status:', err);
+            throw err;
+        }
+    }
+
+    static async getAlertHistory(id: string): Promise<AlertStatusHistoryEntry[]> {
+        try {
+            const rows = await API.fetchAlertHistory(id);
+            return rows.map((row: any) => ({
+                id: row.id,
+                alertId: row.alert_id,
+                fromStatus: row.from_status,
+                toStatus: row.to_status,
+                assignee: row.assignee,
+                dueAt: row.due_at != null ? Number(row.due_at) : null,
+                comment: row.comment,
+                changedBy: row.changed_by,
+                changedAt: row.changed_at
+            }));
+        } catch (err) {
+            console.error('Failed to get alert history:', err);
+            return [];
+        }
+    }
+
     static async deleteAlert(id: string): Promise<void> {
         try {
             await API.deleteAlert(id);
@@ -642,6 +1522,16 @@ export class StorageService {
         }
     }
 
+    static async runInstrumentDiagnostics(): Promise<FluctuationAlert[]> {
+        try {
+            const result = await API.runInstrumentDiagnostics();
+            return result.alerts.map(a => StorageService.convertAlertFromAPI(a));
+        } catch (err) {
+            console.error('Failed to run instrument diagnostics:', err);
+            throw err;
+        }
+    }
+
     private static convertAlertFromAPI(apiAlert: any): FluctuationAlert {
         return {
             id: apiAlert.id,
@@ -655,6 +1545,15 @@ export class StorageService {
             isPossibleRefill: apiAlert.is_possible_refill,
             source: apiAlert.source,
             note: apiAlert.note,
+            anomalyScore: apiAlert.anomaly_score != null ? parseFloat(apiAlert.anomaly_score) : null,
+            anomalyClass: apiAlert.anomaly_class || null,
+            status: apiAlert.status || 'OPEN',
+            assignee: apiAlert.assignee,
+            dueAt: apiAlert.due_at != null ? Number(apiAlert.due_at) : null,
+            acknowledgedAt: apiAlert.acknowledged_at != null ? Number(apiAlert.acknowledged_at) : null,
+            acknowledgedBy: apiAlert.acknowledged_by,
+            resolvedAt: apiAlert.resolved_at != null ? Number(apiAlert.resolved_at) : null,
+            escalationLevel: Number(apiAlert.escalation_level) || 0,
             createdAt: apiAlert.created_at
         };
     }
@@ -671,7 +1570,9 @@ export class StorageService {
             next_value: alert.nextValue,
             is_possible_refill: alert.isPossibleRefill,
             source: alert.source,
-            note: alert.note
+            note: alert.note,
+            anomaly_score: alert.anomalyScore,
+            anomaly_class: alert.anomalyClass
         };
     }
 }
@@ -0,0 +1,279 @@
+// usageEngine 黃金測試：各槽型體積、比重取值順序與有 / 無補藥的用量計算
+// 執行：npm test (node --test，無額外相依套件)
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    DAY_MS,
+    toEngineTank,
+    toEngineReading,
+    toEngineSupply,
+    calculateTankVolume,
+    calculateLevelFromVolume,
+    getSpecificGravityAt,
+    calculateActualUsage,
+    detectRefillEvents,
+    calculateAvgDailyUsageLiters,
+    calculateRecentAvgDailyUsageLiters,
+    buildUsageProfile,
+    scoreReadingAnomaly,
+    detectFlatLines,
+    detectUsageDrift
+} from '../utils/usageEngine.js';
+
+const assertClose = (actual, expected, tolerance = 1e-6) => {
+    assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+};
+
+const T0 = Date.UTC(2025, 0, 1);
+
+// 10 L/cm 方槽，方便以液位直接推算體積
+const rectangularTank = { shapeType: 'RECTANGULAR', dimensions: { length: 100, width: 100, diameter: 0 } };
+
+const makeReadings = (levels, added = {}) => levels.map((levelCm, index) => ({
+    id: `r${index}`,
+    timestamp: T0 + index * DAY_MS,
+    levelCm,
+    calculatedVolume: levelCm * 10,
+    addedAmountLiters: added[index] || 0,
+    appliedSpecificGravity: 0
+}));
+
+describe('calculateTankVolume', () => {
+    it('vertical cylinder uses πr²h', () => {
+        const tank = { shapeType: 'VERTICAL_CYLINDER', dimensions: { diameter: 200 } };
+        assertClose(calculateTankVolume(tank, 100), 3141.5926535897934);
+    });
+
+    it('vertical cylinder without diameter falls back to the legacy factor', () => {
+        assertClose(calculateTankVolume({ factor: 12.5 }, 80), 1000);
+        assertClose(calculateTankVolume({ shapeType: 'VERTICAL_CYLINDER', factor: 12.5, dimensions: { diameter: 0 } }, 80), 1000);
+    });
+
+    it('horizontal cylinder with flat heads', () => {
+        const tank = { shapeType: 'HORIZONTAL_CYLINDER', dimensions: { diameter: 100, length: 200, headType: 'FLAT' } };
+        assertClose(calculateTankVolume(tank, 50), 785.3981633974483);
+        assertClose(calculateTankVolume(tank, 100), 1570.7963267948965);
+    });
+
+    it('horizontal cylinder adds hemispherical and 2:1 semi-elliptical heads', () => {
+        const hemispherical = { shapeType: 'HORIZONTAL_CYLINDER', dimensions: { diameter: 100, length: 200, headType: 'HEMISPHERICAL' } };
+        const semiElliptical = { shapeType: 'HORIZONTAL_CYLINDER', dimensions: { diameter: 100, length: 200, headType: 'SEMI_ELLIPTICAL_2_1' } };
+        assertClose(calculateTankVolume(hemispherical, 100), 1570.7963267948965 + 523.5987755982989);
+        assertClose(calculateTankVolume(semiElliptical, 100), 1570.7963267948965 + 261.79938779914943);
+    });
+
+    it('rectangular tank applies sensor offset and clamps to height', () => {
+        assertClose(calculateTankVolume({ shapeType: 'RECTANGULAR', dimensions: { length: 100, width: 50, diameter: 0 } }, 40), 200);
+        assertClose(calculateTankVolume({ shapeType: 'RECTANGULAR', dimensions: { length: 100, width: 50, diameter: 0, sensorOffset: 10 } }, 30), 200);
+        assertClose(calculateTankVolume({ shapeType: 'RECTANGULAR', dimensions: { length: 100, width: 50, diameter: 0, height: 60 } }, 80), 300);
+        assertClose(calculateTankVolume({ shapeType: 'RECTANGULAR', dimensions: { length: 100, width: 50, diameter: 0 } }, -5), 0);
+    });
+
+    it('strapping table interpolates between, below and above calibration points', () => {
+        const tank = {
+            shapeType: 'STRAPPING_TABLE',
+            dimensions: { diameter: 0, strappingTable: [{ levelCm: 100, liters: 1000 }, { levelCm: 50, liters: 500 }, { levelCm: 200, liters: 2500 }] }
+        };
+        assertClose(calculateTankVolume(tank, 150), 1750);
+        assertClose(calculateTankVolume(tank, 25), 250);
+        assertClose(calculateTankVolume(tank, 260), 2500);
+    });
+
+    it('converts snake_case tank rows with JSON dimensions', () => {
+        const tank = toEngineTank({ id: 't1', shape_type: 'RECTANGULAR', geo_factor: '0', dimensions: '{"length":100,"width":50,"diameter":0}' });
+        assertClose(calculateTankVolume(tank, 40), 200);
+    });
+
+    it('calculateLevelFromVolume inverts the volume curve', () => {
+        const tank = { shapeType: 'VERTICAL_CYLINDER', dimensions: { diameter: 200, height: 300 } };
+        assertClose(calculateLevelFromVolume(tank, 3141.5926535897934), 100, 1e-6);
+        assert.equal(calculateLevelFromVolume(tank, 0), 0);
+    });
+});
+
+describe('getSpecificGravityAt', () => {
+    const reading = { timestamp: T0 + 10 * DAY_MS, levelCm: 0, calculatedVolume: 0, appliedSpecificGravity: 1.15 };
+
+    it('prefers the contract active at the reading time', () => {
+        const supplies = [
+            toEngineSupply({ start_date: T0, specific_gravity: '1.30' }),
+            toEngineSupply({ start_date: T0 + 5 * DAY_MS, specific_gravity: '1.25' }),
+            toEngineSupply({ start_date: T0 + 20 * DAY_MS, specific_gravity: '1.40' })
+        ];
+        assert.equal(getSpecificGravityAt(reading, supplies), 1.25);
+    });
+
+    it('falls back to the SG recorded on the reading, then to water', () => {
+        const futureSupply = [{ startDate: T0 + 20 * DAY_MS, specificGravity: 1.4 }];
+        assert.equal(getSpecificGravityAt(reading, futureSupply), 1.15);
+        assert.equal(getSpecificGravityAt({ ...reading, appliedSpecificGravity: 0 }, futureSupply), 1);
+        assert.equal(getSpecificGravityAt(toEngineReading({ timestamp: String(T0), level_cm: '10' }), []), 1);
+    });
+});
+
+describe('calculateActualUsage', () => {
+    const supplies = [{ startDate: T0, specificGravity: 1.2, price: 50 }];
+
+    it('uses first minus last reading when there is no refill', () => {
+        const readings = makeReadings([100, 90, 80]);
+        assert.deepEqual(calculateActualUsage(rectangularTank, readings, supplies, 'L'), { value: 200, hasEnoughData: true });
+        assertClose(calculateActualUsage(rectangularTank, readings, supplies, 'KG').value, 240);
+        assertClose(calculateActualUsage(rectangularTank, readings, supplies, '$').value, 12000);
+    });
+
+    it('treats a small level rise as noise rather than a refill', () => {
+        const readings = makeReadings([100, 90, 91, 80]);
+        assert.equal(calculateActualUsage(rectangularTank, readings, supplies, 'L').value, 200);
+        assert.equal(detectRefillEvents(rectangularTank, readings, supplies).length, 0);
+    });
+
+    it('subtracts a registered refill from the interval it was added in', () => {
+        const readings = makeReadings([100, 90, 150, 140], { 2: 600 });
+        assert.equal(calculateActualUsage(rectangularTank, readings, supplies, 'L').value, 200);
+        assertClose(calculateActualUsage(rectangularTank, readings, supplies, 'KG').value, 240);
+        assert.deepEqual(detectRefillEvents(rectangularTank, readings, supplies), [
+            { readingId: 'r2', timestamp: T0 + 2 * DAY_MS, liters: 600, actualKg: 720 }
+        ]);
+    });
+
+    it('counts an unregistered large rise as an implicit refill with zero usage', () => {
+        const readings = makeReadings([100, 90, 150, 140]);
+        assert.equal(calculateActualUsage(rectangularTank, readings, supplies, 'L').value, 200);
+        const [event] = detectRefillEvents(rectangularTank, readings, supplies);
+        assert.equal(event.liters, 600);
+        assertClose(event.actualKg, 720);
+    });
+
+    it('reports insufficient data with fewer than two readings', () => {
+        assert.deepEqual(calculateActualUsage(rectangularTank, makeReadings([100]), supplies), { value: 0, hasEnoughData: false });
+    });
+});
+
+describe('calculateAvgDailyUsageLiters', () => {
+    it('adds registered refills back before averaging over the covered days', () => {
+        assert.equal(calculateAvgDailyUsageLiters(makeReadings([100, 90, 80])), 100);
+        assert.equal(calculateAvgDailyUsageLiters(makeReadings([100, 90, 150, 140], { 2: 600 })), 200 / 3);
+        assert.equal(calculateAvgDailyUsageLiters(makeReadings([100])), 0);
+    });
+
+    it('only averages readings inside the usageCalcWeeks window', () => {
+        // 第 0 -> 1 天用 500 L、第 1 -> 2 天用 100 L，之後每天 10 L；1 週窗口自第 15 天起算
+        const readings = makeReadings([200, 150, ...Array.from({ length: 21 }, (_, i) => 140 - i)]);
+        const now = T0 + 22 * DAY_MS;
+        assert.equal(calculateRecentAvgDailyUsageLiters(readings, 1, now), 10);
+        assertClose(calculateRecentAvgDailyUsageLiters(readings, 8, now), calculateAvgDailyUsageLiters(readings));
+    });
+});
+
+describe('buildUsageProfile / scoreReadingAnomaly', () => {
+    // 13 筆單日讀數：日用量 8 ~ 12 L (中位數 10 L，MAD 1 L)
+    const drops = [1.0, 1.2, 0.8, 1.1, 0.9, 1.0, 1.2, 0.8, 1.0, 1.1, 0.9, 1.0];
+    const historyLevels = drops.reduce((levels, drop) => [...levels, levels[levels.length - 1] - drop], [500]);
+    const history = makeReadings(historyLevels);
+    const lastLevel = historyLevels[historyLevels.length - 1];
+    const profile = buildUsageProfile(rectangularTank, history);
+    const readingAt = (day, levelCm, extra = {}) => ({ id: `n${day}`, timestamp: T0 + day * DAY_MS, levelCm, calculatedVolume: levelCm * 10, ...extra });
+
+    it('learns the median and MAD-based scale from non-refill intervals', () => {
+        assert.equal(profile.sampleCount, 12);
+        assertClose(profile.overall.median, 10);
+        assertClose(profile.overall.scale, 1.4826);
+        assert.ok(profile.weekdays.every(weekday => weekday === null));
+    });
+
+    it('leaves the profile empty when there are too few samples', () => {
+        assert.deepEqual(buildUsageProfile(rectangularTank, history.slice(0, 5)), { sampleCount: 4, overall: null, weekdays: [] });
+    });
+
+    it('classifies a typical daily drop as NORMAL', () => {
+        const result = scoreReadingAnomaly(rectangularTank, readingAt(13, lastLevel - 1), history, profile);
+        assert.equal(result.classification, 'NORMAL');
+        assertClose(result.dailyUsageLiters, 10);
+        assertClose(result.score, 0);
+    });
+
+    it('classifies a moderately high usage as SUSPICIOUS', () => {
+        const result = scoreReadingAnomaly(rectangularTank, readingAt(13, lastLevel - 1.7), history, profile);
+        assert.equal(result.classification, 'SUSPICIOUS');
+        assertClose(result.score, 7 / 1.4826);
+    });
+
+    it('classifies an unregistered large rise as LIKELY_REFILL', () => {
+        const result = scoreReadingAnomaly(rectangularTank, readingAt(13, lastLevel + 100), history, profile);
+        assert.equal(result.classification, 'LIKELY_REFILL');
+    });
+
+    it('classifies a jump that reverts on the next reading as a SENSOR_FAULT spike', () => {
+        const next = readingAt(14, lastLevel - 2);
+        const result = scoreReadingAnomaly(rectangularTank, readingAt(13, lastLevel - 1.7), [...history, next], profile);
+        assert.equal(result.classification, 'SENSOR_FAULT');
+        assert.equal(result.next, next);
+    });
+
+    it('classifies negative or above-height levels as SENSOR_FAULT', () => {
+        const tallTank = { ...rectangularTank, dimensions: { ...rectangularTank.dimensions, height: 600 } };
+        assert.equal(scoreReadingAnomaly(tallTank, readingAt(13, 700), history, profile).classification, 'SENSOR_FAULT');
+        assert.equal(scoreReadingAnomaly(rectangularTank, readingAt(13, -1), history, profile).classification, 'SENSOR_FAULT');
+    });
+
+    it('reports INSUFFICIENT_DATA without a previous reading or a learned profile', () => {
+        const noPrev = scoreReadingAnomaly(rectangularTank, readingAt(0, 100), [], profile);
+        assert.equal(noPrev.classification, 'INSUFFICIENT_DATA');
+        assert.equal(noPrev.prev, null);
+        const shortHistory = history.slice(0, 3);
+        const noProfile = scoreReadingAnomaly(rectangularTank, readingAt(3, historyLevels[2] - 1), shortHistory);
+        assert.equal(noProfile.classification, 'INSUFFICIENT_DATA');
+        assert.equal(noProfile.score, null);
+    });
+});
+
+describe('detectFlatLines', () => {
+    it('ignores a flat run shorter than FLAT_LINE_MIN_DAYS', () => {
+        assert.deepEqual(detectFlatLines(rectangularTank, makeReadings([100, 99, 98, 97, 96, 96, 96])), []);
+    });
+
+    it('flags a flat run once the prior usage implies a drop of at least 1 cm', () => {
+        const [run] = detectFlatLines(rectangularTank, makeReadings([100, 99, 98, 97, 96, 96, 96, 96]));
+        assert.equal(run.days, 3);
+        assert.equal(run.readingCount, 4);
+        assert.equal(run.levelCm, 96);
+        assertClose(run.expectedDailyUsageLiters, 10);
+        assertClose(run.expectedDropCm, 3);
+    });
+
+    it('ignores a flat run whose expected drop is under 1 cm', () => {
+        const flat = makeReadings([50, 50, 50, 50]);
+        assert.deepEqual(detectFlatLines(rectangularTank, flat, { fallbackDailyUsageLiters: 2 }), []);
+        assert.equal(detectFlatLines(rectangularTank, flat, { fallbackDailyUsageLiters: 10 }).length, 1);
+    });
+
+    it('splits a flat run at a registered refill', () => {
+        const levels = [100, 99, 98, 97, 96, 96, 96, 96, 96];
+        assert.equal(detectFlatLines(rectangularTank, makeReadings(levels)).length, 1);
+        assert.deepEqual(detectFlatLines(rectangularTank, makeReadings(levels, { 6: 50 })), []);
+    });
+});
+
+describe('detectUsageDrift', () => {
+    const weeksWithDeviations = (deviations) => deviations.map((deviation, index) => ({
+        weekStart: T0 + index * 7 * DAY_MS,
+        theoreticalKg: 100,
+        actualKg: 100 * (1 + deviation)
+    }));
+
+    it('treats a steady offset as model error rather than drift', () => {
+        assert.equal(detectUsageDrift(weeksWithDeviations([0.3, 0.3, 0.3, 0.3, 0.3])), null);
+    });
+
+    it('flags a deviation that keeps growing past the threshold', () => {
+        const drift = detectUsageDrift(weeksWithDeviations([0, 0.1, 0.2, 0.3]));
+        assertClose(drift.slopePerWeek, 0.1);
+        assertClose(drift.trendChange, 0.3);
+        assertClose(drift.lastDeviation, 0.3);
+    });
+
+    it('needs at least DRIFT_MIN_WEEKS weeks with a theoretical usage', () => {
+        assert.equal(detectUsageDrift(weeksWithDeviations([0, 0.2, 0.4])), null);
+        assert.equal(detectUsageDrift([...weeksWithDeviations([0, 0.2, 0.4]), { weekStart: T0, theoreticalKg: 0, actualKg: 50 }]), null);
+    });
+});
@@ -7,7 +7,7 @@ export enum SystemType {
 
 export type InputUnit = 'CM' | 'PERCENT' | 'LIQUID_PERCENT';
 
-export type ShapeType = 'VERTICAL_CYLINDER' | 'HORIZONTAL_CYLINDER' | 'RECTANGULAR';
+export type ShapeType = 'VERTICAL_CYLINDER' | 'HORIZONTAL_CYLINDER' | 'RECTANGULAR' | 'STRAPPING_TABLE';
 export type HeadType = 'FLAT' | 'HEMISPHERICAL' | 'SEMI_ELLIPTICAL_2_1';
 
 export interface TankDimensions {
@@ -17,6 +17,13 @@ export interface TankDimensions {
   height?: number; // cm (Height reference)
   sensorOffset?: number; // cm (Distance from bottom to sensor 0)
   headType?: HeadType; // For Horizontal Cylinder
+  strappingTable?: StrappingPoint[]; // For STRAPPING_TABLE (vendor calibration chart)
+}
+
+// One row of a vendor strapping chart (level → volume)
+export interface StrappingPoint {
+  levelCm: number;
+  liters: number;
 }
 
 // Table B: Chemical Price/SG
@@ -30,9 +37,16 @@ export interface ChemicalSupply {
   startDate: number; // 生效日期
   notes?: string;
   targetPpm?: number; // 目標藥劑濃度 (ppm)
+  activeConcentration?: number; // 有效成分濃度 (% w/v)，用於換算每 kg 有效成分單價
 }
 
-export type CalculationMethod = 'NONE' | 'CWS_BLOWDOWN' | 'BWS_STEAM';
+export type CalculationMethod = 'NONE' | 'CWS_BLOWDOWN' | 'BWS_STEAM' | 'DENOX_NOX_REDUCTION' | 'WASTEWATER_DOSE';
+
+// 鍋爐藥劑類別：決定理論用量以給水、排放或補給水量計算 (見 usageEngine 鍋爐水加藥模型)
+export type BoilerChemicalType = 'OXYGEN_SCAVENGER' | 'PHOSPHATE' | 'AMINE' | 'STEAM';
+
+// 脫硝還原劑種類 (依儲槽名稱判斷，見 usageEngine 脫硝還原劑模型)
+export type DenoxReagentType = 'AMMONIA' | 'UREA';
 
 // Table C: CWS Theoretical Params
 export interface CWSParameterRecord {
@@ -53,6 +67,31 @@ export interface BWSParameterRecord {
   id?: string; // PK for history editing
   tankId: string; // Foreign Key
   steamProduction: number; // Tons/Week (Weekly Total)
+  blowdownPercent?: number; // % of feedwater
+  condensateReturnPercent?: number; // % of steam returned as condensate
+  feedwaterDo?: number; // ppb, dissolved oxygen entering chemical scavenging
+  date?: number; // Last Updated Timestamp
+}
+
+// DeNOx Theoretical Params (weekly averages)
+export interface DenoxParameterRecord {
+  id?: string; // PK for history editing
+  tankId: string; // Foreign Key
+  flueGasFlow: number; // Nm3/hr
+  inletNox: number; // ppm
+  outletNox: number; // ppm
+  molarRatio: number; // NH3/NOx mol ratio
+  reagentConcentration?: number; // wt%, undefined = default by reagent type
+  date?: number; // Last Updated Timestamp
+}
+
+// Wastewater Theoretical Params (weekly)
+export interface WastewaterParameterRecord {
+  id?: string; // PK for history editing
+  tankId: string; // Foreign Key
+  treatedFlow: number; // m3/Week (Weekly Total)
+  doseRatio: number; // mg/L of product, from jar test
+  flowSource?: 'MANUAL' | 'PI';
   date?: number; // Last Updated Timestamp
 }
 
@@ -69,12 +108,15 @@ export interface Tank {
 
   // Configuration
   calculationMethod?: CalculationMethod;
+  bwsChemicalType?: BoilerChemicalType; // BWS_STEAM only; undefined = infer from name
   shapeType?: ShapeType;
   dimensions?: TankDimensions;
 
   // Joined Data (from Table C & D)
   cwsParams?: CWSParameterRecord;
   bwsParams?: BWSParameterRecord;
+  denoxParams?: DenoxParameterRecord;
+  wastewaterParams?: WastewaterParameterRecord;
 
   inputUnit?: InputUnit; // 'CM' or 'PERCENT'
 
@@ -91,6 +133,23 @@ export interface Tank {
   // Valid specific gravity range for chemical supply validation
   sgRangeMin?: number; // Minimum acceptable SG
   sgRangeMax?: number; // Maximum acceptable SG
+
+  // Supplier lead time (days from order to delivery), falls back to app setting defaultLeadTimeDays
+  leadTimeDays?: number;
+
+  // Chemical master link and secondary containment (bund) area for incompatibility checks
+  chemicalId?: string;
+  containmentArea?: string;
+}
+
+// Tank consumption forecast (days until safe min / empty, and order-by date)
+export interface TankForecast {
+  daysToSafeMin: number | null;
+  daysToEmpty: number | null;
+  safeMinDate: number | null; // Timestamp
+  emptyDate: number | null; // Timestamp
+  orderByDate: number | null; // Timestamp: latest date to place an order (safeMinDate - leadTimeDays)
+  leadTimeDays: number;
 }
 
 // Table A: Tank Levels
@@ -151,11 +210,186 @@ export interface FluctuationAlert {
   prevValue?: number;
   nextValue?: number;
   isPossibleRefill: boolean;
-  source: 'IMPORT' | 'MANUAL';
+  source: 'IMPORT' | 'MANUAL' | 'INSTRUMENT'; // INSTRUMENT：液位計診斷 (停滯 / 漂移)
   note?: string;
   createdAt?: string;
 }
 
+// Delivery Orders (叫藥單)
+export type DeliveryOrderStatus = 'REQUESTED' | 'CONFIRMED' | 'DELIVERED' | 'RECONCILED';
+
+export interface DeliveryOrder {
+  id: string;
+  tankId: string;
+  supplyId?: string | null; // Linked ChemicalSupply batch
+  status: DeliveryOrderStatus;
+  orderedKg: number;
+  actualKg?: number | null; // From level rise (auto-matched refill) or manual entry
+  shortfallKg?: number | null; // orderedKg - actualKg
+  isShortfall: boolean;
+  requestedAt: number; // Timestamp
+  expectedAt?: number | null; // Timestamp
+  deliveredAt?: number | null; // Timestamp
+  matchedReadingId?: string | null;
+  note?: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// 離線暫存 (IndexedDB)：網路中斷時新增的液位與叫藥單，連線恢復後依序同步
+export type OfflineOperationKind = 'READING' | 'DELIVERY_ORDER';
+export type OfflineOperationStatus = 'PENDING' | 'CONFLICT' | 'FAILED';
+export type OfflineConflictResolution = 'KEEP_MINE' | 'KEEP_SERVER' | 'KEEP_BOTH';
+
+export interface OfflineOperation {
+  id: string;
+  kind: OfflineOperationKind;
+  tankId: string;
+  reading?: Reading;
+  deliveryOrder?: Partial<DeliveryOrder>;
+  status: OfflineOperationStatus;
+  queuedAt: number; // Timestamp
+  conflictWith?: Reading | null; // 同步時伺服器上已有他人輸入的同儲槽同日期讀數
+  error?: string | null;
+}
+
+// 年度預算：可依儲槽、藥品或系統設定 (scopeKey 分別為 tank id / 藥品名稱 / SystemType 值)
+export type BudgetScope = 'TANK' | 'CHEMICAL' | 'SYSTEM';
+
+export interface ChemicalBudget {
+  id: string;
+  year: number; // 西元年
+  scope: BudgetScope;
+  scopeKey: string;
+  amount: number; // 年度預算金額 (元)
+  note?: string | null;
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
+
+// 藥品主檔：GHS 危害分類 (對應 GHS 圖示) 與不相容群組 (同一防溢堤區不可並存的組合見後端 INCOMPATIBLE_GROUP_PAIRS)
+export type GhsHazardClass = 'EXPLOSIVE' | 'FLAMMABLE' | 'OXIDIZER' | 'COMPRESSED_GAS' | 'CORROSIVE' | 'ACUTE_TOXICITY' | 'IRRITANT' | 'HEALTH_HAZARD' | 'ENVIRONMENT';
+export type IncompatibilityGroup = 'ACID' | 'BASE' | 'OXIDIZER' | 'REDUCER' | 'HYPOCHLORITE' | 'AMMONIA' | 'FLAMMABLE';
+
+export interface ChemicalMaster {
+  id: string;
+  name: string;
+  casNumbers: string[];
+  ghsHazards: GhsHazardClass[];
+  ppe?: string | null;
+  incompatibilityGroups: IncompatibilityGroup[];
+  sdsRevisionDate?: number | null; // SDS 改版日期
+  sdsFileName?: string | null; // 已上傳的 SDS PDF
+  sdsUploadedAt?: string | null;
+  isRegulated: boolean; // 毒性及關注化學物質列管 (需定期申報運作紀錄)
+  regulatoryNo?: string | null; // 列管編號
+  note?: string | null;
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
+
+export type ChemicalSafetyWarningType = 'SDS_MISSING' | 'SDS_OUTDATED' | 'INCOMPATIBLE_STORAGE';
+
+export interface ChemicalSafetyWarning {
+  type: ChemicalSafetyWarningType;
+  chemicalIds: string[];
+  tankIds: string[];
+  message: string;
+}
+
+// User Roles (角色權限)
+export type UserRole = 'operator' | 'engineer' | 'admin';
+
+export interface UserRoleAssignment {
+  username: string;
+  role: UserRole;
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
+
+// 即時推播事件 (/api/events)：事件名稱同異動紀錄 entity type，另有 settings
+export type LiveEventType = 'tank' | 'reading' | 'supply' | 'alert' | 'note' | 'chemical' | 'settings';
+
+export interface LiveEvent {
+  type: LiveEventType;
+  actions?: string[];
+  tankIds?: string[];
+  changedBy?: string;
+  at: number;
+}
+
+export type AuditEntityType = 'tank' | 'reading' | 'supply' | 'cws-param' | 'bws-param' | 'budget' | 'chemical' | 'note' | 'alert';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'REVERT';
+
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  tankId?: string | null;
+  action: AuditAction;
+  beforeData?: Record<string, any> | null;
+  afterData?: Record<string, any> | null;
+  changedBy?: string | null;
+  changedAt: number;
+  revertOf?: string | null;
+  revertedAt?: number | null;
+  revertedBy?: string | null;
+}
+
+export type RecycleBinEntityType = 'tank' | 'reading' | 'supply' | 'note';
+
+export interface RecycleBinItem {
+  entityType: RecycleBinEntityType;
+  entityId: string;
+  tankId?: string | null;
+  deletedAt: number;
+  deletedBy?: string | null;
+  purgeableAt: number;
+  data: Record<string, any>;
+}
+
+export type PiImportRunStatus = 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED';
+
+export interface PiImportTagResult {
+  week: string; // YYYY-MM-DD
+  group: string;
+  tag: string;
+  summaryType: string;
+  value: number;
+  error?: string | null;
+}
+
+export interface PiImportRun {
+  id: string;
+  trigger: 'MANUAL' | 'SCHEDULED';
+  status: PiImportRunStatus;
+  weeks: number;
+  periodStart?: number | null;
+  periodEnd?: number | null;
+  tagResults: PiImportTagResult[];
+  message?: string | null;
+  error?: string | null;
+  triggeredBy?: string | null;
+  startedAt: number;
+  finishedAt?: number | null;
+}
+
+export type PiTagSystemType = 'BWS' | 'CWS' | 'WWS';
+export type PiTagMeasure = 'steam' | 'flow' | 'temp_outlet' | 'temp_return' | 'treated_flow';
+
+export interface PiTagMapping {
+  id: string;
+  systemType: PiTagSystemType;
+  area: string; // e.g. 'CT-1', 'CT-2', 'BWS'
+  tagName: string;
+  measure: PiTagMeasure;
+  summaryType: 'Total' | 'Average';
+  enabled: boolean;
+  sortOrder?: number;
+  note?: string | null;
+}
+
 export type InstrumentWaterType = 'CW' | 'BW';
 export type InstrumentConsumableUsageType = 'calibration' | 'general';
 
@@ -210,7 +444,35 @@ export interface InstrumentConsumableOpening {
   updatedAt?: string;
 }
 
+// 現場巡檢：依儲槽排序逐槽抄錄液位與檢查項目，完成後整批儲存
+export type FieldRoundCheckItem = 'LEAK' | 'PUMP' | 'BUND';
+export type FieldRoundCheckResult = 'OK' | 'ABNORMAL';
+
+export interface FieldRoundItem {
+  id?: string;
+  tankId: string;
+  readingId?: string | null;
+  reading?: Reading | null; // 僅於儲存時帶入
+  skipped: boolean;
+  checklist: Partial<Record<FieldRoundCheckItem, FieldRoundCheckResult>>;
+  note?: string | null;
+  hasPhoto?: boolean;
+}
+
+export interface FieldRound {
+  id?: string;
+  roundDate: string; // YYYY-MM-DD
+  operatorName?: string | null;
+  startedAt?: number | null; // Timestamp
+  completedAt?: number | null; // Timestamp
+  items: FieldRoundItem[];
+}
+
 // Fluctuation Alerts
+// 讀數統計異常分類 (utils/usageEngine.js scoreReadingAnomaly)；
+// FLAT_LINE / DRIFT 由伺服器液位計診斷產生 (detectFlatLines / detectUsageDrift)
+export type AnomalyClassification = 'NORMAL' | 'SUSPICIOUS' | 'LIKELY_REFILL' | 'SENSOR_FAULT' | 'INSUFFICIENT_DATA' | 'FLAT_LINE' | 'DRIFT';
+
 export interface FluctuationAlert {
   id: string;
   tankId: string;
@@ -221,7 +483,68 @@ export interface FluctuationAlert {
   prevValue?: number;
   nextValue?: number;
   isPossibleRefill: boolean;
-  source: 'IMPORT' | 'MANUAL';
+  source: 'IMPORT' | 'MANUAL' | 'INSTRUMENT'; // INSTRUMENT：液位計診斷 (停滯 / 漂移)
   note?: string;
+  anomalyScore?: number | null; // robust z (統計偵測)，固定閾值判斷時為 null
+  anomalyClass?: AnomalyClassification | null;
+  status: AlertStatus;
+  assignee?: string | null;
+  dueAt?: number | null; // Timestamp，處理期限
+  acknowledgedAt?: number | null; // Timestamp
+  acknowledgedBy?: string | null;
+  resolvedAt?: number | null; // Timestamp
+  escalationLevel: number; // 逾時未處理重新推送次數
   createdAt?: string;
 }
+
+// 警報狀態流程：OPEN (待處理) → ACKNOWLEDGED (已確認) → RESOLVED (已解決) / DISMISSED (誤報)
+export type AlertStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED' | 'DISMISSED';
+
+export interface AlertStatusHistoryEntry {
+  id: string;
+  alertId: string;
+  fromStatus?: AlertStatus | null; // 新增時為 null
+  toStatus: AlertStatus;
+  assignee?: string | null;
+  dueAt?: number | null; // Timestamp
+  comment?: string | null;
+  changedBy?: string | null;
+  changedAt: string;
+}
+
+// Notification Rules (管理者自訂通知規則，伺服器每小時評估)
+export type NotificationTriggerType = 'TANK_BELOW_SAFE' | 'FORECAST_EMPTY' | 'WATER_QUALITY_OUT_OF_LIMITS' | 'ALERT_UNACKNOWLEDGED' | 'CONSUMABLE_EXPIRING';
+export type NotificationChannel = 'PIMCP' | 'EMAIL' | 'WEBHOOK';
+
+export interface NotificationRuleParams {
+  tankIds?: string[]; // TANK_BELOW_SAFE / FORECAST_EMPTY，空白為全部儲槽
+  days?: number; // FORECAST_EMPTY：N 天內見底；CONSUMABLE_EXPIRING：N 天內到期
+  hours?: number; // ALERT_UNACKNOWLEDGED
+  waterType?: string; // WATER_QUALITY_OUT_OF_LIMITS，空白為全部
+  lookbackDays?: number; // WATER_QUALITY_OUT_OF_LIMITS：檢查近 N 天檢驗
+}
+
+export interface NotificationChannelConfig {
+  subscriptionId?: number; // PIMCP
+  to?: string; // EMAIL，逗號分隔
+  url?: string; // WEBHOOK
+}
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  triggerType: NotificationTriggerType;
+  params: NotificationRuleParams;
+  channel: NotificationChannel;
+  channelConfig: NotificationChannelConfig;
+  quietHoursStart?: string | null; // HH:MM (台北時間)
+  quietHoursEnd?: string | null;
+  dedupeKeyTemplate?: string | null; // 預設 {rule}:{subject}
+  dedupeWindowHours: number;
+  enabled: boolean;
+  lastSentAt?: string | null;
+  lastStatus?: 'SENT' | 'FAILED' | null;
+  lastError?: string | null;
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
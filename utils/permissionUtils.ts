@@ -0,0 +1,21 @@
+import type { UserRole } from '../types';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+    operator: '操作員',
+    engineer: '工程師',
+    admin: '管理者'
+};
+
+const ROLE_ORDER: UserRole[] = ['operator', 'engineer', 'admin'];
+
+/**
+ * Check whether a role satisfies the required role (operator < engineer < admin).
+ * Mirrors `hasRole` in server.js; the server remains the source of truth.
+ *
+ * @param role Current user's role (null when the user could not be identified)
+ * @param requiredRole Minimum role needed for the action
+ */
+export const hasRole = (role: UserRole | null | undefined, requiredRole: UserRole): boolean => {
+    if (!role) return false;
+    return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(requiredRole);
+};
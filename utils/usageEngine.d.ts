@@ -0,0 +1,309 @@
+// Type declarations for usageEngine.js (shared by frontend, Express routes and MCP tools)
+import type { ShapeType, TankDimensions, InputUnit, StrappingPoint, TankForecast, BoilerChemicalType, DenoxReagentType, AnomalyClassification } from '../types';
+
+export declare const DAY_MS: number;
+export declare const LIKELY_REFILL_RISE_DAYS: number;
+
+export type UsageMetric = 'KG' | 'L' | '$';
+
+export interface EngineTank {
+    id?: string;
+    shapeType?: ShapeType;
+    factor?: number;
+    dimensions?: TankDimensions;
+    inputUnit?: InputUnit;
+    safeMinLevel?: number;
+}
+
+export interface EngineReading {
+    id?: string;
+    timestamp: number;
+    levelCm: number;
+    calculatedVolume: number;
+    addedAmountLiters?: number;
+    appliedSpecificGravity?: number;
+}
+
+export interface EngineSupply {
+    id?: string;
+    startDate: number;
+    specificGravity: number;
+    price?: number;
+    targetPpm?: number;
+}
+
+export interface LevelInterval<R extends EngineReading = EngineReading> {
+    prev: R;
+    curr: R;
+    prevVolume: number;
+    currVolume: number;
+    addedLiters: number;
+    decreaseLiters: number;
+    riseLiters: number;
+    isImplicitRefill: boolean;
+    isRefill: boolean;
+}
+
+export interface RefillEvent {
+    readingId?: string;
+    timestamp: number;
+    liters: number;
+    actualKg: number;
+}
+
+// 轉換前的資料列：前端物件 (camelCase) 或 PostgreSQL 資料列 (snake_case，NUMERIC 欄位為字串)
+type NumericField = number | string | null;
+
+export interface TankRow {
+    id?: string;
+    shapeType?: ShapeType | null;
+    shape_type?: ShapeType | null;
+    factor?: NumericField;
+    geo_factor?: NumericField;
+    dimensions?: TankDimensions | string | null;
+    inputUnit?: InputUnit | null;
+    input_unit?: InputUnit | null;
+    safeMinLevel?: NumericField;
+    safe_min_level?: NumericField;
+}
+
+export interface ReadingRow {
+    id?: string;
+    timestamp: NumericField;
+    levelCm?: NumericField;
+    level_cm?: NumericField;
+    calculatedVolume?: NumericField;
+    calculated_volume?: NumericField;
+    addedAmountLiters?: NumericField;
+    added_amount_liters?: NumericField;
+    appliedSpecificGravity?: NumericField;
+    applied_sg?: NumericField;
+}
+
+export interface SupplyRow {
+    id?: string;
+    startDate?: NumericField;
+    start_date?: NumericField;
+    specificGravity?: NumericField;
+    specific_gravity?: NumericField;
+    price?: NumericField;
+    targetPpm?: NumericField;
+    target_ppm?: NumericField;
+}
+
+// manual_water_quality_readings 資料列 (data 為 指標名稱 → 數值)
+export interface WaterQualityRow {
+    test_date?: string;
+    testDate?: string;
+    sample_point?: string;
+    samplePoint?: string;
+    data: Record<string, unknown>;
+}
+
+export declare const toEngineTank: (row: TankRow) => EngineTank;
+export declare const toEngineReading: (row: ReadingRow) => EngineReading;
+export declare const toEngineSupply: (row: SupplyRow) => EngineSupply;
+
+export declare const interpolateStrappingTable: (table: StrappingPoint[], levelCm: number) => number;
+export declare const calculateTankVolume: (tank: EngineTank, levelCm: number) => number;
+export declare const calculateLevelFromVolume: (tank: EngineTank, liters: number) => number;
+
+export declare const getActiveSupplyAt: <S extends EngineSupply>(timestamp: number, supplies: S[]) => S | undefined;
+export declare const getSpecificGravityAt: (reading: EngineReading, supplies: EngineSupply[]) => number;
+
+export declare const analyzeLevelIntervals: <R extends EngineReading>(tank: EngineTank, readings: R[]) => {
+    orderedReadings: R[];
+    intervals: LevelInterval<R>[];
+    estimatedDailyUsageLiters: number;
+    getVolume: (reading: R) => number;
+};
+export declare const calculateActualUsage: (
+    tank: EngineTank,
+    readings: EngineReading[],
+    supplies?: EngineSupply[],
+    metric?: UsageMetric
+) => { value: number; hasEnoughData: boolean };
+export declare const detectRefillEvents: (tank: EngineTank, readings: EngineReading[], supplies?: EngineSupply[]) => RefillEvent[];
+export declare const DEFAULT_USAGE_CALC_WEEKS: number;
+export declare const calculateAvgDailyUsageLiters: (readings: EngineReading[]) => number;
+export declare const calculateRecentAvgDailyUsageLiters: (readings: EngineReading[], usageCalcWeeks?: number, now?: number) => number;
+export declare const calculateTankForecast: (
+    tank: EngineTank,
+    currentVolume: number,
+    fromTimestamp: number,
+    avgDailyUsageLiters: number,
+    leadTimeDays: number
+) => TankForecast;
+
+export declare const ANOMALY_SUSPICIOUS_SCORE: number;
+export declare const ANOMALY_SENSOR_FAULT_SCORE: number;
+
+export interface UsageDistribution {
+    median: number; // L/日
+    scale: number; // MAD × 1.4826 (含下限)
+    count: number;
+}
+
+export interface UsageProfile {
+    sampleCount: number;
+    overall: UsageDistribution | null;
+    weekdays: (UsageDistribution | null)[]; // 0 = 週日
+}
+
+export interface ReadingAnomalyScore<R extends EngineReading = EngineReading> {
+    classification: AnomalyClassification;
+    score: number | null; // robust z，正值為用量偏高、負值為偏低或上升
+    dailyUsageLiters: number | null;
+    expectedDailyUsageLiters: number | null;
+    upperLimitLiters: number | null;
+    prev: R | null;
+    next: R | null;
+}
+
+export declare const buildUsageProfile: (tank: EngineTank, readings: EngineReading[]) => UsageProfile;
+export declare const scoreReadingAnomaly: <R extends EngineReading>(
+    tank: EngineTank,
+    reading: EngineReading,
+    history: R[],
+    profile?: UsageProfile
+) => ReadingAnomalyScore<R>;
+
+export declare const FLAT_LINE_MIN_DAYS: number;
+export declare const DRIFT_MIN_WEEKS: number;
+export declare const DRIFT_THRESHOLD: number;
+
+export interface FlatLineRun {
+    startTimestamp: number;
+    endTimestamp: number;
+    days: number;
+    levelCm: number;
+    readingCount: number;
+    expectedDailyUsageLiters: number;
+    expectedUsageLiters: number;
+    expectedDropCm: number;
+}
+
+export interface UsageDriftWeek {
+    weekStart: number;
+    actualKg: number;
+    theoreticalKg: number;
+}
+
+export interface UsageDriftResult {
+    slopePerWeek: number; // 偏差比例 / 週
+    trendChange: number; // 整段期間偏差變化
+    lastDeviation: number; // 最近一週 (實測 - 理論) / 理論
+    points: { weekStart: number; deviation: number }[];
+}
+
+export declare const detectFlatLines: (
+    tank: EngineTank,
+    readings: EngineReading[],
+    options?: { minDays?: number; fallbackDailyUsageLiters?: number }
+) => FlatLineRun[];
+export declare const detectUsageDrift: (
+    weeks: UsageDriftWeek[],
+    options?: { minWeeks?: number; threshold?: number }
+) => UsageDriftResult | null;
+
+export declare const DEFAULT_CONCENTRATION_CYCLES: number;
+export declare const DEFAULT_DRIFT_PERCENT: number;
+export declare const COOLING_TOWER_SAMPLE_POINTS: Record<string, string>;
+export declare const MAKEUP_WATER_SAMPLE_POINT: string;
+
+export type ConcentrationCyclesSource = 'HARDNESS' | 'CHLORIDE' | 'CONDUCTIVITY' | 'MANUAL' | 'DEFAULT';
+
+export interface WaterQualityCycleRatios {
+    testDate: string;
+    chloride: { cooling: number | null; makeup: number | null };
+    conductivity: { cooling: number | null; makeup: number | null };
+    chlorideRatio: number | null;
+    conductivityRatio: number | null;
+}
+
+export interface CoolingTowerBalance {
+    evaporationM3: number;
+    driftM3: number;
+    blowdownM3: number;
+    controlledBlowdownM3: number;
+    makeupM3: number;
+    holdupVolumeM3: number;
+    halfLifeHours: number | null;
+}
+
+export declare const getCoolingTowerArea: (
+    tank: { id?: string; name?: string; description?: string },
+    areaTanks?: Record<string, string[]>
+) => string;
+export declare const findWaterQualityCycleRatios: (
+    readings: WaterQualityRow[],
+    samplePoint: string,
+    timestamp: number,
+    windowDays?: number
+) => WaterQualityCycleRatios | null;
+export declare const resolveConcentrationCycles: (
+    params?: { cwsHardness?: number; makeupHardness?: number; concentrationCycles?: number } | null,
+    ratios?: WaterQualityCycleRatios | null
+) => { cycles: number; source: ConcentrationCyclesSource; formula: string };
+export declare const calculateCoolingTowerBalance: (input: {
+    circulationRate: number;
+    tempDiff: number;
+    cycles: number;
+    hours: number;
+    driftPercent?: number;
+    holdupVolume?: number;
+}) => CoolingTowerBalance;
+export declare const calculateHoldupPpmIncrease: (supplies: EngineSupply[], startTime: number, endTime: number) => number;
+export declare const calculateCoolingChemicalDemandKg: (
+    balance: CoolingTowerBalance,
+    targetPpm: number,
+    holdupPpmIncrease?: number
+) => { blowdownKg: number; holdupKg: number; totalKg: number };
+
+export declare const OXYGEN_SCAVENGER_RATIO: number;
+
+export interface BoilerWaterBalance {
+    steamTons: number;
+    feedwaterTons: number;
+    blowdownTons: number;
+    condensateTons: number;
+    makeupTons: number;
+}
+
+export declare const getBoilerChemicalType: (
+    tank: { name?: string; description?: string; bwsChemicalType?: BoilerChemicalType }
+) => BoilerChemicalType;
+export declare const calculateBoilerWaterBalance: (input: {
+    steamTons: number;
+    blowdownPercent?: number;
+    condensateReturnPercent?: number;
+}) => BoilerWaterBalance;
+export declare const calculateBoilerChemicalDemandKg: (
+    chemicalType: BoilerChemicalType,
+    params: { steamProduction: number; blowdownPercent?: number; condensateReturnPercent?: number; feedwaterDo?: number } | null | undefined,
+    targetPpm: number
+) => BoilerWaterBalance & { basisTons: number; effectivePpm: number; kg: number };
+
+export declare const DEFAULT_DENOX_REAGENT_CONCENTRATION: Record<DenoxReagentType, number>;
+
+export interface DenoxReagentDemand {
+    removalEfficiency: number;
+    noxRemovedKg: number;
+    nh3Kg: number;
+    reagentPureKg: number;
+    reagentConcentration: number;
+    kg: number;
+}
+
+export declare const getDenoxReagentType: (tank: { name?: string; description?: string }) => DenoxReagentType;
+export declare const calculateDenoxReagentDemandKg: (input: {
+    flueGasFlow: number;
+    inletNox: number;
+    outletNox: number;
+    molarRatio: number;
+    hours: number;
+    reagentType?: DenoxReagentType;
+    reagentConcentration?: number;
+}) => DenoxReagentDemand;
+
+export declare const calculateWastewaterDemandKg: (input: { treatedFlow: number; doseRatio: number }) => number;
@@ -0,0 +1,828 @@
+// usageEngine.js
+// 液位 → 體積 → 用量的共用計算核心：前端 (React)、後端報表路由與 MCP 工具皆引用此檔，
+// 請勿在其他地方複製計算邏輯。型別定義見 usageEngine.d.ts。
+// 輸入一律為 camelCase 物件；後端資料列請先經 toEngineTank / toEngineReading / toEngineSupply 轉換。
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+// 液位上升達「N 天估計用量」即視為補藥
+export const LIKELY_REFILL_RISE_DAYS = 5;
+
+// ==================== 資料列轉換 (snake_case → camelCase) ====================
+
+const toNumberOr = (value, fallback) => {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : fallback;
+};
+
+const parseDimensions = (dimensions) => {
+    if (typeof dimensions === 'string') {
+        try { return JSON.parse(dimensions); } catch (e) { return undefined; }
+    }
+    return dimensions || undefined;
+};
+
+export const toEngineTank = (row) => ({
+    id: row.id,
+    shapeType: row.shapeType ?? row.shape_type ?? undefined,
+    factor: toNumberOr(row.factor ?? row.geo_factor, 0),
+    dimensions: parseDimensions(row.dimensions),
+    inputUnit: row.inputUnit ?? row.input_unit ?? undefined,
+    safeMinLevel: toNumberOr(row.safeMinLevel ?? row.safe_min_level, 20)
+});
+
+export const toEngineReading = (row) => ({
+    id: row.id,
+    timestamp: Number(row.timestamp),
+    levelCm: toNumberOr(row.levelCm ?? row.level_cm, 0),
+    calculatedVolume: toNumberOr(row.calculatedVolume ?? row.calculated_volume, 0),
+    addedAmountLiters: toNumberOr(row.addedAmountLiters ?? row.added_amount_liters, 0),
+    appliedSpecificGravity: toNumberOr(row.appliedSpecificGravity ?? row.applied_sg, 0)
+});
+
+export const toEngineSupply = (row) => ({
+    id: row.id,
+    startDate: Number(row.startDate ?? row.start_date),
+    specificGravity: toNumberOr(row.specificGravity ?? row.specific_gravity, 0),
+    price: toNumberOr(row.price, 0),
+    targetPpm: toNumberOr(row.targetPpm ?? row.target_ppm, 0)
+});
+
+// ==================== 體積 ====================
+
+/**
+ * 依液位-容積對照表線性內插體積 (L)。
+ * 低於第一點時由 (0 cm, 0 L) 內插；高於最後一點時回傳最後一點容積。
+ */
+export const interpolateStrappingTable = (table, levelCm) => {
+    const points = (table || [])
+        .map(p => ({ levelCm: Number(p.levelCm), liters: Number(p.liters) }))
+        .filter(p => Number.isFinite(p.levelCm) && Number.isFinite(p.liters))
+        .sort((a, b) => a.levelCm - b.levelCm);
+    if (points.length === 0) return 0;
+
+    const first = points[0];
+    if (levelCm <= first.levelCm) {
+        return first.levelCm > 0 ? Math.max(0, levelCm) / first.levelCm * first.liters : first.liters;
+    }
+
+    for (let i = 1; i < points.length; i++) {
+        const lower = points[i - 1];
+        const upper = points[i];
+        if (levelCm <= upper.levelCm) {
+            const span = upper.levelCm - lower.levelCm;
+            if (span <= 0) return upper.liters;
+            return lower.liters + (levelCm - lower.levelCm) / span * (upper.liters - lower.liters);
+        }
+    }
+
+    return points[points.length - 1].liters;
+};
+
+/**
+ * 依儲槽形狀與液位 (cm) 計算體積 (L)。
+ * 未設定尺寸時退回線性因子 (L/cm)；sensorOffset 為液位計零點與槽底的距離。
+ */
+export const calculateTankVolume = (tank, levelCm) => {
+    const factor = Number(tank.factor) || 0;
+    const dimensions = parseDimensions(tank.dimensions);
+
+    // 舊資料相容：垂直圓柱且未輸入直徑時使用因子
+    if (!tank.shapeType || tank.shapeType === 'VERTICAL_CYLINDER') {
+        if (!dimensions?.diameter && factor) {
+            return levelCm * factor;
+        }
+    }
+
+    if (!dimensions) {
+        return factor ? levelCm * factor : 0;
+    }
+
+    const diameter = Number(dimensions.diameter) || 0;
+    const length = Number(dimensions.length) || 0;
+    const width = Number(dimensions.width) || 0;
+    const height = Number(dimensions.height) || 0;
+    const sensorOffset = Number(dimensions.sensorOffset) || 0;
+    const headType = dimensions.headType || 'SEMI_ELLIPTICAL_2_1';
+
+    // 實際液位 = 讀數 + 零點偏差，並限制在 0 ~ 槽高
+    let h = levelCm + sensorOffset;
+    if (h < 0) h = 0;
+    if (height && h > height) h = height;
+
+    if (tank.shapeType === 'STRAPPING_TABLE') {
+        const table = dimensions.strappingTable;
+        if (!Array.isArray(table) || table.length === 0) return factor ? levelCm * factor : 0;
+        return interpolateStrappingTable(table, h);
+    }
+
+    if (tank.shapeType === 'VERTICAL_CYLINDER') {
+        if (!diameter) return factor ? levelCm * factor : 0;
+        const r = diameter / 2;
+        return (Math.PI * Math.pow(r, 2) * h) / 1000;
+    }
+
+    if (tank.shapeType === 'RECTANGULAR') {
+        if (!width || !length) return factor ? levelCm * factor : 0;
+        return (length * width * h) / 1000;
+    }
+
+    if (tank.shapeType === 'HORIZONTAL_CYLINDER') {
+        if (!diameter || !length) return factor ? levelCm * factor : 0;
+        const r = diameter / 2;
+        const hCalc = Math.min(h, diameter);
+
+        // 圓柱段：弓形面積 × 長度
+        let segmentArea = 0;
+        if (hCalc >= diameter) {
+            segmentArea = Math.PI * Math.pow(r, 2);
+        } else if (hCalc > 0) {
+            segmentArea = Math.pow(r, 2) * Math.acos((r - hCalc) / r) - (r - hCalc) * Math.sqrt(2 * r * hCalc - Math.pow(hCalc, 2));
+        }
+        const vCyl = length * segmentArea;
+
+        // 兩端封頭合計 = 同液位球缺體積 (半球形)；2:1 半橢圓為其 0.5 倍
+        let vHeads = 0;
+        if (headType === 'HEMISPHERICAL' || headType === 'SEMI_ELLIPTICAL_2_1') {
+            const vSphereCap = (Math.PI * Math.pow(hCalc, 2) / 3) * (3 * r - hCalc);
+            vHeads = headType === 'HEMISPHERICAL' ? vSphereCap : vSphereCap * 0.5;
+        }
+
+        return (vCyl + vHeads) / 1000;
+    }
+
+    return 0;
+};
+
+/**
+ * 由體積 (L) 反推液位讀數 (cm)，以二分法求解 calculateTankVolume 的反函數 (體積隨液位單調遞增)。
+ * 上限取槽高；未設定槽高時以 10 m 為上限。
+ */
+export const calculateLevelFromVolume = (tank, liters) => {
+    if (!(liters > 0)) return 0;
+    const dimensions = parseDimensions(tank.dimensions);
+    let high = Number(dimensions?.height) || 1000;
+    if (calculateTankVolume(tank, high) <= liters) return high;
+
+    let low = 0;
+    for (let i = 0; i < 40; i++) {
+        const mid = (low + high) / 2;
+        if (calculateTankVolume(tank, mid) < liters) low = mid;
+        else high = mid;
+    }
+    return (low + high) / 2;
+};
+
+// ==================== 合約 / 比重 ====================
+
+export const getActiveSupplyAt = (timestamp, supplies) => {
+    return (supplies || [])
+        .filter(s => s.startDate <= timestamp)
+        .sort((a, b) => b.startDate - a.startDate)[0];
+};
+
+/**
+ * 比重取值順序：讀數當下有效合約 → 讀數登錄比重 → 1.0 (水)
+ */
+export const getSpecificGravityAt = (reading, supplies) => {
+    const activeSupply = getActiveSupplyAt(reading.timestamp, supplies);
+    return activeSupply?.specificGravity || reading.appliedSpecificGravity || 1;
+};
+
+// ==================== 用量 ====================
+
+/**
+ * 分析相鄰讀數區間：體積變化、估計日用量，並標記補藥區間
+ * (有登錄 addedAmountLiters，或液位上升達 LIKELY_REFILL_RISE_DAYS 天估計用量)。
+ */
+export const analyzeLevelIntervals = (tank, readings) => {
+    const orderedReadings = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+
+    const getVolume = (reading) => {
+        const volume = calculateTankVolume(tank, reading.levelCm);
+        if (Number.isFinite(volume) && volume >= 0) return volume;
+        return reading.calculatedVolume || 0;
+    };
+
+    const intervals = orderedReadings.slice(1).map((curr, index) => {
+        const prev = orderedReadings[index];
+        const prevVolume = getVolume(prev);
+        const currVolume = getVolume(curr);
+
+        return {
+            prev,
+            curr,
+            prevVolume,
+            currVolume,
+            addedLiters: curr.addedAmountLiters || 0,
+            decreaseLiters: Math.max(0, prevVolume - currVolume),
+            riseLiters: Math.max(0, currVolume - prevVolume),
+            isImplicitRefill: false,
+            isRefill: false
+        };
+    });
+
+    let estimatedDailyUsageLiters = 0;
+    if (orderedReadings.length >= 2) {
+        const firstTs = orderedReadings[0].timestamp;
+        const lastTs = orderedReadings[orderedReadings.length - 1].timestamp;
+        const elapsedDays = Math.max(1, (lastTs - firstTs) / DAY_MS);
+        estimatedDailyUsageLiters = intervals.reduce((sum, interval) => sum + interval.decreaseLiters, 0) / elapsedDays;
+    }
+    const likelyRefillRiseThresholdLiters = estimatedDailyUsageLiters * LIKELY_REFILL_RISE_DAYS;
+
+    for (const interval of intervals) {
+        interval.isImplicitRefill = estimatedDailyUsageLiters > 0 && interval.riseLiters >= likelyRefillRiseThresholdLiters;
+        interval.isRefill = interval.addedLiters > 0 || interval.isImplicitRefill;
+    }
+
+    return { orderedReadings, intervals, estimatedDailyUsageLiters, getVolume };
+};
+
+/**
+ * 由液位計算期間實際用量。metric: 'L' | 'KG' | '$' (金額 = kg × 合約單價)。
+ * 無補藥時取首末讀數差；有補藥時逐區間累加 (補藥區間扣除補入量或視為 0)。
+ */
+export const calculateActualUsage = (tank, readings, supplies = [], metric = 'KG') => {
+    const { orderedReadings, intervals, getVolume } = analyzeLevelIntervals(tank, readings);
+    if (orderedReadings.length < 2) return { value: 0, hasEnoughData: false };
+
+    const toMetric = (liters, readingForContract) => {
+        if (liters <= 0) return 0;
+        if (metric === 'L') return liters;
+        const kg = liters * getSpecificGravityAt(readingForContract, supplies);
+        if (metric === '$') {
+            return kg * (getActiveSupplyAt(readingForContract.timestamp, supplies)?.price || 0);
+        }
+        return kg;
+    };
+
+    const firstReading = orderedReadings[0];
+    const lastReading = orderedReadings[orderedReadings.length - 1];
+
+    if (!intervals.some(interval => interval.isRefill)) {
+        return { value: toMetric(getVolume(firstReading) - getVolume(lastReading), lastReading), hasEnoughData: true };
+    }
+
+    const value = intervals.reduce((sum, interval) => {
+        const intervalUsageLiters = interval.addedLiters > 0
+            ? Math.max(0, (interval.prevVolume + interval.addedLiters) - interval.currVolume)
+            : interval.isImplicitRefill
+                ? 0
+                : interval.decreaseLiters;
+
+        return sum + toMetric(intervalUsageLiters, interval.curr);
+    }, 0);
+
+    return { value, hasEnoughData: true };
+};
+
+/**
+ * 偵測補藥事件；實際進料量以液位上升量換算 (無上升時退回登錄的 addedAmountLiters)
+ */
+export const detectRefillEvents = (tank, readings, supplies = []) => {
+    const { intervals } = analyzeLevelIntervals(tank, readings);
+    return intervals
+        .filter(interval => interval.isRefill)
+        .map(interval => {
+            const liters = interval.riseLiters > 0 ? interval.riseLiters : interval.addedLiters;
+            return {
+                readingId: interval.curr.id,
+                timestamp: interval.curr.timestamp,
+                liters,
+                actualKg: liters * getSpecificGravityAt(interval.curr, supplies)
+            };
+        });
+};
+
+// 估算日用量的預設期間 (週)，對應 app_settings.usageCalcWeeks
+export const DEFAULT_USAGE_CALC_WEEKS = 8;
+
+/**
+ * 平均日用量 (L/日)：相鄰讀數「前體積 - 後體積 + 補入量」的正值總和 / 涵蓋天數 (至少 1 天)
+ */
+export const calculateAvgDailyUsageLiters = (readings) => {
+    if (readings.length < 2) return 0;
+    const ordered = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+
+    let totalUsageLiters = 0;
+    for (let i = 1; i < ordered.length; i++) {
+        const usage = ordered[i - 1].calculatedVolume - ordered[i].calculatedVolume + (ordered[i].addedAmountLiters || 0);
+        if (usage > 0) totalUsageLiters += usage;
+    }
+
+    const daysCovered = Math.max(1, (ordered[ordered.length - 1].timestamp - ordered[0].timestamp) / DAY_MS);
+    return totalUsageLiters / daysCovered;
+};
+
+/**
+ * 近 usageCalcWeeks 週 (以 now 往回推) 的平均日用量；儀表板、讀數異常提示、巡檢與 /api/tanks/:id/forecast 共用同一期間
+ */
+export const calculateRecentAvgDailyUsageLiters = (readings, usageCalcWeeks = DEFAULT_USAGE_CALC_WEEKS, now = Date.now()) => {
+    const sinceTs = now - usageCalcWeeks * 7 * DAY_MS;
+    return calculateAvgDailyUsageLiters(readings.filter(r => r.timestamp >= sinceTs));
+};
+
+/**
+ * 預測達安全液位 / 見底日期，並以交貨前置天數推算叫藥期限 (safeMinLevel 依 inputUnit，PERCENT 為公尺)
+ */
+export const calculateTankForecast = (tank, currentVolume, fromTimestamp, avgDailyUsageLiters, leadTimeDays) => {
+    if (!(avgDailyUsageLiters > 0)) {
+        return { daysToSafeMin: null, daysToEmpty: null, safeMinDate: null, emptyDate: null, orderByDate: null, leadTimeDays };
+    }
+
+    const safeMinLevel = Number(tank.safeMinLevel ?? 20);
+    const safeMinLevelCm = tank.inputUnit === 'PERCENT' ? safeMinLevel * 100 : safeMinLevel;
+    const safeMinVolume = calculateTankVolume(tank, safeMinLevelCm);
+
+    const daysToEmpty = Math.max(0, currentVolume / avgDailyUsageLiters);
+    const daysToSafeMin = Math.max(0, (currentVolume - safeMinVolume) / avgDailyUsageLiters);
+    const safeMinDate = fromTimestamp + daysToSafeMin * DAY_MS;
+
+    return {
+        daysToSafeMin,
+        daysToEmpty,
+        safeMinDate,
+        emptyDate: fromTimestamp + daysToEmpty * DAY_MS,
+        orderByDate: safeMinDate - leadTimeDays * DAY_MS,
+        leadTimeDays
+    };
+};
+
+// ==================== 讀數統計異常偵測 ====================
+
+// robust z 分數門檻：超過 SUSPICIOUS 需確認，超過 SENSOR_FAULT 已非合理用量變化
+export const ANOMALY_SUSPICIOUS_SCORE = 3.5;
+export const ANOMALY_SENSOR_FAULT_SCORE = 8;
+const MIN_PROFILE_SAMPLES = 8;
+const MIN_WEEKDAY_SAMPLES = 4;
+const MAD_TO_SIGMA = 1.4826;
+// 用量穩定的儲槽 MAD 趨近 0，離散度至少取中位數的 10% (且不低於 1 L)，避免讀數尾差被放大成高分
+const MIN_SCALE_RATIO = 0.1;
+const MIN_SCALE_LITERS = 1;
+
+const median = (values) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const robustStats = (values) => {
+    const center = median(values);
+    const mad = median(values.map(v => Math.abs(v - center)));
+    return {
+        median: center,
+        scale: Math.max(mad * MAD_TO_SIGMA, Math.abs(center) * MIN_SCALE_RATIO, MIN_SCALE_LITERS),
+        count: values.length
+    };
+};
+
+// 讀數時戳為台北當地午夜，星期幾以台北時區判斷
+const getTaipeiWeekday = (timestamp) => new Date(timestamp + 8 * 60 * 60 * 1000).getUTCDay();
+
+/**
+ * 學習儲槽正常日用量分佈：非補藥區間的日用量 (L/日) 取中位數與 MAD；
+ * 單日間隔樣本足夠的星期另建分佈 (週末停機、例行排放等週期差異)。樣本不足時 overall 為 null。
+ */
+export const buildUsageProfile = (tank, readings) => {
+    const { intervals } = analyzeLevelIntervals(tank, readings);
+    const samples = intervals
+        .filter(interval => !interval.isRefill)
+        .map(interval => {
+            const days = Math.max(1, Math.round((interval.curr.timestamp - interval.prev.timestamp) / DAY_MS));
+            return {
+                weekday: getTaipeiWeekday(interval.curr.timestamp),
+                days,
+                dailyUsageLiters: (interval.prevVolume - interval.currVolume) / days
+            };
+        });
+
+    if (samples.length < MIN_PROFILE_SAMPLES) {
+        return { sampleCount: samples.length, overall: null, weekdays: [] };
+    }
+
+    const weekdays = Array.from({ length: 7 }, (_, weekday) => {
+        const values = samples.filter(s => s.days === 1 && s.weekday === weekday).map(s => s.dailyUsageLiters);
+        return values.length >= MIN_WEEKDAY_SAMPLES ? robustStats(values) : null;
+    });
+
+    return { sampleCount: samples.length, overall: robustStats(samples.map(s => s.dailyUsageLiters)), weekdays };
+};
+
+/**
+ * 以日用量分佈為讀數評分 (robust z = (日用量 - 中位數) / 離散度，多日間隔離散度除以 √天數) 並分類：
+ * NORMAL / SUSPICIOUS / LIKELY_REFILL / SENSOR_FAULT；無前筆或歷史樣本不足時為 INSUFFICIENT_DATA，由呼叫端退回固定閾值。
+ * history 為同儲槽既有讀數 (同日期者視為被本筆取代)；後一筆讀數用於辨識「跳動後回復」的單點突波。
+ */
+export const scoreReadingAnomaly = (tank, reading, history, profile) => {
+    const others = history
+        .filter(r => r.id !== reading.id && r.timestamp !== reading.timestamp)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const prev = [...others].reverse().find(r => r.timestamp < reading.timestamp) || null;
+    const next = others.find(r => r.timestamp > reading.timestamp) || null;
+    const usageProfile = profile || buildUsageProfile(tank, others);
+
+    const result = { classification: 'INSUFFICIENT_DATA', score: null, dailyUsageLiters: null, expectedDailyUsageLiters: null, upperLimitLiters: null, prev, next };
+    if (!prev) return result;
+
+    const getVolume = (r) => {
+        const volume = calculateTankVolume(tank, r.levelCm);
+        return Number.isFinite(volume) && volume >= 0 ? volume : r.calculatedVolume || 0;
+    };
+    const currVolume = getVolume(reading);
+    const days = Math.max(1, Math.round((reading.timestamp - prev.timestamp) / DAY_MS));
+    const dailyUsageLiters = (getVolume(prev) + (reading.addedAmountLiters || 0) - currVolume) / days;
+    result.dailyUsageLiters = dailyUsageLiters;
+
+    // 液位為負或超出槽高：儀表讀值本身不合理
+    const heightCm = Number(parseDimensions(tank.dimensions)?.height) || 0;
+    if (reading.levelCm < 0 || (heightCm > 0 && reading.levelCm > heightCm * 1.05)) {
+        return { ...result, classification: 'SENSOR_FAULT' };
+    }
+    if (!usageProfile.overall) return result;
+
+    const stats = (days === 1 && usageProfile.weekdays[getTaipeiWeekday(reading.timestamp)]) || usageProfile.overall;
+    const scale = stats.scale / Math.sqrt(days);
+    const score = (dailyUsageLiters - stats.median) / scale;
+    Object.assign(result, {
+        score,
+        expectedDailyUsageLiters: stats.median,
+        upperLimitLiters: stats.median + ANOMALY_SUSPICIOUS_SCORE * scale
+    });
+
+    // 未登錄補藥但液位上升達 LIKELY_REFILL_RISE_DAYS 天用量 (且明顯超出離散度)
+    const riseLiters = -dailyUsageLiters * days;
+    if (!(reading.addedAmountLiters > 0) && riseLiters >= Math.max(stats.median * LIKELY_REFILL_RISE_DAYS, stats.scale * ANOMALY_SUSPICIOUS_SCORE)) {
+        return { ...result, classification: 'LIKELY_REFILL' };
+    }
+    if (Math.abs(score) < ANOMALY_SUSPICIOUS_SCORE) {
+        return { ...result, classification: 'NORMAL' };
+    }
+
+    // 下一筆反向偏離 (讀數跳動後回到原趨勢) 為單點突波
+    let isSpike = false;
+    if (next) {
+        const nextDays = Math.max(1, Math.round((next.timestamp - reading.timestamp) / DAY_MS));
+        const nextScore = ((currVolume + (next.addedAmountLiters || 0) - getVolume(next)) / nextDays - usageProfile.overall.median)
+            / (usageProfile.overall.scale / Math.sqrt(nextDays));
+        isSpike = Math.sign(nextScore) !== Math.sign(score) && Math.abs(nextScore) >= ANOMALY_SUSPICIOUS_SCORE;
+    }
+
+    return {
+        ...result,
+        classification: isSpike || Math.abs(score) >= ANOMALY_SENSOR_FAULT_SCORE ? 'SENSOR_FAULT' : 'SUSPICIOUS'
+    };
+};
+
+// ==================== 液位計診斷 (停滯 / 漂移) ====================
+
+// 液位連續 N 天 (容差內) 不變，且期間預期用量至少使液位下降 1 cm，視為液位計停滯
+export const FLAT_LINE_MIN_DAYS = 3;
+const FLAT_LINE_TOLERANCE_CM = 0.05;
+const FLAT_LINE_MIN_EXPECTED_DROP_CM = 1;
+// 實測 / 理論用量偏差逐週擴大達 20% 視為漂移 (固定比例偏差屬理論模型誤差，不列入)
+export const DRIFT_MIN_WEEKS = 4;
+export const DRIFT_THRESHOLD = 0.2;
+
+/**
+ * 偵測液位停滯區段：連續讀數液位相同達 minDays 天，而依區段前讀數的平均日用量應有明顯下降。
+ * 區段前讀數不足 (無法估計用量) 時改用 fallbackDailyUsageLiters (例如理論用量換算)。區段內有登錄補藥者略過。
+ */
+export const detectFlatLines = (tank, readings, { minDays = FLAT_LINE_MIN_DAYS, fallbackDailyUsageLiters = 0 } = {}) => {
+    const ordered = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+    const runs = [];
+
+    let start = 0;
+    for (let i = 1; i <= ordered.length; i++) {
+        const isSameLevel = i < ordered.length
+            && Math.abs(ordered[i].levelCm - ordered[start].levelCm) <= FLAT_LINE_TOLERANCE_CM
+            && !(ordered[i].addedAmountLiters > 0);
+        if (isSameLevel) continue;
+
+        const first = ordered[start];
+        const last = ordered[i - 1];
+        const days = Math.round((last.timestamp - first.timestamp) / DAY_MS);
+        if (days >= minDays) {
+            const before = ordered.slice(0, start + 1);
+            const expectedDailyUsageLiters = before.length >= 3 ? calculateAvgDailyUsageLiters(before) : fallbackDailyUsageLiters;
+            const volume = calculateTankVolume(tank, first.levelCm);
+            const expectedUsageLiters = expectedDailyUsageLiters * days;
+            const expectedDropCm = first.levelCm - calculateLevelFromVolume(tank, Math.max(0, volume - expectedUsageLiters));
+            if (expectedDropCm >= FLAT_LINE_MIN_EXPECTED_DROP_CM) {
+                runs.push({
+                    startTimestamp: first.timestamp,
+                    endTimestamp: last.timestamp,
+                    days,
+                    levelCm: first.levelCm,
+                    readingCount: i - start,
+                    expectedDailyUsageLiters,
+                    expectedUsageLiters,
+                    expectedDropCm
+                });
+            }
+        }
+        start = i;
+    }
+    return runs;
+};
+
+/**
+ * 偵測實測用量相對理論用量的漂移：weeks 為依時間排序的每週 { weekStart, actualKg, theoreticalKg }，
+ * 逐週偏差 (實測 - 理論) / 理論 以最小平方法求斜率；偏差持續擴大且最近一週超過 threshold 時回傳結果，否則為 null。
+ */
+export const detectUsageDrift = (weeks, { minWeeks = DRIFT_MIN_WEEKS, threshold = DRIFT_THRESHOLD } = {}) => {
+    const points = weeks
+        .filter(w => w.theoreticalKg > 0 && Number.isFinite(w.actualKg))
+        .map(w => ({ weekStart: w.weekStart, deviation: (w.actualKg - w.theoreticalKg) / w.theoreticalKg }));
+    if (points.length < minWeeks) return null;
+
+    const n = points.length;
+    const meanX = (n - 1) / 2;
+    const meanY = points.reduce((sum, p) => sum + p.deviation, 0) / n;
+    let sxy = 0;
+    let sxx = 0;
+    points.forEach((p, x) => {
+        sxy += (x - meanX) * (p.deviation - meanY);
+        sxx += (x - meanX) ** 2;
+    });
+    const slopePerWeek = sxx > 0 ? sxy / sxx : 0;
+    const lastDeviation = points[n - 1].deviation;
+    const trendChange = slopePerWeek * (n - 1);
+
+    const isDrifting = Math.abs(trendChange) >= threshold
+        && Math.abs(lastDeviation) >= threshold
+        && Math.sign(lastDeviation) === Math.sign(slopePerWeek);
+    return isDrifting ? { slopePerWeek, trendChange, lastDeviation, points } : null;
+};
+
+// ==================== 冷卻水質量平衡 ====================
+
+export const DEFAULT_CONCENTRATION_CYCLES = 8;
+// 飛濺損失 (% 循環水量)，未設定時採一般填充式冷卻塔常見值
+export const DEFAULT_DRIFT_PERCENT = 0.02;
+// 冷卻塔區域 → 人工水質採樣點；補水統一為 TW
+export const COOLING_TOWER_SAMPLE_POINTS = { 'CT-1': 'CW_1', 'CT-2': 'CW_2' };
+export const MAKEUP_WATER_SAMPLE_POINT = 'TW';
+
+/**
+ * 冷卻水儲槽所屬區域：優先使用 PI 區域對應設定 (piAreaTanks)，否則依名稱 / 說明判斷 (一階 = CT-1，其餘 = CT-2)
+ */
+export const getCoolingTowerArea = (tank, areaTanks = {}) => {
+    const assigned = Object.keys(COOLING_TOWER_SAMPLE_POINTS)
+        .find(area => Array.isArray(areaTanks?.[area]) && areaTanks[area].includes(tank.id));
+    if (assigned) return assigned;
+
+    const name = tank.name || '';
+    const description = tank.description || '';
+    return name.includes('CWS-1') || name.includes('CT-1') || description.includes('一階') ? 'CT-1' : 'CT-2';
+};
+
+const CHLORIDE_METRIC = /chloride|氯離子|\(氯\)/i;
+const CONDUCTIVITY_METRIC = /conductiv|conductance|電導度|導電度/i;
+const RESIDUAL_CHLORINE_METRIC = /殘留氯|R-Cl/i;
+
+const parseMetricValue = (value) => {
+    if (value === null || value === undefined || value === '') return null;
+    const n = parseFloat(String(value).replace(/[^\d.-]/g, ''));
+    return Number.isFinite(n) ? n : null;
+};
+
+const findMetricValue = (data, pattern) => {
+    for (const [key, value] of Object.entries(data || {})) {
+        if (!pattern.test(key) || RESIDUAL_CHLORINE_METRIC.test(key)) continue;
+        const n = parseMetricValue(value);
+        if (n !== null && n > 0) return n;
+    }
+    return null;
+};
+
+/**
+ * 由人工水質數據 (manual_water_quality_readings 原始資料列) 取冷卻水 / 補水的氯離子與導電度比值。
+ * 取最接近 timestamp (windowDays 天內) 且同日有補水 (TW) 檢驗的冷卻水樣；找不到時回傳 null。
+ */
+export const findWaterQualityCycleRatios = (readings, samplePoint, timestamp, windowDays = 14) => {
+    const toTs = (row) => new Date(`${row.test_date ?? row.testDate}T00:00:00`).getTime();
+    const sampleOf = (row) => row.sample_point ?? row.samplePoint;
+    const makeupByDate = new Map();
+    for (const row of readings || []) {
+        if (sampleOf(row) === MAKEUP_WATER_SAMPLE_POINT) makeupByDate.set(row.test_date ?? row.testDate, row);
+    }
+
+    const candidates = (readings || [])
+        .filter(row => sampleOf(row) === samplePoint && makeupByDate.has(row.test_date ?? row.testDate))
+        .map(row => ({ row, distance: Math.abs(toTs(row) - timestamp) }))
+        .filter(c => Number.isFinite(c.distance) && c.distance <= windowDays * DAY_MS)
+        .sort((a, b) => a.distance - b.distance);
+
+    for (const { row } of candidates) {
+        const testDate = row.test_date ?? row.testDate;
+        const makeup = makeupByDate.get(testDate);
+        const chloride = { cooling: findMetricValue(row.data, CHLORIDE_METRIC), makeup: findMetricValue(makeup.data, CHLORIDE_METRIC) };
+        const conductivity = { cooling: findMetricValue(row.data, CONDUCTIVITY_METRIC), makeup: findMetricValue(makeup.data, CONDUCTIVITY_METRIC) };
+        const chlorideRatio = chloride.cooling && chloride.makeup ? chloride.cooling / chloride.makeup : null;
+        const conductivityRatio = conductivity.cooling && conductivity.makeup ? conductivity.cooling / conductivity.makeup : null;
+        if (chlorideRatio || conductivityRatio) {
+            return { testDate, chloride, conductivity, chlorideRatio, conductivityRatio };
+        }
+    }
+    return null;
+};
+
+/**
+ * 濃縮倍數 N 取值順序：硬度比 (冷卻水 / 補水) → 人工水質氯離子比 → 導電度比 → 手動設定 → 預設 8
+ */
+export const resolveConcentrationCycles = (params = {}, ratios = null) => {
+    const cwsHardness = Number(params?.cwsHardness) || 0;
+    const makeupHardness = Number(params?.makeupHardness) || 0;
+    if (cwsHardness > 0 && makeupHardness > 0) {
+        const cycles = cwsHardness / makeupHardness;
+        return { cycles, source: 'HARDNESS', formula: `${cwsHardness} (冷卻水) / ${makeupHardness} (補水) = ${cycles.toFixed(1)}` };
+    }
+    if (ratios?.chlorideRatio > 1) {
+        const { cooling, makeup } = ratios.chloride;
+        return { cycles: ratios.chlorideRatio, source: 'CHLORIDE', formula: `氯離子 ${cooling} / ${makeup} (${ratios.testDate}) = ${ratios.chlorideRatio.toFixed(1)}` };
+    }
+    if (ratios?.conductivityRatio > 1) {
+        const { cooling, makeup } = ratios.conductivity;
+        return { cycles: ratios.conductivityRatio, source: 'CONDUCTIVITY', formula: `導電度 ${cooling} / ${makeup} (${ratios.testDate}) = ${ratios.conductivityRatio.toFixed(1)}` };
+    }
+    const manualCycles = Number(params?.concentrationCycles) || 0;
+    if (manualCycles > 1) {
+        return { cycles: manualCycles, source: 'MANUAL', formula: `手動設定: ${manualCycles}` };
+    }
+    return { cycles: DEFAULT_CONCENTRATION_CYCLES, source: 'DEFAULT', formula: `預設 ${DEFAULT_CONCENTRATION_CYCLES}` };
+};
+
+/**
+ * 冷卻塔質量平衡 (m³，期間 hours 小時)：
+ * 蒸發 E = R × ΔT × 1.8 / 1000 × 時數；飛濺 D = R × 飛濺率 × 時數；
+ * 排放 B = E / (N − 1) (含飛濺，其中控制排放 = B − D)；補水 M = E + B。
+ * 半衰期 = ln2 × 系統滯留水量 / 每小時排放量，代表藥劑濃度調整後趨於穩定所需時間。
+ */
+export const calculateCoolingTowerBalance = ({ circulationRate, tempDiff, cycles, hours, driftPercent = DEFAULT_DRIFT_PERCENT, holdupVolume = 0 }) => {
+    const R = Number(circulationRate) || 0;
+    const evaporationM3 = (R * (Number(tempDiff) || 0) * 1.8 * hours) / 1000;
+    const driftM3 = R * hours * (Number(driftPercent) || 0) / 100;
+    const blowdownM3 = cycles > 1 ? evaporationM3 / (cycles - 1) : 0;
+    const holdupVolumeM3 = Number(holdupVolume) || 0;
+    const blowdownPerHour = hours > 0 ? blowdownM3 / hours : 0;
+
+    return {
+        evaporationM3,
+        driftM3,
+        blowdownM3,
+        controlledBlowdownM3: Math.max(0, blowdownM3 - driftM3),
+        makeupM3: evaporationM3 + blowdownM3,
+        holdupVolumeM3,
+        halfLifeHours: holdupVolumeM3 > 0 && blowdownPerHour > 0 ? Math.LN2 * holdupVolumeM3 / blowdownPerHour : null
+    };
+};
+
+/**
+ * 期間內新合約目標濃度高於前一份合約時，系統滯留水需補足的濃度差 (ppm)；第一份合約視為由 0 起始
+ */
+export const calculateHoldupPpmIncrease = (supplies, startTime, endTime) => {
+    const ordered = [...(supplies || [])].sort((a, b) => a.startDate - b.startDate);
+    return ordered.reduce((sum, supply, index) => {
+        if (supply.startDate < startTime || supply.startDate > endTime) return sum;
+        const previousPpm = index > 0 ? Number(ordered[index - 1].targetPpm) || 0 : 0;
+        return sum + Math.max(0, (Number(supply.targetPpm) || 0) - previousPpm);
+    }, 0);
+};
+
+/**
+ * 冷卻水理論加藥量 (kg) = 排放量 × 目標濃度 + 系統滯留水量 × 期間內目標濃度增加量
+ */
+export const calculateCoolingChemicalDemandKg = (balance, targetPpm, holdupPpmIncrease = 0) => {
+    const blowdownKg = (balance.blowdownM3 * (Number(targetPpm) || 0)) / 1000;
+    const holdupKg = (balance.holdupVolumeM3 * (Number(holdupPpmIncrease) || 0)) / 1000;
+    return { blowdownKg, holdupKg, totalKg: blowdownKg + holdupKg };
+};
+
+// ==================== 鍋爐水加藥模型 ====================
+
+// 除氧劑化學計量：除去 1 ppm 溶氧所需的藥劑 ppm (以亞硫酸鈉 Na2SO3 計)
+export const OXYGEN_SCAVENGER_RATIO = 7.88;
+
+/**
+ * 鍋爐藥劑類別：儲槽設定 (bwsChemicalType) 優先，否則依名稱判斷；無法判斷時沿用蒸汽量 × 濃度 (STEAM)
+ */
+export const getBoilerChemicalType = (tank) => {
+    const explicit = tank.bwsChemicalType ?? tank.bws_chemical_type;
+    if (explicit) return explicit;
+
+    const name = `${tank.name || ''} ${tank.description || ''}`;
+    if (/脫氧|除氧|OS\d|scavenger/i.test(name)) return 'OXYGEN_SCAVENGER';
+    if (/磷酸|清罐|PO4|phosphate/i.test(name)) return 'PHOSPHATE';
+    if (/胺|amine/i.test(name)) return 'AMINE';
+    return 'STEAM';
+};
+
+/**
+ * 鍋爐水量平衡 (噸)：給水 F = 蒸汽 S / (1 − 排放率)；排放 BD = F − S；
+ * 回收冷凝水 = S × 回收率；補給水 = F − 回收冷凝水
+ */
+export const calculateBoilerWaterBalance = ({ steamTons, blowdownPercent = 0, condensateReturnPercent = 0 }) => {
+    const S = Number(steamTons) || 0;
+    const b = Math.min(Math.max(Number(blowdownPercent) || 0, 0), 99) / 100;
+    const cr = Math.min(Math.max(Number(condensateReturnPercent) || 0, 0), 100) / 100;
+    const feedwaterTons = S / (1 - b);
+    const condensateTons = S * cr;
+
+    return {
+        steamTons: S,
+        feedwaterTons,
+        blowdownTons: feedwaterTons - S,
+        condensateTons,
+        makeupTons: feedwaterTons - condensateTons
+    };
+};
+
+/**
+ * 鍋爐藥劑理論用量 (kg)，依藥劑類別取不同的流失基準：
+ * 除氧劑 = 給水量 × (殘留目標濃度 + 給水溶氧 ppb / 1000 × 化學計量比)
+ * 磷酸鹽 = 排放量 × 目標濃度 (未輸入排放率時退回蒸汽量)
+ * 胺類   = 補給水量 × 目標濃度 (隨未回收蒸汽流失)
+ * 其他   = 蒸汽量 × 目標濃度
+ */
+export const calculateBoilerChemicalDemandKg = (chemicalType, params, targetPpm) => {
+    const balance = calculateBoilerWaterBalance({
+        steamTons: params?.steamProduction,
+        blowdownPercent: params?.blowdownPercent,
+        condensateReturnPercent: params?.condensateReturnPercent
+    });
+    const ppm = Number(targetPpm) || 0;
+
+    let basisTons = balance.steamTons;
+    let effectivePpm = ppm;
+    if (chemicalType === 'OXYGEN_SCAVENGER') {
+        basisTons = balance.feedwaterTons;
+        effectivePpm = ppm + (Number(params?.feedwaterDo) || 0) / 1000 * OXYGEN_SCAVENGER_RATIO;
+    } else if (chemicalType === 'PHOSPHATE') {
+        basisTons = balance.blowdownTons > 0 ? balance.blowdownTons : balance.steamTons;
+    } else if (chemicalType === 'AMINE') {
+        basisTons = balance.makeupTons;
+    }
+
+    return { ...balance, basisTons, effectivePpm, kg: (basisTons * effectivePpm) / 1000 };
+};
+
+// ==================== 脫硝 (SCR/SNCR) 還原劑模型 ====================
+
+// 標準狀態 (0°C, 1 atm) 氣體莫耳體積 (Nm³/kmol)
+const NORMAL_MOLAR_VOLUME = 22.414;
+const MOLAR_MASS = { NO2: 46.006, NH3: 17.031, UREA: 60.06 };
+
+// 還原劑預設濃度 (wt%)：氨水 25%、尿素溶液 40%
+export const DEFAULT_DENOX_REAGENT_CONCENTRATION = { AMMONIA: 25, UREA: 40 };
+
+/**
+ * 脫硝還原劑種類：名稱含「尿素 / urea」視為尿素 (1 mol 尿素水解產生 2 mol NH3)，其餘視為氨水
+ */
+export const getDenoxReagentType = (tank) => {
+    const name = `${tank.name || ''} ${tank.description || ''}`;
+    return /尿素|urea/i.test(name) ? 'UREA' : 'AMMONIA';
+};
+
+/**
+ * 脫硝還原劑理論用量 (kg 成品)：
+ * 去除 NOx (kmol) = 煙氣量 (Nm³/h) × (入口 − 出口 NOx ppm) × 10⁻⁶ × 時數 / 22.414
+ * NH3 (kmol) = 去除 NOx × NH3/NOx 莫耳比；尿素 = NH3 / 2
+ * 成品 kg = 純還原劑 kg / 濃度 %
+ */
+export const calculateDenoxReagentDemandKg = ({
+    flueGasFlow, inletNox, outletNox, molarRatio, hours, reagentType = 'AMMONIA', reagentConcentration
+}) => {
+    const Q = Number(flueGasFlow) || 0;
+    const removedPpm = Math.max((Number(inletNox) || 0) - (Number(outletNox) || 0), 0);
+    const ratio = Number(molarRatio) || 0;
+    const concentration = Number(reagentConcentration) > 0
+        ? Number(reagentConcentration)
+        : DEFAULT_DENOX_REAGENT_CONCENTRATION[reagentType] || DEFAULT_DENOX_REAGENT_CONCENTRATION.AMMONIA;
+
+    const noxRemovedKmol = Q * removedPpm * 1e-6 * (Number(hours) || 0) / NORMAL_MOLAR_VOLUME;
+    const nh3Kmol = noxRemovedKmol * ratio;
+    const reagentPureKg = reagentType === 'UREA'
+        ? (nh3Kmol / 2) * MOLAR_MASS.UREA
+        : nh3Kmol * MOLAR_MASS.NH3;
+
+    return {
+        removalEfficiency: Number(inletNox) > 0 ? removedPpm / Number(inletNox) * 100 : 0,
+        noxRemovedKg: noxRemovedKmol * MOLAR_MASS.NO2,
+        nh3Kg: nh3Kmol * MOLAR_MASS.NH3,
+        reagentPureKg,
+        reagentConcentration: concentration,
+        kg: reagentPureKg / (concentration / 100)
+    };
+};
+
+// ==================== 廢水處理加藥模型 ====================
+
+/**
+ * 廢水處理藥劑理論用量 (kg)：處理水量 (m³) × 杯瓶試驗加藥比 (mg/L = g/m³) / 1000
+ * 混凝劑、高分子、pH 調整劑皆以成品加藥比計
+ */
+export const calculateWastewaterDemandKg = ({ treatedFlow, doseRatio }) => {
+    const flow = Math.max(Number(treatedFlow) || 0, 0);
+    const dose = Math.max(Number(doseRatio) || 0, 0);
+    return (flow * dose) / 1000;
+};
@@ -1,13 +1,27 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { Tank, Reading, ChemicalSupply, SystemType, CWSParameterRecord, BWSParameterRecord, ImportantNote } from '../types';
+import { Tank, Reading, ChemicalSupply, SystemType, CWSParameterRecord, BWSParameterRecord, DenoxParameterRecord, WastewaterParameterRecord, ImportantNote } from '../types';
 import { StorageService } from '../services/storageService';
-import { calculateTankVolume } from '../utils/calculationUtils';
+import {
+    calculateActualUsage,
+    COOLING_TOWER_SAMPLE_POINTS,
+    getCoolingTowerArea,
+    findWaterQualityCycleRatios,
+    resolveConcentrationCycles,
+    calculateCoolingTowerBalance,
+    calculateHoldupPpmIncrease,
+    calculateCoolingChemicalDemandKg,
+    getBoilerChemicalType,
+    calculateBoilerChemicalDemandKg,
+    getDenoxReagentType,
+    calculateDenoxReagentDemandKg,
+    calculateWastewaterDemandKg
+} from '../utils/calculationUtils';
+import { fetchManualWaterQualityReadings } from '../services/apiService';
 import { Icons } from '../components/Icons';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#a4de6c', '#d0ed57', '#ffc658'];
 const DAY_MS = 24 * 60 * 60 * 1000;
-const LIKELY_REFILL_RISE_DAYS = 5;
 
 const normalizeTimestampToLocalDayStart = (timestamp?: number): number => {
     if (!timestamp) return 0;
@@ -27,73 +41,17 @@ const calculateActualUsageKgFromLevel = (
     tank: Tank,
     periodReadings: Reading[],
     suppliesHistory: ChemicalSupply[]
-): number => {
-    const orderedReadings = [...periodReadings].sort((a, b) => a.timestamp - b.timestamp);
-    if (orderedReadings.length < 2) return 0;
-
-    const getVolume = (reading: Reading): number => {
-        const volume = calculateTankVolume(tank, reading.levelCm);
-        if (Number.isFinite(volume) && volume >= 0) return volume;
-        return reading.calculatedVolume || 0;
-    };
-
-    const toKg = (liters: number, readingForContract: Reading): number => {
-        if (liters <= 0) return 0;
-        const activeSupply = getActiveSupplyAt(readingForContract.timestamp, suppliesHistory);
-        const sg = activeSupply?.specificGravity || readingForContract.appliedSpecificGravity || 1;
-        return liters * sg;
-    };
-
-    const intervals = orderedReadings.slice(1).map((curr, index) => {
-        const prev = orderedReadings[index];
-        const prevVolume = getVolume(prev);
-        const currVolume = getVolume(curr);
-
-        return {
-            curr,
-            prevVolume,
-            currVolume,
-            addedLiters: curr.addedAmountLiters || 0,
-            decreaseLiters: Math.max(0, prevVolume - currVolume),
-            riseLiters: Math.max(0, currVolume - prevVolume)
-        };
-    });
-
-    const firstReading = orderedReadings[0];
-    const lastReading = orderedReadings[orderedReadings.length - 1];
-    const elapsedDays = Math.max(1, (lastReading.timestamp - firstReading.timestamp) / DAY_MS);
-    const estimatedDailyUsageLiters = intervals.reduce((sum, interval) => sum + interval.decreaseLiters, 0) / elapsedDays;
-    const likelyRefillRiseThresholdLiters = estimatedDailyUsageLiters * LIKELY_REFILL_RISE_DAYS;
-
-    const hasRefill = intervals.some(interval => {
-        if (interval.addedLiters > 0) return true;
-        if (estimatedDailyUsageLiters <= 0) return false;
-        return interval.riseLiters >= likelyRefillRiseThresholdLiters;
-    });
-
-    if (!hasRefill) {
-        return toKg(getVolume(firstReading) - getVolume(lastReading), lastReading);
-    }
-
-    return intervals.reduce((sum, interval) => {
-        const isImplicitRefill = estimatedDailyUsageLiters > 0 && interval.riseLiters >= likelyRefillRiseThresholdLiters;
-        const intervalUsageLiters = interval.addedLiters > 0
-            ? Math.max(0, (interval.prevVolume + interval.addedLiters) - interval.currVolume)
-            : isImplicitRefill
-                ? 0
-                : interval.decreaseLiters;
-
-        return sum + toKg(intervalUsageLiters, interval.curr);
-    }, 0);
-};
+): number => calculateActualUsage(tank, periodReadings, suppliesHistory, 'KG').value;
 
 interface AnnualDataViewProps {
     tanks: Tank[];
     readings: Reading[];
     onNavigate?: (tankId: string, month: number, year: number) => void;
+    coolingHoldupVolumes?: Record<string, number>;
+    piAreaTanks?: Record<string, string[]>;
 }
 
-const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavigate }) => {
+const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavigate, coolingHoldupVolumes, piAreaTanks }) => {
     const [year, setYear] = useState<number>(new Date().getFullYear());
     const [selectedSystem, setSelectedSystem] = useState<SystemType | 'ALL'>(SystemType.COOLING);
 
@@ -102,8 +60,16 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
     const [notes, setNotes] = useState<ImportantNote[]>([]);
     const [cwsHistory, setCwsHistory] = useState<CWSParameterRecord[]>([]);
     const [bwsHistory, setBwsHistory] = useState<BWSParameterRecord[]>([]);
+    const [denoxHistory, setDenoxHistory] = useState<DenoxParameterRecord[]>([]);
+    const [wastewaterHistory, setWastewaterHistory] = useState<WastewaterParameterRecord[]>([]);
+    const [waterQualityReadings, setWaterQualityReadings] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
 
+    // 人工水質用於推算濃縮倍數 (與 AnalysisView 相同的質量平衡)
+    useEffect(() => {
+        fetchManualWaterQualityReadings('CW').then(setWaterQualityReadings);
+    }, []);
+
     // Load Data on Mount
     useEffect(() => {
         const loadData = async () => {
@@ -121,13 +87,23 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
                 // For now, fetch all in parallel.
                 const cwsPromises = tanks.map(t => StorageService.getCWSParamsHistory(t.id));
                 const bwsPromises = tanks.map(t => StorageService.getBWSParamsHistory(t.id));
+                const denoxPromises = tanks
+                    .filter(t => t.calculationMethod === 'DENOX_NOX_REDUCTION')
+                    .map(t => StorageService.getDenoxParamsHistory(t.id));
 
                 const cwsResults = await Promise.all(cwsPromises);
                 const bwsResults = await Promise.all(bwsPromises);
+                const wastewaterPromises = tanks
+                    .filter(t => t.calculationMethod === 'WASTEWATER_DOSE')
+                    .map(t => StorageService.getWastewaterParamsHistory(t.id));
+                const denoxResults = await Promise.all(denoxPromises);
+                const wastewaterResults = await Promise.all(wastewaterPromises);
 
                 // Flatten results
                 setCwsHistory(cwsResults.flat());
                 setBwsHistory(bwsResults.flat());
+                setDenoxHistory(denoxResults.flat());
+                setWastewaterHistory(wastewaterResults.flat());
 
             } catch (err) {
                 console.error("Failed to load annual data dependencies", err);
@@ -277,10 +253,13 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
                 });
 
                 // --- Theoretical （採用逐日計算，與 AnalysisView 一致）---
-                if (tank.calculationMethod === 'CWS_BLOWDOWN' || tank.calculationMethod === 'BWS_STEAM') {
+                if (tank.calculationMethod === 'CWS_BLOWDOWN' || tank.calculationMethod === 'BWS_STEAM' || tank.calculationMethod === 'DENOX_NOX_REDUCTION' || tank.calculationMethod === 'WASTEWATER_DOSE') {
                     m.hasTheory = true;
                     const tankCwsHistory = cwsHistory.filter(p => p.tankId === tank.id);
                     const tankBwsHistory = bwsHistory.filter(p => p.tankId === tank.id);
+                    const tankDenoxHistory = denoxHistory.filter(p => p.tankId === tank.id);
+                    const tankWastewaterHistory = wastewaterHistory.filter(p => p.tankId === tank.id);
+                    const coolingArea = getCoolingTowerArea(tank, piAreaTanks);
 
                     // 遍歷月份中的每一天進行計算
                     const daysInMonth = new Date(year, m.month, 0).getDate();
@@ -301,11 +280,36 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
                         const activeSupply = getActiveSupplyAt(dayTime, tankSupplies);
                         const targetPpm = activeSupply?.targetPpm || 0;
 
-                        if (!targetPpm) continue; // 無 PPM 設定則跳過
+                        // 無 PPM 設定則跳過 (脫硝依去除 NOx 量、廢水依杯瓶試驗加藥比計算，不需 PPM)
+                        if (!targetPpm && tank.calculationMethod !== 'DENOX_NOX_REDUCTION' && tank.calculationMethod !== 'WASTEWATER_DOSE') continue;
 
                         let dailyTheory = 0;
 
-                        if (tank.calculationMethod === 'CWS_BLOWDOWN') {
+                        if (tank.calculationMethod === 'WASTEWATER_DOSE') {
+                            const wastewaterParam = tankWastewaterHistory.find(p => {
+                                const pDate = normalizeTimestampToLocalDayStart(p.date);
+                                return dayTime >= pDate && dayTime < pDate + (7 * DAY_MS);
+                            });
+
+                            if (wastewaterParam?.treatedFlow && wastewaterParam.doseRatio) {
+                                hasAnyParam = true;
+                                dailyTheory = calculateWastewaterDemandKg({ ...wastewaterParam, treatedFlow: wastewaterParam.treatedFlow / 7 });
+                            }
+                        } else if (tank.calculationMethod === 'DENOX_NOX_REDUCTION') {
+                            const denoxParam = tankDenoxHistory.find(p => {
+                                const pDate = normalizeTimestampToLocalDayStart(p.date);
+                                return dayTime >= pDate && dayTime < pDate + (7 * DAY_MS);
+                            });
+
+                            if (denoxParam?.flueGasFlow) {
+                                hasAnyParam = true;
+                                dailyTheory = calculateDenoxReagentDemandKg({
+                                    ...denoxParam,
+                                    hours: 24,
+                                    reagentType: getDenoxReagentType(tank)
+                                }).kg;
+                            }
+                        } else if (tank.calculationMethod === 'CWS_BLOWDOWN') {
                             // 查找覆蓋該日的週參數 (record.date <= dayTime < record.date + 7天)
                             // 不使用 fallback，確保只有真正有參數的日期才計算
                             const cwsParam = tankCwsHistory.find(p => {
@@ -316,20 +320,19 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
 
                             if (cwsParam) {
                                 hasAnyParam = true;
-                                const R = cwsParam.circulationRate || 0;
-                                const dT = cwsParam.tempDiff || 0;
-                                let C = 8;
-                                if (cwsParam.cwsHardness && cwsParam.makeupHardness && cwsParam.makeupHardness > 0) {
-                                    C = cwsParam.cwsHardness / cwsParam.makeupHardness;
-                                } else if (cwsParam.concentrationCycles && cwsParam.concentrationCycles > 1) {
-                                    C = cwsParam.concentrationCycles;
-                                }
-                                // 每日蒸發量
-                                const E = (R * dT * 1.8 * 24) / 1000;
-                                // 每日排放量
-                                const B = C > 1 ? E / (C - 1) : 0;
+                                const ratios = findWaterQualityCycleRatios(waterQualityReadings, COOLING_TOWER_SAMPLE_POINTS[coolingArea], dayTime);
+                                const { cycles } = resolveConcentrationCycles(cwsParam, ratios);
+                                // 每日蒸發 / 排放量
+                                const balance = calculateCoolingTowerBalance({
+                                    circulationRate: cwsParam.circulationRate || 0,
+                                    tempDiff: cwsParam.tempDiff || 0,
+                                    cycles,
+                                    hours: 24,
+                                    holdupVolume: coolingHoldupVolumes?.[coolingArea]
+                                });
                                 // 每日理論用量 (KG)
-                                dailyTheory = (B * targetPpm) / 1000;
+                                const holdupPpmIncrease = calculateHoldupPpmIncrease(tankSupplies, dayTime, dayTime + DAY_MS - 1);
+                                dailyTheory = calculateCoolingChemicalDemandKg(balance, targetPpm, holdupPpmIncrease).totalKg;
                             }
                         } else if (tank.calculationMethod === 'BWS_STEAM') {
                             // 查找覆蓋該日的週參數
@@ -341,10 +344,10 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
 
                             if (bwsParam?.steamProduction) {
                                 hasAnyParam = true;
-                                // 週蒸汽量除以 7 得到每日蒸汽量
-                                const dailySteam = bwsParam.steamProduction / 7;
+                                // 週蒸汽量除以 7 得到每日蒸汽量，再依藥劑類別換算給水/排放/補給水基準
+                                const dailyParam = { ...bwsParam, steamProduction: bwsParam.steamProduction / 7 };
                                 // 每日理論用量 (KG)
-                                dailyTheory = (dailySteam * targetPpm) / 1000;
+                                dailyTheory = calculateBoilerChemicalDemandKg(getBoilerChemicalType(tank), dailyParam, targetPpm).kg;
                             }
                         }
 
@@ -358,7 +361,7 @@ const AnnualDataView: React.FC<AnnualDataViewProps> = ({ tanks, readings, onNavi
         });
 
         return Array.from(tankMap.values());
-    }, [year, readings, tanks, supplies, cwsHistory, bwsHistory, notes, selectedSystem, loading]);
+    }, [year, readings, tanks, supplies, cwsHistory, bwsHistory, denoxHistory, wastewaterHistory, notes, selectedSystem, loading, waterQualityReadings, coolingHoldupVolumes, piAreaTanks]);
 
     if (loading) {
         return <div className="p-8 text-center text-slate-500">載入年度數據...</div>;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Card } from '../App';
+import { Icons } from '../components/Icons';
+import { Tank, AuditLogEntry, AuditAction, AuditEntityType, UserRole } from '../types';
+import { StorageService } from '../services/storageService';
+import { hasRole } from '../utils/permissionUtils';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+    tank: '儲槽',
+    reading: '液位紀錄',
+    supply: '藥劑合約',
+    'cws-param': '冷卻水參數',
+    'bws-param': '鍋爐水參數',
+    budget: '年度預算',
+    chemical: '藥品主檔',
+    note: '重要紀事',
+    alert: '異常警報'
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+    CREATE: '新增',
+    UPDATE: '修改',
+    DELETE: '刪除',
+    REVERT: '還原'
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+    CREATE: 'bg-emerald-100 text-emerald-700',
+    UPDATE: 'bg-blue-100 text-blue-700',
+    DELETE: 'bg-red-100 text-red-700',
+    REVERT: 'bg-amber-100 text-amber-700'
+};
+
+// 差異比對時略過的系統欄位
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+const inputClassName = "border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '-';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// 逐欄位比對異動前後資料，僅列出有變動的欄位
+const getFieldDiffs = (log: AuditLogEntry) => {
+    const before = log.beforeData || {};
+    const after = log.afterData || {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(field => !IGNORED_FIELDS.has(field));
+    return fields
+        .map(field => ({ field, before: formatValue(before[field]), after: formatValue(after[field]) }))
+        .filter(diff => diff.before !== diff.after);
+};
+
+interface AuditLogViewProps {
+    tanks: Tank[];
+    userRole?: UserRole | null;
+}
+
+export const AuditLogView: React.FC<AuditLogViewProps> = ({ tanks, userRole }) => {
+    const canRevert = hasRole(userRole, 'engineer');
+    const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+    const [filterTankId, setFilterTankId] = useState('');
+    const [filterUser, setFilterUser] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const loadLogs = async () => {
+        const data = await StorageService.getAuditLogs({
+            tankId: filterTankId || undefined,
+            user: filterUser.trim() || undefined,
+            startDate: startDate ? new Date(`${startDate}T00:00:00`).getTime() : undefined,
+            endDate: endDate ? new Date(`${endDate}T23:59:59`).getTime() : undefined
+        });
+        setLogs(data);
+    };
+
+    useEffect(() => {
+        loadLogs();
+    }, [filterTankId, startDate, endDate]);
+
+    const getTankName = (tankId?: string | null) => tankId ? (tanks.find(t => t.id === tankId)?.name || tankId) : '-';
+
+    const handleRevert = async (log: AuditLogEntry) => {
+        const label = `${ENTITY_LABELS[log.entityType]}${ACTION_LABELS[log.action]}`;
+        if (!window.confirm(`確定要還原此筆${label}嗎？`)) return;
+        try {
+            await StorageService.revertAuditLog(log.id);
+            await loadLogs();
+        } catch (e: any) {
+            alert(e.message || '還原異動失敗');
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-slate-800 flex items-center gap-3">
+                <Icons.History className="w-7 h-7 text-brand-500" />
+                異動紀錄
+            </h1>
+
+            <Card title="篩選條件">
+                <div className="flex flex-wrap items-center gap-3">
+                    <select value={filterTankId} onChange={e => setFilterTankId(e.target.value)} className={inputClassName}>
+                        <option value="">全部儲槽</option>
+                        {tanks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        value={filterUser}
+                        onChange={e => setFilterUser(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && loadLogs()}
+                        placeholder="異動者帳號"
+                        className={inputClassName}
+                    />
+                    <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClassName} />
+                    <span className="text-slate-400">~</span>
+                    <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClassName} />
+                    <Button onClick={loadLogs}>
+                        <Icons.Recycle className="w-4 h-4 mr-2" />
+                        查詢
+                    </Button>
+                </div>
+            </Card>
+
+            <Card title="異動明細">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="bg-slate-50 text-slate-600 text-left">
+                                <th className="px-3 py-2">時間</th>
+                                <th className="px-3 py-2">異動者</th>
+                                <th className="px-3 py-2">儲槽</th>
+                                <th className="px-3 py-2">項目</th>
+                                <th className="px-3 py-2">動作</th>
+                                <th className="px-3 py-2">變動欄位</th>
+                                <th className="px-3 py-2">操作</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {logs.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="px-3 py-6 text-center text-slate-400">尚無異動紀錄</td>
+                                </tr>
+                            )}
+                            {logs.map(log => {
+                                const diffs = getFieldDiffs(log);
+                                const isExpanded = expandedId === log.id;
+                                return (
+                                    <React.Fragment key={log.id}>
+                                        <tr className="border-t border-slate-100">
+                                            <td className="px-3 py-2 whitespace-nowrap">{new Date(log.changedAt).toLocaleString()}</td>
+                                            <td className="px-3 py-2 text-slate-600">{log.changedBy || '-'}</td>
+                                            <td className="px-3 py-2 font-medium text-slate-700">{getTankName(log.tankId)}</td>
+                                            <td className="px-3 py-2">{ENTITY_LABELS[log.entityType] || log.entityType}</td>
+                                            <td className="px-3 py-2">
+                                                <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[log.action]}`}>
+                                                    {ACTION_LABELS[log.action]}
+                                                </span>
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                <button
+                                                    onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                                                    className="text-xs text-brand-600 hover:underline"
+                                                >
+                                                    {diffs.length} 個欄位 {isExpanded ? '▲' : '▼'}
+                                                </button>
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                {log.revertedAt ? (
+                                                    <span className="text-xs text-slate-400">
+                                                        已由 {log.revertedBy || '-'} 還原
+                                                    </span>
+                                                ) : canRevert && log.action !== 'REVERT' ? (
+                                                    <button
+                                                        onClick={() => handleRevert(log)}
+                                                        className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-700 px-2 py-1 rounded transition-colors"
+                                                    >
+                                                        還原
+                                                    </button>
+                                                ) : <span className="text-xs text-slate-400">-</span>}
+                                            </td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr className="bg-slate-50/60">
+                                                <td colSpan={7} className="px-3 py-2">
+                                                    <table className="w-full text-xs">
+                                                        <thead>
+                                                            <tr className="text-slate-500 text-left">
+                                                                <th className="px-2 py-1 w-48">欄位</th>
+                                                                <th className="px-2 py-1">異動前</th>
+                                                                <th className="px-2 py-1">異動後</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {diffs.map(diff => (
+                                                                <tr key={diff.field} className="border-t border-slate-100">
+                                                                    <td className="px-2 py-1 font-mono text-slate-600">{diff.field}</td>
+                                                                    <td className="px-2 py-1 text-red-600 break-all">{diff.before}</td>
+                                                                    <td className="px-2 py-1 text-emerald-700 break-all">{diff.after}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default AuditLogView;
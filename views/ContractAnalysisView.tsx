@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card } from '../App';
+import { Icons } from '../components/Icons';
+import { Tank, Reading, ChemicalSupply, CWSParameterRecord, BWSParameterRecord, WastewaterParameterRecord } from '../types';
+import { StorageService } from '../services/storageService';
+import { calculateActualUsage, calculateActiveIngredientCost, calculateCoolingTowerBalance } from '../utils/calculationUtils';
+
+const WEEK_HOURS = 7 * 24;
+
+type TreatmentBasis = { amount: number; unit: string; label: string } | null;
+
+type ContractPeriod = {
+    supply: ChemicalSupply;
+    tank: Tank;
+    start: number;
+    end: number; // Exclusive; 下一份合約生效日或今日
+    usageKg: number;
+    cost: number;
+    activeCost: number | null;
+    basis: TreatmentBasis;
+    costPerBasis: number | null;
+    changes: string[];
+};
+
+const formatNumber = (value: number | null | undefined, digits = 1) =>
+    value === null || value === undefined ? '-' : value.toLocaleString(undefined, { maximumFractionDigits: digits, minimumFractionDigits: digits });
+
+const formatDate = (ts: number) => new Date(ts).toLocaleDateString();
+
+// 與前一份合約比較：價格、比重、供應商、有效濃度的異動
+const describeChanges = (prev: ChemicalSupply | undefined, curr: ChemicalSupply): string[] => {
+    if (!prev) return [];
+    const changes: string[] = [];
+    if (prev.supplierName !== curr.supplierName) changes.push(`供應商 ${prev.supplierName} → ${curr.supplierName}`);
+    if ((prev.price || 0) !== (curr.price || 0)) {
+        const pct = prev.price ? ((curr.price || 0) - prev.price) / prev.price * 100 : null;
+        changes.push(`單價 ${prev.price ?? '-'} → ${curr.price ?? '-'}${pct !== null ? ` (${pct > 0 ? '+' : ''}${pct.toFixed(1)}%)` : ''}`);
+    }
+    if (prev.specificGravity !== curr.specificGravity) changes.push(`比重 ${prev.specificGravity} → ${curr.specificGravity}`);
+    if ((prev.activeConcentration || 0) !== (curr.activeConcentration || 0)) {
+        changes.push(`有效濃度 ${prev.activeConcentration ?? '-'}% → ${curr.activeConcentration ?? '-'}%`);
+    }
+    return changes;
+};
+
+interface ContractAnalysisViewProps {
+    tanks: Tank[];
+    readings: Reading[];
+    coolingDriftPercent?: number;
+}
+
+export const ContractAnalysisView: React.FC<ContractAnalysisViewProps> = ({ tanks, readings, coolingDriftPercent }) => {
+    const [supplies, setSupplies] = useState<ChemicalSupply[]>([]);
+    const [cwsHistory, setCwsHistory] = useState<CWSParameterRecord[]>([]);
+    const [bwsHistory, setBwsHistory] = useState<BWSParameterRecord[]>([]);
+    const [wastewaterHistory, setWastewaterHistory] = useState<WastewaterParameterRecord[]>([]);
+    const [filterTankId, setFilterTankId] = useState('');
+    const [filterChemical, setFilterChemical] = useState('');
+
+    useEffect(() => {
+        const loadData = async () => {
+            setSupplies(await StorageService.getSupplies());
+            const [cwsResults, bwsResults, wastewaterResults] = await Promise.all([
+                Promise.all(tanks.filter(t => t.calculationMethod === 'CWS_BLOWDOWN').map(t => StorageService.getCWSParamsHistory(t.id))),
+                Promise.all(tanks.filter(t => t.calculationMethod === 'BWS_STEAM').map(t => StorageService.getBWSParamsHistory(t.id))),
+                Promise.all(tanks.filter(t => t.calculationMethod === 'WASTEWATER_DOSE').map(t => StorageService.getWastewaterParamsHistory(t.id)))
+            ]);
+            setCwsHistory(cwsResults.flat());
+            setBwsHistory(bwsResults.flat());
+            setWastewaterHistory(wastewaterResults.flat());
+        };
+        if (tanks.length > 0) loadData();
+    }, [tanks]);
+
+    // 合約期間內的處理量：冷卻水以補水量 (m³)、鍋爐以蒸汽量 (噸)、廢水以處理水量 (m³)；每週參數以週起始日歸屬期間
+    const getTreatmentBasis = (tank: Tank, start: number, end: number): TreatmentBasis => {
+        const inPeriod = (date?: number) => !!date && date >= start && date < end;
+        if (tank.calculationMethod === 'CWS_BLOWDOWN') {
+            const records = cwsHistory.filter(p => p.tankId === tank.id && inPeriod(p.date));
+            if (records.length === 0) return null;
+            const amount = records.reduce((sum, p) => sum + calculateCoolingTowerBalance({
+                circulationRate: p.circulationRate,
+                tempDiff: p.tempDiff,
+                cycles: p.concentrationCycles,
+                hours: WEEK_HOURS,
+                driftPercent: coolingDriftPercent
+            }).makeupM3, 0);
+            return { amount, unit: 'm³', label: '補水量' };
+        }
+        if (tank.calculationMethod === 'BWS_STEAM') {
+            const records = bwsHistory.filter(p => p.tankId === tank.id && inPeriod(p.date));
+            if (records.length === 0) return null;
+            return { amount: records.reduce((sum, p) => sum + (p.steamProduction || 0), 0), unit: '噸', label: '蒸汽量' };
+        }
+        if (tank.calculationMethod === 'WASTEWATER_DOSE') {
+            const records = wastewaterHistory.filter(p => p.tankId === tank.id && inPeriod(p.date));
+            if (records.length === 0) return null;
+            return { amount: records.reduce((sum, p) => sum + (p.treatedFlow || 0), 0), unit: 'm³', label: '處理水量' };
+        }
+        return null;
+    };
+
+    const periods = useMemo<ContractPeriod[]>(() => {
+        const now = Date.now();
+        return tanks.flatMap(tank => {
+            const tankSupplies = supplies
+                .filter(s => s.tankId === tank.id)
+                .sort((a, b) => a.startDate - b.startDate);
+            const tankReadings = readings.filter(r => r.tankId === tank.id);
+
+            return tankSupplies
+                .map((supply, idx) => {
+                    const start = supply.startDate;
+                    const end = tankSupplies[idx + 1]?.startDate ?? now;
+                    const periodReadings = tankReadings.filter(r => r.timestamp >= start && r.timestamp < end);
+                    const usageKg = calculateActualUsage(tank, periodReadings, tankSupplies, 'KG').value;
+                    const cost = usageKg * (supply.price || 0);
+                    const basis = getTreatmentBasis(tank, start, end);
+                    return {
+                        supply,
+                        tank,
+                        start,
+                        end,
+                        usageKg,
+                        cost,
+                        activeCost: calculateActiveIngredientCost(supply),
+                        basis,
+                        costPerBasis: basis && basis.amount > 0 && supply.price ? cost / basis.amount : null,
+                        changes: describeChanges(tankSupplies[idx - 1], supply)
+                    };
+                })
+                .filter(p => p.end > p.start)
+                .reverse();
+        });
+    }, [tanks, supplies, readings, cwsHistory, bwsHistory, wastewaterHistory, coolingDriftPercent]);
+
+    const chemicalNames = useMemo(
+        () => Array.from(new Set(supplies.map(s => s.chemicalName?.trim()).filter(Boolean))).sort(),
+        [supplies]
+    );
+
+    const filteredPeriods = periods.filter(p =>
+        (!filterTankId || p.tank.id === filterTankId) &&
+        (!filterChemical || p.supply.chemicalName?.trim() === filterChemical)
+    );
+
+    // 同藥品的合約並列比較，依有效成分單價由低至高排序
+    const comparison = useMemo(() => {
+        const groups = new Map<string, ContractPeriod[]>();
+        filteredPeriods.forEach(p => {
+            const name = p.supply.chemicalName?.trim();
+            if (!name) return;
+            groups.set(name, [...(groups.get(name) || []), p]);
+        });
+        return Array.from(groups.entries())
+            .filter(([, items]) => items.length > 1)
+            .map(([name, items]) => ({
+                name,
+                items: [...items].sort((a, b) => (a.activeCost ?? Infinity) - (b.activeCost ?? Infinity))
+            }));
+    }, [filteredPeriods]);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-2xl font-bold text-slate-800">合約分析</h2>
+                <div className="flex items-center gap-2">
+                    <select value={filterTankId} onChange={e => setFilterTankId(e.target.value)} className="border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                        <option value="">全部儲槽</option>
+                        {tanks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <select value={filterChemical} onChange={e => setFilterChemical(e.target.value)} className="border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                        <option value="">全部藥品</option>
+                        {chemicalNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {comparison.length > 0 && (
+                <Card title="同藥品合約比較 (依有效成分單價排序)">
+                    <div className="space-y-6">
+                        {comparison.map(group => (
+                            <div key={group.name}>
+                                <h4 className="text-sm font-bold text-slate-700 mb-2 flex items-center">
+                                    <Icons.Tank className="w-4 h-4 mr-1 text-slate-400" />
+                                    {group.name}
+                                </h4>
+                                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+                                    {group.items.map((p, idx) => (
+                                        <div
+                                            key={p.supply.id}
+                                            className={`rounded-lg border p-3 text-sm ${idx === 0 && p.activeCost !== null ? 'border-green-300 bg-green-50' : 'border-slate-200'}`}
+                                        >
+                                            <div className="flex justify-between items-start mb-2">
+                                                <span className="font-bold text-slate-800">{p.supply.supplierName}</span>
+                                                <span className="text-xs text-slate-500">{p.tank.name}</span>
+                                            </div>
+                                            <div className="text-xs text-slate-500 mb-2">{formatDate(p.start)} ~ {formatDate(p.end)}</div>
+                                            <dl className="grid grid-cols-2 gap-y-1 text-xs">
+                                                <dt className="text-slate-500">單價</dt>
+                                                <dd className="text-right font-mono">{formatNumber(p.supply.price, 2)} 元/kg</dd>
+                                                <dt className="text-slate-500">比重 / 有效濃度</dt>
+                                                <dd className="text-right font-mono">{p.supply.specificGravity} / {p.supply.activeConcentration ?? '-'}%</dd>
+                                                <dt className="text-slate-500">有效成分單價</dt>
+                                                <dd className="text-right font-mono font-bold">{formatNumber(p.activeCost, 2)} 元/kg</dd>
+                                                <dt className="text-slate-500">單位處理成本</dt>
+                                                <dd className="text-right font-mono">{p.costPerBasis !== null && p.basis ? `${formatNumber(p.costPerBasis, 3)} 元/${p.basis.unit}` : '-'}</dd>
+                                            </dl>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
+            <Card title="合約期間明細">
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-50 text-xs text-slate-500">
+                            <tr>
+                                <th className="px-3 py-2 text-left">儲槽</th>
+                                <th className="px-3 py-2 text-left">合約期間</th>
+                                <th className="px-3 py-2 text-left">供應商 / 藥品</th>
+                                <th className="px-3 py-2 text-right">單價 (元/kg)</th>
+                                <th className="px-3 py-2 text-right">比重</th>
+                                <th className="px-3 py-2 text-right">有效濃度 (%)</th>
+                                <th className="px-3 py-2 text-right">用量 (kg)</th>
+                                <th className="px-3 py-2 text-right">金額 (元)</th>
+                                <th className="px-3 py-2 text-right">有效成分單價 (元/kg)</th>
+                                <th className="px-3 py-2 text-right">處理量</th>
+                                <th className="px-3 py-2 text-right">單位處理成本</th>
+                                <th className="px-3 py-2 text-left">與前期差異</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {filteredPeriods.length === 0 && (
+                                <tr><td colSpan={12} className="px-3 py-6 text-center text-slate-400">尚無合約紀錄</td></tr>
+                            )}
+                            {filteredPeriods.map(p => (
+                                <tr key={p.supply.id} className="hover:bg-slate-50 align-top">
+                                    <td className="px-3 py-2 font-medium text-slate-800 whitespace-nowrap">{p.tank.name}</td>
+                                    <td className="px-3 py-2 text-slate-600 whitespace-nowrap">{formatDate(p.start)} ~ {formatDate(p.end)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">
+                                        <div className="text-slate-800">{p.supply.supplierName}</div>
+                                        <div className="text-xs text-slate-500">{p.supply.chemicalName || '-'}</div>
+                                    </td>
+                                    <td className="px-3 py-2 text-right font-mono">{formatNumber(p.supply.price, 2)}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{p.supply.specificGravity}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{p.supply.activeConcentration ?? '-'}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{formatNumber(p.usageKg)}</td>
+                                    <td className="px-3 py-2 text-right font-mono font-bold text-blue-600">{formatNumber(p.cost, 0)}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{formatNumber(p.activeCost, 2)}</td>
+                                    <td className="px-3 py-2 text-right font-mono whitespace-nowrap">
+                                        {p.basis ? `${formatNumber(p.basis.amount, 0)} ${p.basis.unit}` : '-'}
+                                        {p.basis && <div className="text-xs text-slate-400">{p.basis.label}</div>}
+                                    </td>
+                                    <td className="px-3 py-2 text-right font-mono whitespace-nowrap">
+                                        {p.costPerBasis !== null && p.basis ? `${formatNumber(p.costPerBasis, 3)} 元/${p.basis.unit}` : '-'}
+                                    </td>
+                                    <td className="px-3 py-2 text-xs">
+                                        {p.changes.length === 0
+                                            ? <span className="text-slate-400">-</span>
+                                            : p.changes.map(change => <div key={change} className="text-amber-700">{change}</div>)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-slate-400 mt-3">
+                    有效成分單價 = 單價 ÷ (有效濃度 % w/v ÷ 比重)；單位處理成本 = 期間金額 ÷ 處理量 (冷卻水補水量、鍋爐蒸汽量或廢水處理水量)。
+                </p>
+            </Card>
+        </div>
+    );
+};
+
+export default ContractAnalysisView;
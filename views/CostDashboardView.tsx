@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import * as XLSX from 'xlsx';
+import { Card, Button } from '../App';
+import { Icons } from '../components/Icons';
+import { Tank, Reading, ChemicalSupply, ChemicalBudget, BudgetScope } from '../types';
+import { StorageService } from '../services/storageService';
+import { calculateActualUsage, forecastYearEndSpend, resolveGroupBudget } from '../utils/calculationUtils';
+
+const GROUP_LABELS: Record<BudgetScope, string> = {
+    SYSTEM: '系統',
+    CHEMICAL: '藥品',
+    TANK: '儲槽'
+};
+
+const MONTH_LABELS = Array.from({ length: 12 }, (_, i) => `${i + 1}月`);
+
+type CostRow = {
+    key: string;
+    label: string;
+    tankIds: string[];
+    monthly: number[];
+    total: number;
+    budget: number | null;
+    forecast: number;
+};
+
+const formatMoney = (value: number) => Math.round(value).toLocaleString();
+
+interface CostDashboardViewProps {
+    tanks: Tank[];
+    readings: Reading[];
+}
+
+export const CostDashboardView: React.FC<CostDashboardViewProps> = ({ tanks, readings }) => {
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [groupBy, setGroupBy] = useState<BudgetScope>('SYSTEM');
+    const [supplies, setSupplies] = useState<ChemicalSupply[]>([]);
+    const [budgets, setBudgets] = useState<ChemicalBudget[]>([]);
+
+    useEffect(() => {
+        StorageService.getSupplies().then(setSupplies);
+    }, []);
+
+    useEffect(() => {
+        StorageService.getBudgets(year).then(setBudgets);
+    }, [year]);
+
+    const years = useMemo(() => {
+        const all = new Set([new Date().getFullYear(), ...readings.map(r => new Date(r.timestamp).getFullYear())]);
+        return Array.from(all).sort((a, b) => b - a);
+    }, [readings]);
+
+    // 每座儲槽每月實際支出 = 液位換算用量 (kg) × 當時有效合約單價
+    const tankSpend = useMemo(() => {
+        return tanks.map(tank => {
+            const tankSupplies = supplies.filter(s => s.tankId === tank.id);
+            const tankReadings = readings
+                .filter(r => r.tankId === tank.id)
+                .sort((a, b) => a.timestamp - b.timestamp);
+
+            const monthly = Array.from({ length: 12 }, (_, i) => {
+                const monthStart = new Date(year, i, 1).getTime();
+                const monthEnd = new Date(year, i + 1, 1).getTime();
+                const monthReadings = tankReadings.filter(r => r.timestamp >= monthStart && r.timestamp < monthEnd);
+                return calculateActualUsage(tank, monthReadings, tankSupplies, '$').value;
+            });
+
+            // 藥品以該年度最後生效的合約為準
+            const yearEnd = new Date(year + 1, 0, 1).getTime();
+            const chemicalName = tankSupplies
+                .filter(s => s.startDate < yearEnd)
+                .sort((a, b) => b.startDate - a.startDate)[0]?.chemicalName?.trim() || '未設定合約';
+
+            return { tank, chemicalName, monthly };
+        });
+    }, [tanks, readings, supplies, year]);
+
+    const rows = useMemo<CostRow[]>(() => {
+        const groups = new Map<string, { label: string; tankIds: string[]; monthly: number[] }>();
+        tankSpend.forEach(({ tank, chemicalName, monthly }) => {
+            const key = groupBy === 'TANK' ? tank.id : groupBy === 'CHEMICAL' ? chemicalName : tank.system;
+            const label = groupBy === 'TANK' ? tank.name : key;
+            const group = groups.get(key) || { label, tankIds: [], monthly: Array(12).fill(0) };
+            group.tankIds.push(tank.id);
+            monthly.forEach((value, i) => { group.monthly[i] += value; });
+            groups.set(key, group);
+        });
+
+        return Array.from(groups.entries()).map(([key, group]) => {
+            const total = group.monthly.reduce((sum, v) => sum + v, 0);
+            return {
+                key,
+                label: group.label,
+                tankIds: group.tankIds,
+                monthly: group.monthly,
+                total,
+                budget: resolveGroupBudget(budgets, groupBy, key, group.tankIds),
+                forecast: forecastYearEndSpend(total, year)
+            };
+        }).sort((a, b) => b.total - a.total);
+    }, [tankSpend, budgets, groupBy, year]);
+
+    const summary = useMemo(() => {
+        const monthly = Array(12).fill(0);
+        rows.forEach(row => row.monthly.forEach((v, i) => { monthly[i] += v; }));
+        const total = monthly.reduce((sum, v) => sum + v, 0);
+        const budget = rows.reduce((sum, row) => sum + (row.budget || 0), 0);
+        return { monthly, total, budget, forecast: forecastYearEndSpend(total, year) };
+    }, [rows, year]);
+
+    // 累計支出 vs 預算 (依月平均分攤) vs 預估 (年初至今支出速率外推)
+    const chartData = useMemo(() => {
+        const now = Date.now();
+        let cumulative = 0;
+        return summary.monthly.map((value, i) => {
+            cumulative += value;
+            const monthEnd = new Date(year, i + 1, 1).getTime();
+            const isFuture = new Date(year, i, 1).getTime() > now;
+            return {
+                month: MONTH_LABELS[i],
+                actual: isFuture ? null : Math.round(cumulative),
+                budget: summary.budget > 0 ? Math.round(summary.budget * (i + 1) / 12) : null,
+                forecast: monthEnd > now ? Math.round(summary.forecast * (i + 1) / 12) : null
+            };
+        });
+    }, [summary, year]);
+
+    const overrun = summary.budget > 0 ? summary.forecast - summary.budget : null;
+
+    const handleExport = () => {
+        const summaryRows = rows.map(row => {
+            const record: Record<string, string | number> = { [GROUP_LABELS[groupBy]]: row.label };
+            row.monthly.forEach((value, i) => { record[MONTH_LABELS[i]] = Math.round(value); });
+            record['累計支出'] = Math.round(row.total);
+            record['年度預算'] = row.budget ?? '';
+            record['執行率 (%)'] = row.budget ? Number((row.total / row.budget * 100).toFixed(1)) : '';
+            record['預估年底支出'] = Math.round(row.forecast);
+            record['預估超支'] = row.budget !== null ? Math.round(row.forecast - row.budget) : '';
+            return record;
+        });
+        const tankRows = tankSpend.map(({ tank, chemicalName, monthly }) => {
+            const record: Record<string, string | number> = { 儲槽: tank.name, 系統: tank.system, 藥品: chemicalName };
+            monthly.forEach((value, i) => { record[MONTH_LABELS[i]] = Math.round(value); });
+            record['合計'] = Math.round(monthly.reduce((sum, v) => sum + v, 0));
+            return record;
+        });
+
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summaryRows), `依${GROUP_LABELS[groupBy]}彙總`);
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(tankRows), '儲槽明細');
+        XLSX.writeFile(wb, `ChemicalCost_${year}.xlsx`);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-2xl font-bold text-slate-800">成本預算</h2>
+                <div className="flex items-center gap-2">
+                    <select value={year} onChange={e => setYear(Number(e.target.value))} className="border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                        {years.map(y => <option key={y} value={y}>{y} 年</option>)}
+                    </select>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                        {(Object.keys(GROUP_LABELS) as BudgetScope[]).map(scope => (
+                            <button
+                                key={scope}
+                                onClick={() => setGroupBy(scope)}
+                                className={`px-3 py-1 text-sm rounded-md ${groupBy === scope ? 'bg-white shadow text-slate-800 font-medium' : 'text-slate-500'}`}
+                            >
+                                依{GROUP_LABELS[scope]}
+                            </button>
+                        ))}
+                    </div>
+                    <Button variant="secondary" onClick={handleExport} disabled={rows.length === 0}>
+                        <Icons.Download className="w-4 h-4 mr-1" />
+                        匯出 Excel
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card>
+                    <p className="text-sm text-slate-500">年度預算</p>
+                    <p className="text-2xl font-bold text-slate-800">{summary.budget > 0 ? formatMoney(summary.budget) : '未設定'}</p>
+                </Card>
+                <Card>
+                    <p className="text-sm text-slate-500">累計支出</p>
+                    <p className="text-2xl font-bold text-blue-600">{formatMoney(summary.total)}</p>
+                    {summary.budget > 0 && (
+                        <p className="text-xs text-slate-400">執行率 {(summary.total / summary.budget * 100).toFixed(1)}%</p>
+                    )}
+                </Card>
+                <Card>
+                    <p className="text-sm text-slate-500">預估年底支出</p>
+                    <p className="text-2xl font-bold text-slate-800">{formatMoney(summary.forecast)}</p>
+                </Card>
+                <Card>
+                    <p className="text-sm text-slate-500">預估超支 / 結餘</p>
+                    <p className={`text-2xl font-bold ${overrun === null ? 'text-slate-400' : overrun > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {overrun === null ? '-' : `${overrun > 0 ? '+' : ''}${formatMoney(overrun)}`}
+                    </p>
+                </Card>
+            </div>
+
+            <Card title="累計支出與預算">
+                <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="month" />
+                            <YAxis tickFormatter={v => Number(v).toLocaleString()} />
+                            <RechartsTooltip formatter={(value: any) => Number(value).toLocaleString()} />
+                            <Legend />
+                            <Line type="monotone" dataKey="actual" name="累計支出" stroke="#2563eb" strokeWidth={2} connectNulls={false} />
+                            <Line type="monotone" dataKey="budget" name="預算 (月平均分攤)" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+                            <Line type="monotone" dataKey="forecast" name="預估" stroke="#f97316" strokeDasharray="3 3" dot={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </Card>
+
+            <Card title={`每月實際支出 (依${GROUP_LABELS[groupBy]}，元)`}>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-50 text-xs text-slate-500">
+                            <tr>
+                                <th className="px-3 py-2 text-left sticky left-0 bg-slate-50">{GROUP_LABELS[groupBy]}</th>
+                                {MONTH_LABELS.map(m => <th key={m} className="px-3 py-2 text-right">{m}</th>)}
+                                <th className="px-3 py-2 text-right">累計</th>
+                                <th className="px-3 py-2 text-right">年度預算</th>
+                                <th className="px-3 py-2 text-right">執行率</th>
+                                <th className="px-3 py-2 text-right">預估年底</th>
+                                <th className="px-3 py-2 text-right">預估超支</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {rows.length === 0 && (
+                                <tr><td colSpan={18} className="px-3 py-6 text-center text-slate-400">尚無儲槽資料</td></tr>
+                            )}
+                            {rows.map(row => {
+                                const rowOverrun = row.budget !== null ? row.forecast - row.budget : null;
+                                return (
+                                    <tr key={row.key} className="hover:bg-slate-50">
+                                        <td className="px-3 py-2 font-medium text-slate-800 sticky left-0 bg-white whitespace-nowrap">{row.label}</td>
+                                        {row.monthly.map((value, i) => (
+                                            <td key={i} className="px-3 py-2 text-right font-mono text-slate-600">{value > 0 ? formatMoney(value) : '-'}</td>
+                                        ))}
+                                        <td className="px-3 py-2 text-right font-mono font-bold text-blue-600">{formatMoney(row.total)}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{row.budget !== null ? formatMoney(row.budget) : '-'}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{row.budget ? `${(row.total / row.budget * 100).toFixed(1)}%` : '-'}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{formatMoney(row.forecast)}</td>
+                                        <td className={`px-3 py-2 text-right font-mono font-bold ${rowOverrun === null ? 'text-slate-400' : rowOverrun > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                            {rowOverrun === null ? '-' : `${rowOverrun > 0 ? '+' : ''}${formatMoney(rowOverrun)}`}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-slate-400 mt-3">
+                    實際支出 = 液位換算用量 (kg) × 當時有效合約單價；預估年底支出以年初至今的支出速率外推。預算設定請至「參數設定」。
+                </p>
+            </Card>
+        </div>
+    );
+};
+
+export default CostDashboardView;
@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import * as XLSX from 'xlsx';
+import { Card, Button } from '../App';
+import { Icons } from '../components/Icons';
+import { Tank, Reading, ChemicalSupply, ChemicalMaster, DeliveryOrder } from '../types';
+import { StorageService } from '../services/storageService';
+import { calculateActualUsage, detectRefillEvents } from '../utils/calculationUtils';
+
+type PeriodType = 'MONTH' | 'QUARTER';
+
+type TankStock = {
+    tank: Tank;
+    openingKg: number;
+    receivedKg: number;
+    usedKg: number;
+    closingKg: number;
+    receivedSource: 'DELIVERY' | 'REFILL';
+    notes: string[];
+};
+
+type DeclarationRow = {
+    key: string;
+    name: string;
+    casNumbers: string[];
+    regulatoryNo: string;
+    isRegulated: boolean;
+    tanks: TankStock[];
+    openingKg: number;
+    receivedKg: number;
+    usedKg: number;
+    closingKg: number;
+    differenceKg: number;
+};
+
+const DELIVERED_STATUSES = new Set(['DELIVERED', 'RECONCILED']);
+
+const formatKg = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const getPeriodRange = (year: number, type: PeriodType, index: number) => {
+    const startMonth = type === 'MONTH' ? index : index * 3;
+    const endMonth = startMonth + (type === 'MONTH' ? 1 : 3);
+    return { start: new Date(year, startMonth, 1).getTime(), end: new Date(year, endMonth, 1).getTime() };
+};
+
+const getPeriodLabel = (year: number, type: PeriodType, index: number) =>
+    type === 'MONTH' ? `${year} 年 ${index + 1} 月` : `${year} 年第 ${index + 1} 季`;
+
+interface DeclarationReportViewProps {
+    tanks: Tank[];
+    readings: Reading[];
+}
+
+// 毒性及關注化學物質運作紀錄申報：依藥品彙總前期結存、本期取得、本期使用與本期結存 (kg)
+export const DeclarationReportView: React.FC<DeclarationReportViewProps> = ({ tanks, readings }) => {
+    const now = new Date();
+    const [year, setYear] = useState(now.getFullYear());
+    const [periodType, setPeriodType] = useState<PeriodType>('MONTH');
+    const [periodIndex, setPeriodIndex] = useState(now.getMonth());
+    const [regulatedOnly, setRegulatedOnly] = useState(false);
+    const [supplies, setSupplies] = useState<ChemicalSupply[]>([]);
+    const [chemicals, setChemicals] = useState<ChemicalMaster[]>([]);
+    const [deliveries, setDeliveries] = useState<DeliveryOrder[]>([]);
+
+    useEffect(() => {
+        StorageService.getSupplies().then(setSupplies);
+        StorageService.getChemicals().then(setChemicals);
+        StorageService.getDeliveryOrders().then(setDeliveries);
+    }, []);
+
+    const years = useMemo(() => {
+        const all = new Set([now.getFullYear(), ...readings.map(r => new Date(r.timestamp).getFullYear())]);
+        return Array.from(all).sort((a, b) => b - a);
+    }, [readings]);
+
+    const handlePeriodTypeChange = (type: PeriodType) => {
+        setPeriodType(type);
+        setPeriodIndex(prev => type === 'QUARTER' ? Math.floor(prev / 3) : prev * 3);
+    };
+
+    const { start, end } = getPeriodRange(year, periodType, periodIndex);
+    const periodLabel = getPeriodLabel(year, periodType, periodIndex);
+
+    // 期初 / 期末存量取期間起訖前最後一筆讀數的換算重量；使用量以液位引擎計算 (含期初讀數以涵蓋首段區間)
+    // 取得量優先採用已到貨叫藥單的實收量，未使用叫藥單的儲槽改以液位補藥偵測估計
+    const tankStocks = useMemo<TankStock[]>(() => {
+        return tanks.map(tank => {
+            const tankSupplies = supplies.filter(s => s.tankId === tank.id);
+            const tankReadings = readings
+                .filter(r => r.tankId === tank.id)
+                .sort((a, b) => a.timestamp - b.timestamp);
+            const notes: string[] = [];
+
+            const beforeStart = tankReadings.filter(r => r.timestamp < start);
+            const inPeriod = tankReadings.filter(r => r.timestamp >= start && r.timestamp < end);
+            let openingReading = beforeStart[beforeStart.length - 1];
+            if (!openingReading && inPeriod.length > 0) {
+                openingReading = inPeriod[0];
+                notes.push('期初前無讀數，以期間首筆讀數為前期結存');
+            }
+            const closingReading = inPeriod[inPeriod.length - 1] || openingReading;
+            if (inPeriod.length === 0) notes.push('本期無液位讀數');
+
+            const usageReadings = openingReading && !inPeriod.includes(openingReading) ? [openingReading, ...inPeriod] : inPeriod;
+            const usedKg = calculateActualUsage(tank, usageReadings, tankSupplies, 'KG').value;
+
+            const tankDeliveries = deliveries.filter(d => d.tankId === tank.id && DELIVERED_STATUSES.has(d.status) && d.deliveredAt);
+            let receivedKg: number;
+            let receivedSource: TankStock['receivedSource'];
+            if (tankDeliveries.length > 0) {
+                receivedSource = 'DELIVERY';
+                receivedKg = tankDeliveries
+                    .filter(d => d.deliveredAt! >= start && d.deliveredAt! < end)
+                    .reduce((sum, d) => sum + (d.actualKg ?? d.orderedKg), 0);
+            } else {
+                receivedSource = 'REFILL';
+                receivedKg = detectRefillEvents(tank, usageReadings, tankSupplies)
+                    .filter(e => e.timestamp >= start && e.timestamp < end)
+                    .reduce((sum, e) => sum + e.actualKg, 0);
+            }
+
+            return {
+                tank,
+                openingKg: openingReading?.calculatedWeightKg || 0,
+                receivedKg,
+                usedKg,
+                closingKg: closingReading?.calculatedWeightKg || 0,
+                receivedSource,
+                notes
+            };
+        });
+    }, [tanks, readings, supplies, deliveries, start, end]);
+
+    // 依藥品主檔彙總；未連結主檔的儲槽以期間有效合約的藥品名稱歸戶
+    const rows = useMemo<DeclarationRow[]>(() => {
+        const groups = new Map<string, DeclarationRow>();
+        tankStocks.forEach(stock => {
+            const chemical = chemicals.find(c => c.id === stock.tank.chemicalId);
+            const supplyName = supplies
+                .filter(s => s.tankId === stock.tank.id && s.startDate < end)
+                .sort((a, b) => b.startDate - a.startDate)[0]?.chemicalName?.trim();
+            const key = chemical ? chemical.id : `name:${supplyName || stock.tank.name}`;
+            const row = groups.get(key) || {
+                key,
+                name: chemical?.name || supplyName || `${stock.tank.name} (未設定藥品)`,
+                casNumbers: chemical?.casNumbers || [],
+                regulatoryNo: chemical?.regulatoryNo || '',
+                isRegulated: chemical?.isRegulated || false,
+                tanks: [],
+                openingKg: 0,
+                receivedKg: 0,
+                usedKg: 0,
+                closingKg: 0,
+                differenceKg: 0
+            };
+            row.tanks.push(stock);
+            row.openingKg += stock.openingKg;
+            row.receivedKg += stock.receivedKg;
+            row.usedKg += stock.usedKg;
+            row.closingKg += stock.closingKg;
+            row.differenceKg = row.openingKg + row.receivedKg - row.usedKg - row.closingKg;
+            groups.set(key, row);
+        });
+        return Array.from(groups.values())
+            .filter(row => !regulatedOnly || row.isRegulated)
+            .sort((a, b) => Number(b.isRegulated) - Number(a.isRegulated) || a.name.localeCompare(b.name));
+    }, [tankStocks, chemicals, supplies, end, regulatedOnly]);
+
+    const handleExport = () => {
+        const header = ['序號', '列管編號', '化學物質名稱', 'CAS No.', '列管註記', '前期結存量', '本期取得量', '本期使用量', '本期結存量', '差異量', '運作儲槽', '備註'];
+        const lastDay = new Date(end - 1).toLocaleDateString('sv-SE');
+        const body = rows.map((row, i) => [
+            i + 1,
+            row.regulatoryNo,
+            row.name,
+            row.casNumbers.join(', '),
+            row.isRegulated ? '列管' : '',
+            round1(row.openingKg),
+            round1(row.receivedKg),
+            round1(row.usedKg),
+            round1(row.closingKg),
+            round1(row.differenceKg),
+            row.tanks.map(s => s.tank.name).join('、'),
+            row.tanks.flatMap(s => s.notes.map(note => `${s.tank.name}: ${note}`)).join('；')
+        ]);
+        const aoa: (string | number)[][] = [
+            ['毒性及關注化學物質運作紀錄申報表'],
+            [`申報期間：${periodLabel} (${new Date(start).toLocaleDateString('sv-SE')} ~ ${lastDay})`],
+            [`製表日期：${new Date().toLocaleDateString('sv-SE')}`, '', '', '', '', '單位：公斤 (kg)'],
+            [],
+            header,
+            ...body,
+            ['', '', '合計', '', '',
+                round1(rows.reduce((sum, r) => sum + r.openingKg, 0)),
+                round1(rows.reduce((sum, r) => sum + r.receivedKg, 0)),
+                round1(rows.reduce((sum, r) => sum + r.usedKg, 0)),
+                round1(rows.reduce((sum, r) => sum + r.closingKg, 0)),
+                round1(rows.reduce((sum, r) => sum + r.differenceKg, 0)),
+                '', '']
+        ];
+        const sheet = XLSX.utils.aoa_to_sheet(aoa);
+        sheet['!merges'] = [
+            { s: { r: 0, c: 0 }, e: { r: 0, c: header.length - 1 } },
+            { s: { r: 1, c: 0 }, e: { r: 1, c: header.length - 1 } },
+            { s: { r: 2, c: 0 }, e: { r: 2, c: 4 } }
+        ];
+        sheet['!cols'] = [6, 14, 24, 16, 8, 12, 12, 12, 12, 10, 24, 40].map(wch => ({ wch }));
+
+        const tankRows = rows.flatMap(row => row.tanks.map(s => ({
+            化學物質名稱: row.name,
+            儲槽: s.tank.name,
+            前期結存量: round1(s.openingKg),
+            本期取得量: round1(s.receivedKg),
+            取得量來源: s.receivedSource === 'DELIVERY' ? '叫藥單實收' : '液位補藥偵測',
+            本期使用量: round1(s.usedKg),
+            本期結存量: round1(s.closingKg),
+            備註: s.notes.join('；')
+        })));
+
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, sheet, '運作紀錄申報');
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(tankRows), '儲槽明細');
+        const periodCode = periodType === 'MONTH' ? String(periodIndex + 1).padStart(2, '0') : `Q${periodIndex + 1}`;
+        XLSX.writeFile(wb, `ToxicChemicalDeclaration_${year}${periodCode}.xlsx`);
+    };
+
+    const selectClassName = "border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-2xl font-bold text-slate-800">毒化物申報</h2>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={year} onChange={e => setYear(Number(e.target.value))} className={selectClassName}>
+                        {years.map(y => <option key={y} value={y}>{y} 年</option>)}
+                    </select>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                        {(['MONTH', 'QUARTER'] as PeriodType[]).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => handlePeriodTypeChange(type)}
+                                className={`px-3 py-1 text-sm rounded-md ${periodType === type ? 'bg-white shadow text-slate-800 font-medium' : 'text-slate-500'}`}
+                            >
+                                {type === 'MONTH' ? '月報' : '季報'}
+                            </button>
+                        ))}
+                    </div>
+                    <select value={periodIndex} onChange={e => setPeriodIndex(Number(e.target.value))} className={selectClassName}>
+                        {Array.from({ length: periodType === 'MONTH' ? 12 : 4 }, (_, i) => (
+                            <option key={i} value={i}>{periodType === 'MONTH' ? `${i + 1} 月` : `第 ${i + 1} 季`}</option>
+                        ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-sm text-slate-600">
+                        <input type="checkbox" checked={regulatedOnly} onChange={e => setRegulatedOnly(e.target.checked)} />
+                        僅列管藥品
+                    </label>
+                    <Button variant="secondary" onClick={handleExport} disabled={rows.length === 0}>
+                        <Icons.Download className="w-4 h-4 mr-1" />
+                        匯出申報表
+                    </Button>
+                </div>
+            </div>
+
+            <Card title={`運作紀錄 - ${periodLabel} (kg)`}>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-slate-50 text-xs text-slate-500">
+                            <tr>
+                                <th className="px-3 py-2 text-left">化學物質名稱</th>
+                                <th className="px-3 py-2 text-left">CAS No.</th>
+                                <th className="px-3 py-2 text-center">列管</th>
+                                <th className="px-3 py-2 text-right">前期結存量</th>
+                                <th className="px-3 py-2 text-right">本期取得量</th>
+                                <th className="px-3 py-2 text-right">本期使用量</th>
+                                <th className="px-3 py-2 text-right">本期結存量</th>
+                                <th className="px-3 py-2 text-right">差異量</th>
+                                <th className="px-3 py-2 text-left">運作儲槽</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {rows.length === 0 && (
+                                <tr><td colSpan={9} className="px-3 py-6 text-center text-slate-400">{regulatedOnly ? '尚無列管藥品，請於「系統設定 → 藥品主檔」標記' : '尚無儲槽資料'}</td></tr>
+                            )}
+                            {rows.map(row => {
+                                const notes = row.tanks.flatMap(s => s.notes.map(note => `${s.tank.name}: ${note}`));
+                                return (
+                                    <tr key={row.key} className="hover:bg-slate-50 align-top">
+                                        <td className="px-3 py-2 font-medium text-slate-800 whitespace-nowrap">
+                                            {row.name}
+                                            {notes.length > 0 && <div className="text-xs font-normal text-amber-600">{notes.join('；')}</div>}
+                                        </td>
+                                        <td className="px-3 py-2 text-slate-600">{row.casNumbers.join(', ') || '-'}</td>
+                                        <td className="px-3 py-2 text-center">
+                                            {row.isRegulated ? (
+                                                <span className="text-xs px-2 py-0.5 rounded bg-purple-100 text-purple-700">{row.regulatoryNo || '列管'}</span>
+                                            ) : <span className="text-slate-300">-</span>}
+                                        </td>
+                                        <td className="px-3 py-2 text-right font-mono">{formatKg(row.openingKg)}</td>
+                                        <td className="px-3 py-2 text-right font-mono text-green-700">{formatKg(row.receivedKg)}</td>
+                                        <td className="px-3 py-2 text-right font-mono text-blue-600">{formatKg(row.usedKg)}</td>
+                                        <td className="px-3 py-2 text-right font-mono font-bold">{formatKg(row.closingKg)}</td>
+                                        <td className={`px-3 py-2 text-right font-mono ${Math.abs(row.differenceKg) > Math.max(1, row.usedKg * 0.05) ? 'text-red-600' : 'text-slate-400'}`}>
+                                            {formatKg(row.differenceKg)}
+                                        </td>
+                                        <td className="px-3 py-2 text-xs text-slate-500">
+                                            {row.tanks.map(s => `${s.tank.name}${s.receivedSource === 'REFILL' ? ' (液位補藥)' : ''}`).join('、')}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-slate-400 mt-3">
+                    前期 / 本期結存量取期間起訖前最後一筆液位讀數的換算重量；取得量採已到貨叫藥單實收量，未使用叫藥單的儲槽以液位補藥偵測估計。
+                    差異量 = 前期結存 + 本期取得 - 本期使用 - 本期結存，超過使用量 5% 以紅字標示，申報前請先確認讀數與叫藥單。
+                </p>
+            </Card>
+        </div>
+    );
+};
+
+export default DeclarationReportView;
@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button, Card } from '../App';
+import { Icons } from '../components/Icons';
+import { Tank, ChemicalSupply, DeliveryOrder, DeliveryOrderStatus, UserRole } from '../types';
+import { StorageService } from '../services/storageService';
+import { hasRole } from '../utils/permissionUtils';
+
+const STATUS_LABELS: Record<DeliveryOrderStatus, string> = {
+    REQUESTED: '已叫藥',
+    CONFIRMED: '已確認',
+    DELIVERED: '已到貨',
+    RECONCILED: '已對帳'
+};
+
+const STATUS_STYLES: Record<DeliveryOrderStatus, string> = {
+    REQUESTED: 'bg-amber-100 text-amber-700',
+    CONFIRMED: 'bg-blue-100 text-blue-700',
+    DELIVERED: 'bg-emerald-100 text-emerald-700',
+    RECONCILED: 'bg-slate-200 text-slate-600'
+};
+
+// 各狀態可執行的下一步 (與後端 DELIVERY_ORDER_TRANSITIONS 一致)
+const NEXT_ACTIONS: Record<DeliveryOrderStatus, { status: DeliveryOrderStatus; label: string }[]> = {
+    REQUESTED: [{ status: 'CONFIRMED', label: '確認' }, { status: 'DELIVERED', label: '登錄到貨' }],
+    CONFIRMED: [{ status: 'DELIVERED', label: '登錄到貨' }, { status: 'REQUESTED', label: '退回' }],
+    DELIVERED: [{ status: 'RECONCILED', label: '對帳完成' }, { status: 'CONFIRMED', label: '退回' }],
+    RECONCILED: [{ status: 'DELIVERED', label: '取消對帳' }]
+};
+
+const inputClassName = "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm";
+
+const toDateInput = (ts?: number | null) => ts ? new Date(ts).toISOString().split('T')[0] : '';
+
+interface DeliveryOrdersViewProps {
+    tanks: Tank[];
+    userRole?: UserRole | null;
+}
+
+export const DeliveryOrdersView: React.FC<DeliveryOrdersViewProps> = ({ tanks, userRole }) => {
+    const canManage = hasRole(userRole, 'engineer');
+    const [orders, setOrders] = useState<DeliveryOrder[]>([]);
+    const [supplies, setSupplies] = useState<ChemicalSupply[]>([]);
+    const [filterTankId, setFilterTankId] = useState('');
+    const [filterStatus, setFilterStatus] = useState<DeliveryOrderStatus | ''>('');
+    const [isMatching, setIsMatching] = useState(false);
+
+    const [form, setForm] = useState({
+        tankId: '',
+        supplyId: '',
+        orderedKg: '',
+        requestedDate: toDateInput(Date.now()),
+        expectedDate: '',
+        note: ''
+    });
+
+    const loadOrders = async () => {
+        const data = await StorageService.getDeliveryOrders({
+            tankId: filterTankId || undefined,
+            status: filterStatus || undefined
+        });
+        setOrders(data);
+    };
+
+    useEffect(() => {
+        loadOrders();
+    }, [filterTankId, filterStatus]);
+
+    useEffect(() => {
+        StorageService.getSupplies().then(setSupplies);
+    }, []);
+
+    const tankSupplies = useMemo(
+        () => supplies.filter(s => s.tankId === form.tankId).sort((a, b) => b.startDate - a.startDate),
+        [supplies, form.tankId]
+    );
+
+    const getTankName = (tankId: string) => tanks.find(t => t.id === tankId)?.name || tankId;
+    const getSupplyLabel = (supplyId?: string | null) => {
+        const supply = supplies.find(s => s.id === supplyId);
+        return supply ? `${supply.supplierName} ${supply.chemicalName}` : '-';
+    };
+
+    const handleCreate = async () => {
+        const orderedKg = Number(form.orderedKg);
+        if (!form.tankId || !(orderedKg > 0)) {
+            alert('請選擇儲槽並輸入叫藥量');
+            return;
+        }
+        try {
+            await StorageService.saveDeliveryOrder({
+                tankId: form.tankId,
+                supplyId: form.supplyId || null,
+                orderedKg,
+                requestedAt: form.requestedDate ? new Date(form.requestedDate).getTime() : Date.now(),
+                expectedAt: form.expectedDate ? new Date(form.expectedDate).getTime() : null,
+                note: form.note || null
+            });
+            setForm(prev => ({ ...prev, orderedKg: '', expectedDate: '', note: '' }));
+            await loadOrders();
+        } catch (e: any) {
+            alert(e.message || '新增叫藥單失敗');
+        }
+    };
+
+    const handleStatusChange = async (order: DeliveryOrder, status: DeliveryOrderStatus) => {
+        let actualKg: number | undefined;
+        if (status === 'DELIVERED' && order.actualKg === null) {
+            const input = prompt('請輸入實際到貨量 (kg)，空白則待液位上升後自動比對：', '');
+            if (input === null) return;
+            if (input.trim()) {
+                actualKg = Number(input);
+                if (!Number.isFinite(actualKg) || actualKg < 0) {
+                    alert('到貨量格式錯誤');
+                    return;
+                }
+            }
+        }
+        try {
+            await StorageService.updateDeliveryOrderStatus(order.id, status, actualKg);
+            await loadOrders();
+        } catch (e: any) {
+            alert(e.message || '變更狀態失敗');
+        }
+    };
+
+    const handleDelete = async (order: DeliveryOrder) => {
+        if (!window.confirm(`確定要刪除 ${getTankName(order.tankId)} 的叫藥單嗎？`)) return;
+        try {
+            await StorageService.deleteDeliveryOrder(order.id);
+            await loadOrders();
+        } catch (e: any) {
+            alert(e.message || '刪除失敗');
+        }
+    };
+
+    const handleMatch = async () => {
+        setIsMatching(true);
+        try {
+            const matched = await StorageService.matchDeliveryOrders(filterTankId || undefined);
+            alert(matched.length > 0 ? `已自動對應 ${matched.length} 筆到貨` : '沒有可對應的補藥紀錄');
+            await loadOrders();
+        } catch (e: any) {
+            alert(e.message || '比對失敗');
+        } finally {
+            setIsMatching(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-slate-800 flex items-center gap-3">
+                    <Icons.Delivery className="w-7 h-7 text-brand-500" />
+                    叫藥單管理
+                </h1>
+                {hasRole(userRole, 'operator') && (
+                    <Button onClick={handleMatch} disabled={isMatching}>
+                        <Icons.Recycle className="w-4 h-4 mr-2" />
+                        {isMatching ? '比對中...' : '比對液位補藥'}
+                    </Button>
+                )}
+            </div>
+
+            {canManage && (
+                <Card title="新增叫藥單">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">儲槽</label>
+                            <select
+                                value={form.tankId}
+                                onChange={e => setForm(prev => ({ ...prev, tankId: e.target.value, supplyId: '' }))}
+                                className={inputClassName}
+                            >
+                                <option value="">請選擇</option>
+                                {tanks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">藥劑合約</label>
+                            <select
+                                value={form.supplyId}
+                                onChange={e => setForm(prev => ({ ...prev, supplyId: e.target.value }))}
+                                className={inputClassName}
+                                disabled={!form.tankId}
+                            >
+                                <option value="">自動 (叫藥日有效合約)</option>
+                                {tankSupplies.map(s => (
+                                    <option key={s.id} value={s.id}>
+                                        {s.supplierName} {s.chemicalName} ({new Date(s.startDate).toLocaleDateString()})
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">叫藥量 (kg)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={form.orderedKg}
+                                onChange={e => setForm(prev => ({ ...prev, orderedKg: e.target.value }))}
+                                className={inputClassName}
+                                placeholder="例: 1000"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">叫藥日期</label>
+                            <input
+                                type="date"
+                                value={form.requestedDate}
+                                onChange={e => setForm(prev => ({ ...prev, requestedDate: e.target.value }))}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">預計到貨日</label>
+                            <input
+                                type="date"
+                                value={form.expectedDate}
+                                onChange={e => setForm(prev => ({ ...prev, expectedDate: e.target.value }))}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">備註</label>
+                            <input
+                                type="text"
+                                value={form.note}
+                                onChange={e => setForm(prev => ({ ...prev, note: e.target.value }))}
+                                className={inputClassName}
+                            />
+                        </div>
+                    </div>
+                    <div className="flex justify-end mt-4">
+                        <Button onClick={handleCreate}>
+                            <Icons.Plus className="w-4 h-4 mr-2" />
+                            新增
+                        </Button>
+                    </div>
+                </Card>
+            )}
+
+            <Card title="叫藥單列表">
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <select value={filterTankId} onChange={e => setFilterTankId(e.target.value)} className="border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                        <option value="">全部儲槽</option>
+                        {tanks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <select value={filterStatus} onChange={e => setFilterStatus(e.target.value as DeliveryOrderStatus | '')} className="border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                        <option value="">全部狀態</option>
+                        {(Object.keys(STATUS_LABELS) as DeliveryOrderStatus[]).map(s => (
+                            <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+                        ))}
+                    </select>
+                    <span className="text-xs text-slate-400">新增液位讀數後，系統會自動將偵測到的補藥對應至最早的未到貨叫藥單</span>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="bg-slate-50 text-slate-600 text-left">
+                                <th className="px-3 py-2">儲槽</th>
+                                <th className="px-3 py-2">合約</th>
+                                <th className="px-3 py-2">叫藥日</th>
+                                <th className="px-3 py-2">預計到貨</th>
+                                <th className="px-3 py-2 text-right">叫藥量 (kg)</th>
+                                <th className="px-3 py-2 text-right">實際到貨 (kg)</th>
+                                <th className="px-3 py-2">狀態</th>
+                                <th className="px-3 py-2">操作</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {orders.length === 0 && (
+                                <tr>
+                                    <td colSpan={8} className="px-3 py-6 text-center text-slate-400">尚無叫藥單</td>
+                                </tr>
+                            )}
+                            {orders.map(order => (
+                                <tr key={order.id} className="border-t border-slate-100">
+                                    <td className="px-3 py-2 font-medium text-slate-700">{getTankName(order.tankId)}</td>
+                                    <td className="px-3 py-2 text-slate-500">{getSupplyLabel(order.supplyId)}</td>
+                                    <td className="px-3 py-2">{new Date(order.requestedAt).toLocaleDateString()}</td>
+                                    <td className="px-3 py-2">{order.expectedAt ? new Date(order.expectedAt).toLocaleDateString() : '-'}</td>
+                                    <td className="px-3 py-2 text-right">{order.orderedKg.toFixed(0)}</td>
+                                    <td className="px-3 py-2 text-right">
+                                        {order.actualKg !== null && order.actualKg !== undefined ? (
+                                            <span className={order.isShortfall ? 'text-red-600 font-bold' : 'text-slate-700'}>
+                                                {order.actualKg.toFixed(0)}
+                                                {order.isShortfall && order.shortfallKg !== null && order.shortfallKg !== undefined && (
+                                                    <span className="block text-xs">⚠️ 短少 {order.shortfallKg.toFixed(0)} kg</span>
+                                                )}
+                                            </span>
+                                        ) : '-'}
+                                        {order.matchedReadingId && (
+                                            <span className="block text-[10px] text-slate-400">
+                                                液位比對 {order.deliveredAt ? new Date(order.deliveredAt).toLocaleDateString() : ''}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[order.status]}`}>
+                                            {STATUS_LABELS[order.status]}
+                                        </span>
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        {canManage ? (
+                                            <div className="flex flex-wrap gap-1">
+                                                {NEXT_ACTIONS[order.status].map(action => (
+                                                    <button
+                                                        key={action.status}
+                                                        onClick={() => handleStatusChange(order, action.status)}
+                                                        className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-700 px-2 py-1 rounded transition-colors"
+                                                    >
+                                                        {action.label}
+                                                    </button>
+                                                ))}
+                                                <button
+                                                    onClick={() => handleDelete(order)}
+                                                    className="text-xs text-red-500 hover:bg-red-50 px-2 py-1 rounded transition-colors"
+                                                    title="刪除"
+                                                >
+                                                    <Icons.Delete className="w-3.5 h-3.5" />
+                                                </button>
+                                            </div>
+                                        ) : <span className="text-xs text-slate-400">-</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default DeliveryOrdersView;
@@ -0,0 +1,407 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Icons } from '../components/Icons';
+import { Tank, Reading, FieldRound, FieldRoundCheckItem, FieldRoundCheckResult } from '../types';
+import { StorageService } from '../services/storageService';
+import { getFieldRoundPhotoUrl } from '../services/apiService';
+import {
+    calculateTankVolume, calculateRecentAvgDailyUsageLiters, calculateLevelFromVolume, DEFAULT_USAGE_CALC_WEEKS,
+    convertInputToLevelCm, convertLevelCmToInput
+} from '../utils/calculationUtils';
+
+export const FIELD_ROUND_CHECK_LABELS: Record<FieldRoundCheckItem, string> = {
+    LEAK: '無洩漏',
+    PUMP: '加藥泵運轉正常',
+    BUND: '防溢堤清潔'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PHOTO_MAX_EDGE = 1600;
+
+type RoundEntry = {
+    value: string;
+    skipped: boolean;
+    checklist: Partial<Record<FieldRoundCheckItem, FieldRoundCheckResult>>;
+    note: string;
+    photo?: Blob;
+    photoUrl?: string;
+};
+
+const emptyEntry = (): RoundEntry => ({ value: '', skipped: false, checklist: {}, note: '' });
+
+const todayStr = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+const getUnitLabel = (tank: Tank) => tank.inputUnit === 'PERCENT' ? '公尺' : tank.inputUnit === 'LIQUID_PERCENT' ? '%' : '公分';
+
+const formatInputLevel = (tank: Tank, levelCm: number) =>
+    convertLevelCmToInput(tank, levelCm).toFixed(tank.inputUnit === 'PERCENT' ? 2 : 1);
+
+// 手機拍照原圖動輒數 MB，上傳前縮至長邊 1600px 的 JPEG
+const compressPhoto = (file: File): Promise<Blob> => new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+        const scale = Math.min(1, PHOTO_MAX_EDGE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        URL.revokeObjectURL(url);
+        canvas.toBlob(blob => resolve(blob || file), 'image/jpeg', 0.8);
+    };
+    img.onerror = () => {
+        URL.revokeObjectURL(url);
+        resolve(file);
+    };
+    img.src = url;
+});
+
+interface FieldRoundViewProps {
+    tanks: Tank[];
+    readings: Reading[];
+    operatorName: string;
+    usageCalcWeeks?: number;
+    onComplete: () => void;
+}
+
+// 現場巡檢 (手機版)：依儲槽排序逐槽抄錄液位、檢查項目與照片，完成後整批儲存
+export const FieldRoundView: React.FC<FieldRoundViewProps> = ({ tanks, readings, operatorName, usageCalcWeeks = DEFAULT_USAGE_CALC_WEEKS, onComplete }) => {
+    const [phase, setPhase] = useState<'START' | 'TANK' | 'SUMMARY'>('START');
+    const [roundDate, setRoundDate] = useState(todayStr);
+    const [startedAt, setStartedAt] = useState<number | null>(null);
+    const [index, setIndex] = useState(0);
+    const [entries, setEntries] = useState<Record<string, RoundEntry>>({});
+    const [recentRounds, setRecentRounds] = useState<FieldRound[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const orderedTanks = useMemo(
+        () => [...tanks].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name)),
+        [tanks]
+    );
+    const roundTimestamp = new Date(`${roundDate}T00:00:00`).getTime();
+
+    const loadRecentRounds = async () => {
+        setRecentRounds(await StorageService.getFieldRounds(10));
+    };
+
+    useEffect(() => {
+        loadRecentRounds();
+    }, []);
+
+    // 上次讀數與依近期平均日用量推估的本次液位
+    const tankContext = useMemo(() => {
+        return Object.fromEntries(orderedTanks.map(tank => {
+            const tankReadings = readings
+                .filter(r => r.tankId === tank.id && r.timestamp < roundTimestamp)
+                .sort((a, b) => b.timestamp - a.timestamp);
+            const lastReading = tankReadings[0];
+            const avgDailyUsageLiters = calculateRecentAvgDailyUsageLiters(tankReadings, usageCalcWeeks, roundTimestamp);
+            const expectedLevelCm = lastReading
+                ? calculateLevelFromVolume(tank, Math.max(0, lastReading.calculatedVolume - avgDailyUsageLiters * (roundTimestamp - lastReading.timestamp) / DAY_MS))
+                : null;
+            const existing = readings.find(r => r.tankId === tank.id && new Date(r.timestamp).toLocaleDateString('sv-SE') === roundDate);
+            return [tank.id, { lastReading, avgDailyUsageLiters, expectedLevelCm, existing }];
+        }));
+    }, [orderedTanks, readings, roundTimestamp, roundDate, usageCalcWeeks]);
+
+    const tank = orderedTanks[index];
+    const entry = (tank && entries[tank.id]) || emptyEntry();
+    const context = tank ? tankContext[tank.id] : null;
+
+    const updateEntry = (patch: Partial<RoundEntry>) => {
+        if (!tank) return;
+        setEntries(prev => ({ ...prev, [tank.id]: { ...(prev[tank.id] || emptyEntry()), ...patch } }));
+    };
+
+    const handleStart = () => {
+        setEntries({});
+        setIndex(0);
+        setStartedAt(Date.now());
+        setPhase('TANK');
+    };
+
+    const goNext = () => {
+        if (index < orderedTanks.length - 1) {
+            setIndex(index + 1);
+        } else {
+            setPhase('SUMMARY');
+        }
+        window.scrollTo(0, 0);
+    };
+
+    const handleNext = () => {
+        if (!entry.skipped && entry.value === '') {
+            alert('請輸入液位，或按「略過」');
+            return;
+        }
+        goNext();
+    };
+
+    const handleSkip = () => {
+        updateEntry({ skipped: true, value: '' });
+        goNext();
+    };
+
+    const handlePhoto = async (file?: File) => {
+        if (!file) return;
+        const photo = await compressPhoto(file);
+        if (entry.photoUrl) URL.revokeObjectURL(entry.photoUrl);
+        updateEntry({ photo, photoUrl: URL.createObjectURL(photo) });
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            const photos: Record<string, Blob> = {};
+            const items = [];
+            for (const t of orderedTanks) {
+                const e = entries[t.id];
+                if (!e) continue;
+                if (e.photo) photos[t.id] = e.photo;
+                let reading: Reading | null = null;
+                if (!e.skipped && e.value !== '') {
+                    const levelCm = convertInputToLevelCm(t, parseFloat(e.value));
+                    const supply = await StorageService.getActiveSupply(t.id, roundTimestamp);
+                    const sg = supply?.specificGravity || 1.0;
+                    const volume = calculateTankVolume(t, levelCm);
+                    const existing = tankContext[t.id]?.existing;
+                    reading = {
+                        id: existing?.id || crypto.randomUUID(),
+                        tankId: t.id,
+                        timestamp: roundTimestamp,
+                        levelCm,
+                        calculatedVolume: volume,
+                        calculatedWeightKg: volume * sg,
+                        appliedSpecificGravity: sg,
+                        supplyId: supply?.id,
+                        addedAmountLiters: existing?.addedAmountLiters || 0,
+                        operatorName
+                    };
+                }
+                items.push({ tankId: t.id, skipped: e.skipped || !reading, checklist: e.checklist, note: e.note || null, reading });
+            }
+            await StorageService.saveFieldRound({ roundDate, operatorName, startedAt, completedAt: Date.now(), items }, photos);
+            (Object.values(entries) as RoundEntry[]).forEach(e => e.photoUrl && URL.revokeObjectURL(e.photoUrl));
+            alert(`巡檢已完成，儲存 ${items.filter(i => i.reading).length} 筆液位紀錄`);
+            setEntries({});
+            setPhase('START');
+            onComplete();
+            loadRecentRounds();
+        } catch (e: any) {
+            alert(e.message || '儲存巡檢失敗');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const bigButton = "flex-1 py-4 rounded-xl text-base font-bold transition-colors disabled:opacity-50";
+
+    if (phase === 'START') {
+        return (
+            <div className="max-w-md mx-auto space-y-4">
+                <h2 className="text-2xl font-bold text-slate-800">現場巡檢</h2>
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">抄表日期</label>
+                        <input type="date" value={roundDate} onChange={e => setRoundDate(e.target.value)} className="w-full border border-slate-200 rounded-lg px-3 py-3 text-lg" />
+                    </div>
+                    <p className="text-sm text-slate-500">依儲槽排序共 {orderedTanks.length} 座，每座一頁，完成後整批儲存。巡檢人員：{operatorName}</p>
+                    <button onClick={handleStart} disabled={orderedTanks.length === 0} className={`${bigButton} w-full bg-brand-600 text-white hover:bg-brand-700`}>
+                        開始巡檢
+                    </button>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+                    <h3 className="font-bold text-slate-700 mb-3">近期巡檢</h3>
+                    {recentRounds.length === 0 && <p className="text-sm text-slate-400">尚無巡檢紀錄</p>}
+                    <ul className="divide-y divide-slate-100">
+                        {recentRounds.map(round => {
+                            const abnormal = round.items.filter(i => Object.values(i.checklist).includes('ABNORMAL'));
+                            return (
+                                <li key={round.id} className="py-2 text-sm">
+                                    <div className="flex justify-between">
+                                        <span className="font-medium text-slate-800">{round.roundDate}</span>
+                                        <span className="text-slate-500">{round.operatorName || '-'}</span>
+                                    </div>
+                                    <div className="text-xs text-slate-500">
+                                        抄錄 {round.items.filter(i => !i.skipped).length} / {round.items.length} 槽
+                                        {abnormal.length > 0 && (
+                                            <span className="text-red-600 ml-2">
+                                                異常：{abnormal.map(i => tanks.find(t => t.id === i.tankId)?.name || i.tankId).join('、')}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {round.items.some(i => i.hasPhoto) && (
+                                        <div className="flex gap-2 mt-1 flex-wrap">
+                                            {round.items.filter(i => i.hasPhoto && i.id).map(i => (
+                                                <a key={i.id} href={getFieldRoundPhotoUrl(i.id!)} target="_blank" rel="noreferrer" className="text-xs text-blue-600 underline">
+                                                    {tanks.find(t => t.id === i.tankId)?.name || i.tankId} 照片
+                                                </a>
+                                            ))}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            </div>
+        );
+    }
+
+    if (phase === 'SUMMARY') {
+        return (
+            <div className="max-w-md mx-auto space-y-4">
+                <h2 className="text-2xl font-bold text-slate-800">巡檢確認 ({roundDate})</h2>
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+                    {orderedTanks.map((t, i) => {
+                        const e = entries[t.id];
+                        const abnormal = e && Object.values(e.checklist).includes('ABNORMAL');
+                        return (
+                            <button key={t.id} onClick={() => { setIndex(i); setPhase('TANK'); }} className="w-full flex justify-between items-center px-4 py-3 text-left hover:bg-slate-50">
+                                <span className="font-medium text-slate-800">{t.name}</span>
+                                <span className={`text-sm ${!e || e.skipped ? 'text-slate-400' : abnormal ? 'text-red-600 font-bold' : 'text-slate-700'}`}>
+                                    {!e || e.skipped ? '略過' : `${e.value} ${getUnitLabel(t)}`}
+                                    {abnormal && ' · 異常'}
+                                    {e?.photo && ' · 📷'}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="flex gap-3">
+                    <button onClick={() => { setIndex(orderedTanks.length - 1); setPhase('TANK'); }} className={`${bigButton} bg-slate-100 text-slate-700 hover:bg-slate-200`}>
+                        返回
+                    </button>
+                    <button onClick={handleSave} disabled={saving} className={`${bigButton} bg-brand-600 text-white hover:bg-brand-700`}>
+                        {saving ? '儲存中...' : '完成並儲存'}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (!tank || !context) return null;
+
+    const unitLabel = getUnitLabel(tank);
+    const enteredLevelCm = entry.value !== '' ? convertInputToLevelCm(tank, parseFloat(entry.value)) : null;
+    const deviationLiters = enteredLevelCm !== null && context.expectedLevelCm !== null
+        ? calculateTankVolume(tank, enteredLevelCm) - calculateTankVolume(tank, context.expectedLevelCm)
+        : null;
+    const isDeviating = deviationLiters !== null && context.avgDailyUsageLiters > 0 && Math.abs(deviationLiters) > context.avgDailyUsageLiters * 3;
+
+    return (
+        <div className="max-w-md mx-auto space-y-4 pb-28">
+            <div>
+                <div className="flex justify-between text-sm text-slate-500 mb-1">
+                    <span>{roundDate}</span>
+                    <span>{index + 1} / {orderedTanks.length}</span>
+                </div>
+                <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-600" style={{ width: `${(index + 1) / orderedTanks.length * 100}%` }} />
+                </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5 space-y-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-slate-800">{tank.name}</h2>
+                    <p className="text-sm text-slate-500">{tank.system}{tank.description ? ` · ${tank.description}` : ''}</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="bg-slate-50 rounded-lg p-3">
+                        <div className="text-slate-500">上次讀數</div>
+                        <div className="text-lg font-bold text-slate-800">
+                            {context.lastReading ? `${formatInputLevel(tank, context.lastReading.levelCm)} ${unitLabel}` : '-'}
+                        </div>
+                        <div className="text-xs text-slate-400">{context.lastReading ? new Date(context.lastReading.timestamp).toLocaleDateString() : '無紀錄'}</div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg p-3">
+                        <div className="text-slate-500">預估液位</div>
+                        <div className="text-lg font-bold text-slate-800">
+                            {context.expectedLevelCm !== null ? `${formatInputLevel(tank, context.expectedLevelCm)} ${unitLabel}` : '-'}
+                        </div>
+                        <div className="text-xs text-slate-400">日用量 {Math.round(context.avgDailyUsageLiters).toLocaleString()} L</div>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">液位 ({unitLabel})</label>
+                    <input
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        value={entry.value}
+                        onChange={e => updateEntry({ value: e.target.value, skipped: false })}
+                        className={`w-full border-2 rounded-xl px-4 py-4 text-4xl font-mono text-center ${isDeviating ? 'border-amber-400 bg-amber-50' : 'border-slate-300'}`}
+                        autoFocus
+                    />
+                    {context.existing && <p className="text-xs text-amber-600 mt-1">此日期已有讀數，儲存後將覆蓋</p>}
+                    {isDeviating && (
+                        <p className="text-xs text-amber-600 mt-1">
+                            與預估相差 {Math.round(deviationLiters!).toLocaleString()} L (超過 3 日用量)，請確認讀數{deviationLiters! > 0 ? '或是否補藥' : ''}
+                        </p>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <div className="text-sm font-medium text-slate-700">檢查項目 (選填)</div>
+                    {(Object.keys(FIELD_ROUND_CHECK_LABELS) as FieldRoundCheckItem[]).map(item => (
+                        <div key={item} className="flex items-center justify-between gap-2">
+                            <span className="text-sm text-slate-700">{FIELD_ROUND_CHECK_LABELS[item]}</span>
+                            <div className="flex gap-2">
+                                {(['OK', 'ABNORMAL'] as FieldRoundCheckResult[]).map(result => {
+                                    const active = entry.checklist[item] === result;
+                                    return (
+                                        <button
+                                            key={result}
+                                            type="button"
+                                            onClick={() => updateEntry({ checklist: { ...entry.checklist, [item]: active ? undefined : result } })}
+                                            className={`px-4 py-2 rounded-lg text-sm border ${active
+                                                ? result === 'OK' ? 'bg-green-600 border-green-600 text-white' : 'bg-red-600 border-red-600 text-white'
+                                                : 'bg-white border-slate-200 text-slate-500'}`}
+                                        >
+                                            {result === 'OK' ? '正常' : '異常'}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <textarea
+                    value={entry.note}
+                    onChange={e => updateEntry({ note: e.target.value })}
+                    placeholder="備註 (選填)"
+                    rows={2}
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm"
+                />
+
+                <div>
+                    <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-sm text-slate-600 cursor-pointer hover:bg-slate-50">
+                        <Icons.Plus className="w-4 h-4" />
+                        {entry.photo ? '重新拍照' : '拍照 / 附加照片'}
+                        <input type="file" accept="image/jpeg,image/png,image/webp" capture="environment" className="hidden" onChange={e => handlePhoto(e.target.files?.[0])} />
+                    </label>
+                    {entry.photoUrl && <img src={entry.photoUrl} alt="巡檢照片" className="mt-2 rounded-lg max-h-48" />}
+                </div>
+            </div>
+
+            <div className="fixed bottom-0 inset-x-0 bg-white border-t border-slate-200 p-3 md:static md:border-0 md:bg-transparent md:p-0">
+                <div className="max-w-md mx-auto flex gap-2">
+                    <button onClick={() => index === 0 ? setPhase('START') : setIndex(index - 1)} className={`${bigButton} bg-slate-100 text-slate-700 hover:bg-slate-200`}>
+                        {index === 0 ? '取消' : '上一槽'}
+                    </button>
+                    <button onClick={handleSkip} className={`${bigButton} bg-slate-100 text-slate-500 hover:bg-slate-200`}>
+                        略過
+                    </button>
+                    <button onClick={handleNext} className={`${bigButton} bg-brand-600 text-white hover:bg-brand-700`}>
+                        {index === orderedTanks.length - 1 ? '確認' : '下一槽'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FieldRoundView;
@@ -19,8 +19,10 @@ import {
     InstrumentConsumableOpening,
     InstrumentManagementConfig,
     InstrumentWaterType,
-    LiteInventoryItem
+    LiteInventoryItem,
+    UserRole
 } from '../types';
+import { hasRole } from '../utils/permissionUtils';
 import { AlertTriangle, CalendarDays, PackageCheck, Plus, RefreshCw, Save, Trash2, Wrench } from 'lucide-react';
 
 const todayTaipei = () => {
@@ -350,7 +352,8 @@ const InventoryPicker: React.FC<{
     );
 };
 
-const InstrumentManagementView: React.FC = () => {
+const InstrumentManagementView: React.FC<{ userRole?: UserRole | null }> = ({ userRole }) => {
+    const canManageConfigs = hasRole(userRole, 'engineer');
     const [items, setItems] = useState<LiteInventoryItem[]>([]);
     const [configs, setConfigs] = useState<InstrumentManagementConfig[]>([]);
     const [openings, setOpenings] = useState<InstrumentConsumableOpening[]>([]);
@@ -729,14 +732,16 @@ const InstrumentManagementView: React.FC = () => {
                         <PackageCheck className="h-5 w-5" />
                         <h2 className="text-lg font-bold">{meta.label}</h2>
                     </div>
-                    <button
-                        type="button"
-                        onClick={() => setConfigs(prev => [...prev, emptyConfig(waterType, prev.filter(item => item.waterType === waterType).length)])}
-                        className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
-                    >
-                        <Plus className="h-4 w-4" />
-                        新增
-                    </button>
+                    {canManageConfigs && (
+                        <button
+                            type="button"
+                            onClick={() => setConfigs(prev => [...prev, emptyConfig(waterType, prev.filter(item => item.waterType === waterType).length)])}
+                            className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+                        >
+                            <Plus className="h-4 w-4" />
+                            新增
+                        </button>
+                    )}
                 </div>
 
                 <div className="overflow-hidden rounded-lg border border-slate-200 bg-white shadow-sm">
@@ -834,25 +839,27 @@ const InstrumentManagementView: React.FC = () => {
                                         />
                                     </td>
                                     <td className="px-3 py-3 text-right">
-                                        <div className="flex flex-wrap justify-end gap-2">
-                                            <button
-                                                type="button"
-                                                onClick={() => saveConfig(config, index)}
-                                                disabled={savingId === (config.id || `new-${index}`)}
-                                                className="inline-flex items-center gap-1.5 rounded-lg bg-brand-600 px-3 py-2 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-50"
-                                            >
-                                                <Save className="h-4 w-4" />
-                                                儲存
-                                            </button>
-                                            <button
-                                                type="button"
-                                                onClick={() => deleteConfigRow(config, index)}
-                                                className="rounded-lg border border-red-200 bg-white p-2 text-red-600 hover:bg-red-50"
-                                                title="刪除"
-                                            >
-                                                <Trash2 className="h-4 w-4" />
-                                            </button>
-                                        </div>
+                                        {canManageConfigs && (
+                                            <div className="flex flex-wrap justify-end gap-2">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => saveConfig(config, index)}
+                                                    disabled={savingId === (config.id || `new-${index}`)}
+                                                    className="inline-flex items-center gap-1.5 rounded-lg bg-brand-600 px-3 py-2 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-50"
+                                                >
+                                                    <Save className="h-4 w-4" />
+                                                    儲存
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => deleteConfigRow(config, index)}
+                                                    className="rounded-lg border border-red-200 bg-white p-2 text-red-600 hover:bg-red-50"
+                                                    title="刪除"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        )}
                                     </td>
                                 </tr>
                             );